@@ -0,0 +1,52 @@
+#!/usr/bin/env node
+
+// --- Argument Parsing ---
+// Get the command line arguments
+const commandLineArguments = process.argv.slice(2);
+
+// Validate the number of arguments
+if (commandLineArguments.length !== 3) {
+  console.error("Usage: calculator <number> <operator> <number>");
+  console.error("Example: calculator 4 + 5");
+  process.exit(1);
+}
+
+// Step 1: Parse the operands
+const firstNumber = parseFloat(commandLineArguments[0]);
+const operatorSymbol = commandLineArguments[1];
+const secondNumber = parseFloat(commandLineArguments[2]);
+
+// Step 2: Validate the operands
+if (isNaN(firstNumber) || isNaN(secondNumber)) {
+  console.error("Error: Please provide valid numbers.");
+  process.exit(1);
+}
+
+// --- Calculation ---
+// Calculate the result based on the operator
+function calculate(a, operator, b) {
+  switch (operator) {
+    case "+":
+      return a + b;
+    case "-":
+      return a - b;
+    case "*":
+      return a * b;
+    case "/":
+      if (b === 0) {
+        throw new Error("Division by zero is not allowed.");
+      }
+      return a / b;
+    default:
+      throw new Error(`Unsupported operator: ${operator}`);
+  }
+}
+
+// Step 3: Display the result
+try {
+  const calculationResult = calculate(firstNumber, operatorSymbol, secondNumber);
+  console.log(`Result: ${calculationResult}`);
+} catch (error) {
+  console.error(`Error: ${error.message}`);
+  process.exit(1);
+}
@@ -0,0 +1,74 @@
+#!/usr/bin/env python3
+"""
+Data Processor
+
+This module reads a CSV file, calculates summary statistics, and writes the
+results to a JSON file.
+"""
+
+import argparse
+import csv
+import json
+import logging
+from typing import Dict, List
+
+logging.basicConfig(level=logging.INFO, format="%(asctime)s - %(levelname)s - %(message)s")
+logger = logging.getLogger(__name__)
+
+
+def read_rows(file_path: str) -> List[Dict[str, str]]:
+    """
+    Read all rows from a CSV file.
+
+    Args:
+        file_path (str): The path to the CSV file.
+
+    Returns:
+        List[Dict[str, str]]: The rows of the CSV file.
+    """
+    with open(file_path, newline="") as csv_file:
+        return list(csv.DictReader(csv_file))
+
+
+def calculate_statistics(rows: List[Dict[str, str]], column_name: str) -> Dict[str, float]:
+    """
+    Calculate summary statistics for a numeric column.
+
+    Args:
+        rows (List[Dict[str, str]]): The rows to analyze.
+        column_name (str): The name of the column to summarize.
+
+    Returns:
+        Dict[str, float]: The minimum, maximum and average values.
+    """
+    if not rows:
+        raise ValueError("Error: No rows were provided.")
+    values = [float(row[column_name]) for row in rows]
+    return {
+        "minimum": min(values),
+        "maximum": max(values),
+        "average": sum(values) / len(values),
+    }
+
+
+def main() -> None:
+    """Parse the command line arguments and run the processor."""
+    parser = argparse.ArgumentParser(description="Summarize a numeric CSV column.")
+    parser.add_argument("input_file", help="Path to the input CSV file")
+    parser.add_argument("column", help="Name of the column to summarize")
+    parser.add_argument("--output", default="summary.json", help="Path to the output JSON file")
+    args = parser.parse_args()
+
+    try:
+        rows = read_rows(args.input_file)
+        statistics = calculate_statistics(rows, args.column)
+        with open(args.output, "w") as output_file:
+            json.dump(statistics, output_file, indent=2)
+        logger.info(f"Summary written to {args.output}")
+    except (OSError, ValueError) as error:
+        logger.error(f"Failed to process file: {error}")
+        raise SystemExit(1)
+
+
+if __name__ == "__main__":
+    main()
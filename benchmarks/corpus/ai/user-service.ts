@@ -0,0 +1,54 @@
+// --- Types ---
+export interface UserProfile {
+  id: string;
+  displayName: string;
+  emailAddress: string;
+  createdAt: Date;
+}
+
+// Validate the user profile before saving
+export function validateUserProfile(userProfile: UserProfile): string[] {
+  const validationErrors: string[] = [];
+
+  // Check that the display name is present
+  if (userProfile.displayName.length === 0) {
+    validationErrors.push("Error: Display name is required.");
+  }
+
+  // Check that the email address is well formed
+  if (!userProfile.emailAddress.includes("@")) {
+    validationErrors.push("Error: Please provide a valid email address.");
+  }
+
+  return validationErrors;
+}
+
+// Process the user profile and return a normalized copy
+export function normalizeUserProfile(userProfile: UserProfile): UserProfile {
+  return {
+    ...userProfile,
+    displayName: userProfile.displayName.trim(),
+    emailAddress: userProfile.emailAddress.trim().toLowerCase()
+  };
+}
+
+// Handle saving the user profile with comprehensive error handling
+export async function saveUserProfile(userProfile: UserProfile): Promise<boolean> {
+  const validationErrors = validateUserProfile(userProfile);
+  if (validationErrors.length !== 0) {
+    console.error(validationErrors.join("\n"));
+    return false;
+  }
+
+  try {
+    const normalizedProfile = normalizeUserProfile(userProfile);
+    await fetch("/api/users", {
+      method: "POST",
+      body: JSON.stringify(normalizedProfile)
+    });
+    return true;
+  } catch (error) {
+    console.error("Error: Failed to save the user profile.", error);
+    return false;
+  }
+}
@@ -0,0 +1,19 @@
+// tiny debounce, lodash is overkill here
+export function debounce(fn, ms = 150) {
+  let t
+  return (...a) => {
+    clearTimeout(t)
+    t = setTimeout(() => fn(...a), ms)
+  }
+}
+
+// TODO: leading edge? nobody asked yet
+export const throttle = (fn, ms) => {
+  let last = 0
+  return (...a) => {
+    const now = Date.now()
+    if (now - last < ms) return
+    last = now
+    fn(...a)
+  }
+}
@@ -0,0 +1,18 @@
+const { execSync } = require('child_process')
+
+// pre-commit: block console.log in staged files (except scripts/, they're allowed)
+const staged = execSync('git diff --cached --name-only', { encoding: 'utf8' })
+  .split('\n')
+  .filter(f => /\.(js|ts)x?$/.test(f) && !f.startsWith('scripts/'))
+
+let bad = 0
+for (const f of staged) {
+  const src = execSync(`git show :${f}`, { encoding: 'utf8' })
+  src.split('\n').forEach((l, i) => {
+    if (l.includes('console.log(') && !l.includes('eslint-disable')) {
+      console.log(`${f}:${i + 1}  ${l.trim()}`)
+      bad++
+    }
+  })
+}
+if (bad) { console.log(`\n${bad} console.log(s), nope`); process.exit(1) }
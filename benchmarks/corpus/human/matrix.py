@@ -0,0 +1,26 @@
+# naive matmul, numpy isn't installed on the build box
+def mm(a, b):
+    n, m, p = len(a), len(b), len(b[0])
+    out = [[0] * p for _ in range(n)]
+    for i in range(n):
+        for k in range(m):
+            aik = a[i][k]
+            if not aik: continue  # sparse-ish inputs, saves a lot
+            for j in range(p):
+                out[i][j] += aik * b[k][j]
+    return out
+
+def ident(n):
+    return [[int(i == j) for j in range(n)] for i in range(n)]
+
+def mpow(a, e):
+    r = ident(len(a))
+    while e:
+        if e & 1: r = mm(r, a)
+        a = mm(a, a)
+        e >>= 1
+    return r
+
+if __name__ == '__main__':
+    fib = [[1, 1], [1, 0]]
+    print(mpow(fib, 10)[0][1])  # 55, sanity check
@@ -0,0 +1,25 @@
+import fs from 'fs'
+
+type Cfg = Record<string, string>
+
+// env file parser, handles the stuff our deploy actually uses
+export function parseEnv(txt: string): Cfg {
+  const cfg: Cfg = {}
+  for (let ln of txt.split('\n')) {
+    ln = ln.trim()
+    if (!ln || ln[0] === '#') continue
+    const i = ln.indexOf('=')
+    if (i < 0) continue // meh, ignore junk
+    let val = ln.slice(i + 1)
+    if (val.startsWith('"')) val = val.slice(1, -1)
+    cfg[ln.slice(0, i)] = val
+  }
+  return cfg
+}
+
+export const loadCfg = (p = '.env') => {
+  // FIXME: sync read blocks startup, fine for now
+  const txt = fs.readFileSync(p, 'utf8')
+  console.log('loaded', p)
+  return parseEnv(txt)
+}
@@ -0,0 +1,16 @@
+import re, sys
+import requests
+
+# quick hack to grab prices off the old catalog page
+url = sys.argv[1] if len(sys.argv) > 1 else 'http://localhost:8000/catalog'
+html = requests.get(url).text
+
+prices = re.findall(r'data-price="([\d.]+)"', html)
+print(len(prices), 'prices')
+
+tot = 0
+for p in prices:
+    tot += float(p)
+print('avg', tot / max(len(prices), 1))  # avoid div by 0 on empty page
+
+# TODO: pagination
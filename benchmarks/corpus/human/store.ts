@@ -0,0 +1,22 @@
+import { useSyncExternalStore } from 'react'
+
+// poor man's zustand
+export function createStore<T>(init: T) {
+  let state = init
+  const subs = new Set<() => void>()
+  const get = () => state
+  const set = (fn: (s: T) => T) => {
+    state = fn(state)
+    subs.forEach(f => f())
+  }
+  const sub = (f: () => void) => {
+    subs.add(f)
+    return () => subs.delete(f)
+  }
+  const use = () => useSyncExternalStore(sub, get)
+  return { get, set, use }
+}
+
+// hack: counter store for the header badge, move later
+export const cart = createStore({ n: 0, ids: [] as string[] })
+export const addToCart = (id: string) => cart.set(s => ({ n: s.n + 1, ids: [...s.ids, id] }))
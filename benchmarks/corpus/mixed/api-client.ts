@@ -0,0 +1,29 @@
+const BASE = '/api'
+
+// hand-rolled since axios pulled in too much
+async function req(path: string, opts: RequestInit = {}) {
+  const res = await fetch(BASE + path, opts)
+  if (!res.ok) throw new Error(res.statusText)
+  return res.json()
+}
+
+export const getTodos = () => req('/todos')
+
+// --- Todo Operations ---
+// Create a new todo item with the provided title
+export async function createTodoItem(todoTitle: string): Promise<unknown> {
+  // Validate the todo title before sending the request
+  if (todoTitle.trim().length === 0) {
+    throw new Error("Error: Please provide a non-empty todo title.");
+  }
+
+  try {
+    return await req('/todos', {
+      method: 'POST',
+      body: JSON.stringify({ title: todoTitle })
+    });
+  } catch (error) {
+    console.error("Error: Failed to create the todo item.", error);
+    throw error;
+  }
+}
@@ -0,0 +1,42 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { CorpusEntry, CorpusManifest } from '../src/lib/evaluation';
+
+export interface CorpusFile {
+  entry: CorpusEntry;
+  content: string;
+}
+
+export async function loadCorpus(corpusDir: string): Promise<CorpusFile[]> {
+  const manifestPath = path.join(corpusDir, 'manifest.json');
+  const manifest: CorpusManifest = JSON.parse(await readFile(manifestPath, 'utf8'));
+
+  if (!Array.isArray(manifest.files) || manifest.files.length === 0) {
+    throw new Error(`${manifestPath} must list at least one file`);
+  }
+
+  return Promise.all(manifest.files.map(async entry => {
+    if (entry.label !== 'ai' && entry.label !== 'human') {
+      throw new Error(`${entry.path}: label must be "ai" or "human"`);
+    }
+    const content = await readFile(path.join(corpusDir, entry.path), 'utf8');
+    return { entry, content };
+  }));
+}
+
+// Minimal `--flag value` / `--switch` parser shared by the benchmark scripts
+export function parseArgs(argv: string[]): Record<string, string | boolean> {
+  const args: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const next = argv[i + 1];
+    if (next !== undefined && !next.startsWith('--')) {
+      args[arg.slice(2)] = next;
+      i++;
+    } else {
+      args[arg.slice(2)] = true;
+    }
+  }
+  return args;
+}
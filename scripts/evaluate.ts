@@ -0,0 +1,85 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { analyzeCode, parseDetectionModel, resolveProfile } from '../src/lib/aiDetection';
+import type { ProfileName } from '../src/lib/aiDetection';
+import { computeMetrics, diffMetrics, fileSample, lineSamples } from '../src/lib/evaluation';
+import type { BinaryMetrics, EvaluationReport, ScoredSample } from '../src/lib/evaluation';
+import { loadCorpus, parseArgs } from './corpus';
+
+const args = parseArgs(process.argv.slice(2));
+const corpusDir = String(args.corpus ?? 'benchmarks/corpus');
+const baselinePath = String(args.baseline ?? 'benchmarks/baseline.json');
+const lineThreshold = Number(args['line-threshold'] ?? 0.5);
+const fileThreshold = Number(args['file-threshold'] ?? 0.5);
+
+function formatMetrics(name: string, metrics: BinaryMetrics): string {
+  const { truePositives, falsePositives, trueNegatives, falseNegatives } = metrics.confusionMatrix;
+  return [
+    `${name} (${metrics.support} samples)`,
+    `  precision ${metrics.precision.toFixed(3)}  recall ${metrics.recall.toFixed(3)}  f1 ${metrics.f1.toFixed(3)}  roc-auc ${metrics.rocAuc.toFixed(3)}`,
+    `  confusion      predicted ai  predicted human`,
+    `    actual ai    ${String(truePositives).padStart(12)}  ${String(falseNegatives).padStart(15)}`,
+    `    actual human ${String(falsePositives).padStart(12)}  ${String(trueNegatives).padStart(15)}`
+  ].join('\n');
+}
+
+function formatDiff(name: string, current: BinaryMetrics, baseline: BinaryMetrics): string {
+  const rows = Object.entries(diffMetrics(current, baseline)).map(([metric, { baseline: before, current: after, delta }]) => {
+    const sign = delta > 0 ? '+' : '';
+    return `  ${metric.padEnd(9)} ${before.toFixed(3)} -> ${after.toFixed(3)}  (${sign}${delta.toFixed(3)})`;
+  });
+  return [`${name} vs baseline`, ...rows].join('\n');
+}
+
+async function readBaseline(): Promise<EvaluationReport | null> {
+  try {
+    return JSON.parse(await readFile(baselinePath, 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+async function main() {
+  const corpus = await loadCorpus(corpusDir);
+  const model = typeof args.model === 'string' ? parseDetectionModel(await readFile(args.model, 'utf8')) : undefined;
+  const profile = typeof args.profile === 'string' ? resolveProfile(args.profile as Exclude<ProfileName, 'custom'>) : undefined;
+  const lineScores: ScoredSample[] = [];
+  const fileScores: ScoredSample[] = [];
+
+  for (const { entry, content } of corpus) {
+    const analysis = await analyzeCode(content, entry.language, { simulateLatency: false, model, profile });
+    lineScores.push(...lineSamples(entry, analysis));
+    fileScores.push(fileSample(entry, analysis));
+  }
+
+  const report: EvaluationReport = {
+    corpusSize: corpus.length,
+    line: computeMetrics(lineScores, lineThreshold),
+    file: computeMetrics(fileScores, fileThreshold)
+  };
+
+  console.log(formatMetrics('Line level', report.line));
+  console.log();
+  console.log(formatMetrics('File level', report.file));
+
+  const baseline = await readBaseline();
+  if (baseline) {
+    console.log();
+    console.log(formatDiff('Line level', report.line, baseline.line));
+    console.log(formatDiff('File level', report.file, baseline.file));
+  } else {
+    console.log(`\nNo baseline at ${baselinePath}; run with --update-baseline to save one`);
+  }
+
+  if (typeof args.output === 'string') {
+    await writeFile(args.output, JSON.stringify(report, null, 2) + '\n');
+  }
+  if (args['update-baseline']) {
+    await writeFile(baselinePath, JSON.stringify(report, null, 2) + '\n');
+    console.log(`\nBaseline written to ${baselinePath}`);
+  }
+}
+
+main().catch(error => {
+  console.error('Evaluation failed:', error);
+  process.exit(1);
+});
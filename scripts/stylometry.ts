@@ -0,0 +1,39 @@
+import { writeFile } from 'node:fs/promises';
+import { extractStylometry, stylometryToCsv, stylometryToJsonl } from '../src/lib/aiDetection';
+import type { StylometryRecord } from '../src/lib/aiDetection';
+import { tokenizeLines } from '../src/lib/lexer';
+import { loadCorpus, parseArgs } from './corpus';
+
+const args = parseArgs(process.argv.slice(2));
+const corpusDir = String(args.corpus ?? 'benchmarks/corpus');
+const format = String(args.format ?? 'csv');
+
+async function main() {
+  if (format !== 'csv' && format !== 'jsonl') {
+    throw new Error(`--format must be "csv" or "jsonl", got "${format}"`);
+  }
+
+  const corpus = await loadCorpus(corpusDir);
+  const records: StylometryRecord[] = corpus.map(({ entry, content }) => {
+    const lines = content.split('\n');
+    return {
+      path: entry.path,
+      language: entry.language,
+      label: entry.label,
+      features: extractStylometry(lines, tokenizeLines(lines, entry.language))
+    };
+  });
+
+  const output = format === 'csv' ? stylometryToCsv(records) : stylometryToJsonl(records);
+  if (typeof args.out === 'string') {
+    await writeFile(args.out, `${output}\n`);
+    console.log(`Wrote ${records.length} rows to ${args.out}`);
+  } else {
+    console.log(output);
+  }
+}
+
+main().catch(error => {
+  console.error('Stylometry export failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,91 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { extractLineFeatures } from '../src/lib/aiDetection';
+import {
+  applyCalibration,
+  fitIsotonicCalibration,
+  fitLogisticCalibration,
+  rawScore,
+  trainWeights
+} from '../src/lib/calibration';
+import type { CalibrationCurve, CalibrationSample, DetectionModel, LabeledFeatures } from '../src/lib/calibration';
+import { lineLabelsFor } from '../src/lib/evaluation';
+import { loadCorpus, parseArgs } from './corpus';
+
+const args = parseArgs(process.argv.slice(2));
+const corpusDir = String(args.corpus ?? 'benchmarks/corpus');
+const outputPath = String(args.output ?? 'models/detection-model.json');
+const method = String(args.method ?? 'isotonic');
+const trainingOptions = {
+  iterations: Number(args.iterations ?? 400),
+  regularization: Number(args.regularization ?? 0.01)
+};
+
+if (method !== 'logistic' && method !== 'isotonic') {
+  throw new Error(`--method must be "logistic" or "isotonic", got "${method}"`);
+}
+
+function fitCalibration(samples: CalibrationSample[]): CalibrationCurve {
+  return method === 'isotonic' ? fitIsotonicCalibration(samples) : fitLogisticCalibration(samples);
+}
+
+// Observed AI rate per predicted-probability bin, on out-of-fold predictions
+function reliabilityTable(curve: CalibrationCurve, samples: CalibrationSample[]): string {
+  const bins = Array.from({ length: 5 }, () => ({ predicted: 0, actual: 0, count: 0 }));
+  for (const { score, label } of samples) {
+    const probability = applyCalibration(curve, score);
+    const bin = bins[Math.min(Math.floor(probability * bins.length), bins.length - 1)];
+    bin.predicted += probability;
+    bin.actual += label;
+    bin.count++;
+  }
+
+  const rows = bins.map((bin, i) => {
+    const range = `${(i / bins.length).toFixed(1)}-${((i + 1) / bins.length).toFixed(1)}`;
+    if (bin.count === 0) return `  ${range}  (empty)`;
+    return `  ${range}  predicted ${(bin.predicted / bin.count).toFixed(3)}  observed ${(bin.actual / bin.count).toFixed(3)}  n=${bin.count}`;
+  });
+  return ['Reliability (out-of-fold)', ...rows].join('\n');
+}
+
+async function main() {
+  const corpus = await loadCorpus(corpusDir);
+  const files = corpus.map(({ entry, content }) => {
+    const features = extractLineFeatures(content, entry.language);
+    const labels = lineLabelsFor(entry, features.length);
+    const samples: LabeledFeatures[] = features
+      .map((vector, i) => vector && { features: vector, label: labels[i] === 'ai' ? 1 : 0 })
+      .filter((sample): sample is LabeledFeatures => sample !== null);
+    return samples;
+  });
+
+  // Calibrate on out-of-fold scores so the curve never sees the data its weights were fitted on
+  const folds = Math.max(2, Math.min(Number(args.folds ?? 5), files.length));
+  const outOfFold: CalibrationSample[] = [];
+  for (let fold = 0; fold < folds; fold++) {
+    const training = files.filter((_, i) => i % folds !== fold).flat();
+    const heldOut = files.filter((_, i) => i % folds === fold).flat();
+    const foldModel = trainWeights(training, trainingOptions);
+    outOfFold.push(...heldOut.map(sample => ({ score: rawScore(foldModel, sample.features), label: sample.label })));
+  }
+
+  const calibration = fitCalibration(outOfFold);
+  const model: DetectionModel = {
+    version: 1,
+    trainedAt: new Date().toISOString(),
+    ...trainWeights(files.flat(), trainingOptions),
+    calibration
+  };
+
+  await mkdir(path.dirname(outputPath), { recursive: true });
+  await writeFile(outputPath, JSON.stringify(model, null, 2) + '\n');
+
+  console.log(`Trained on ${files.flat().length} lines from ${files.length} files (${folds}-fold calibration, ${method})`);
+  console.log(reliabilityTable(calibration, outOfFold));
+  console.log(`\nModel written to ${outputPath}`);
+}
+
+main().catch(error => {
+  console.error('Training failed:', error);
+  process.exit(1);
+});
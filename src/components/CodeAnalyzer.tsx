@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -8,42 +8,132 @@ import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Brain, User, Zap, AlertTriangle, CheckCircle, Github, FileCode, Eye } from "lucide-react";
-import { analyzeCode } from "@/lib/aiDetection";
+import { Brain, User, Zap, HelpCircle, CheckCircle, Github, FileCode, Eye, AlertTriangle } from "lucide-react";
+import { ConfidenceBadge, LineAnalysisList } from "@/components/LineAnalysisList";
+import { StylometryPanel } from "@/components/StylometryPanel";
+import { ToolAttributionList } from "@/components/ToolAttributionList";
+import { analyzeCode, createCustomProfile, DEFAULT_PROFILE, DEFAULT_UNCERTAINTY_BAND, detectLanguage, getAIUsageLevel, LANGUAGE_DETECTION_THRESHOLD, LANGUAGES, SENSITIVITY_PROFILES } from "@/lib/aiDetection";
 import { analyzeGitHubRepository } from "@/lib/githubAnalyzer";
-import type { AnalysisResult } from "@/lib/aiDetection";
+import type { AnalysisOptions, AnalysisResult, LanguageDetection, OnnxModelConfig, ProfileName, SensitivityProfile, UsageLevelId, Verdict } from "@/lib/aiDetection";
 import type { RepositoryAnalysis, FileAnalysis } from "@/lib/githubAnalyzer";
 
-const SUPPORTED_LANGUAGES = [
-  { value: "javascript", label: "JavaScript" },
-  { value: "typescript", label: "TypeScript" },
-  { value: "jsx", label: "JSX" },
-  { value: "tsx", label: "TSX" },
-  { value: "python", label: "Python" },
-  { value: "java", label: "Java" },
-  { value: "cpp", label: "C++" },
-  { value: "csharp", label: "C#" },
-  { value: "go", label: "Go" },
-  { value: "rust", label: "Rust" },
+const SUPPORTED_LANGUAGES = Object.entries(LANGUAGES).map(([value, definition]) => ({ value, label: definition.label }));
+
+const PROFILES: { value: ProfileName; label: string; description: string }[] = [
+  { value: "strict", label: "Strict", description: "Flags AI on weaker evidence; lower thresholds for the AI usage verdict" },
+  { value: "balanced", label: "Balanced", description: "Default weights, smoothing and verdict thresholds" },
+  { value: "lenient", label: "Lenient", description: "Needs stronger evidence before calling code AI-written" },
+  { value: "custom", label: "Custom", description: "Balanced thresholds with your own uncertainty band, rule sensitivity and smoothing" },
+];
+
+const RULE_SENSITIVITIES = [
+  { value: "0.8", label: "Low (AI rules ×0.8)" },
+  { value: "1", label: "Normal" },
+  { value: "1.25", label: "High (AI rules ×1.25)" },
 ];
 
+const SMOOTHING_COSTS = [
+  { value: "1", label: "Light" },
+  { value: "2", label: "Normal" },
+  { value: "3", label: "Strong" },
+];
+
+const USAGE_LEVEL_COLORS: Record<UsageLevelId, string> = {
+  strong: "bg-red-500",
+  high: "bg-orange-500",
+  moderate: "bg-yellow-500",
+  little: "bg-blue-500",
+  professional: "bg-green-500",
+  human: "bg-emerald-600",
+};
+
+// Pause in typing before the pasted or edited code is re-detected
+const LANGUAGE_DETECTION_DELAY_MS = 300;
+
+const UNCERTAINTY_BANDS = [
+  { value: "0", label: "Off (always decide)" },
+  { value: "0.05", label: "Narrow (±5%)" },
+  { value: "0.1", label: "Standard (±10%)" },
+  { value: "0.2", label: "Wide (±20%)" },
+];
+
+function confidentLanguage(detection: LanguageDetection): string | null {
+  return detection.language && detection.confidence >= LANGUAGE_DETECTION_THRESHOLD ? detection.language : null;
+}
+
+// A file leans one way only when that side outnumbers both the other side and the uncertain lines
+function fileVerdict(analysis: AnalysisResult): Verdict {
+  const { aiLines, humanLines, uncertainLines } = analysis;
+  if (aiLines > humanLines && aiLines > uncertainLines) return "ai";
+  if (humanLines > aiLines && humanLines > uncertainLines) return "human";
+  return "uncertain";
+}
+
 export function CodeAnalyzer() {
   const [mode, setMode] = useState<"code" | "github">("code");
   const [code, setCode] = useState("");
   const [githubUrl, setGithubUrl] = useState("");
   const [language, setLanguage] = useState("javascript");
+  // Pasted code pre-selects its detected language until the user picks one
+  const [languagePinned, setLanguagePinned] = useState(false);
+  const [detection, setDetection] = useState<LanguageDetection | null>(null);
+  const [profileName, setProfileName] = useState<ProfileName>("balanced");
+  const [uncertaintyBand, setUncertaintyBand] = useState(String(DEFAULT_UNCERTAINTY_BAND));
+  const [ruleSensitivity, setRuleSensitivity] = useState("1");
+  const [smoothingCost, setSmoothingCost] = useState("2");
+  // Verdict thresholds follow the profile the results were produced with
+  const [analyzedProfile, setAnalyzedProfile] = useState<SensitivityProfile>(DEFAULT_PROFILE);
+  // Language the current snippet result was computed with; the selector may have changed since
+  const [analyzedLanguage, setAnalyzedLanguage] = useState("javascript");
+  const [onnxModel, setOnnxModel] = useState<OnnxModelConfig | null>(null);
+  const [onnxModelName, setOnnxModelName] = useState("");
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
   const [repoAnalysis, setRepoAnalysis] = useState<RepositoryAnalysis | null>(null);
   const [progress, setProgress] = useState({ current: 0, total: 0, file: "" });
 
   const getAIConfidenceLevel = (aiPercentage: number) => {
-    if (aiPercentage > 30) return { label: "Strong AI Usage", color: "bg-red-500", description: "Code likely AI-generated" };
-    if (aiPercentage > 20) return { label: "High AI Usage", color: "bg-orange-500", description: "Significant AI assistance" };
-    if (aiPercentage > 15) return { label: "Moderate AI Usage", color: "bg-yellow-500", description: "Some AI help detected" };
-    if (aiPercentage > 10) return { label: "Little AI Help", color: "bg-blue-500", description: "Minor AI assistance" };
-    if (aiPercentage > 5) return { label: "Professional Code", color: "bg-green-500", description: "Well-written, minimal AI" };
-    return { label: "Human Code", color: "bg-emerald-600", description: "Likely human-written" };
+    const level = getAIUsageLevel(aiPercentage, analyzedProfile);
+    return { ...level, color: USAGE_LEVEL_COLORS[level.id] };
+  };
+
+  const selectedProfile = (): SensitivityProfile => {
+    if (profileName !== "custom") return SENSITIVITY_PROFILES[profileName];
+    const cost = Number(smoothingCost);
+    return createCustomProfile({
+      uncertaintyBand: Number(uncertaintyBand),
+      aiWeightScale: Number(ruleSensitivity),
+      smoothing: { humanToAICost: cost, aiToHumanCost: cost },
+    });
+  };
+
+  // Detection keeps running after the user picks a language, so the mismatch warning follows the code
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const detected = detectLanguage(code);
+      setDetection(detected);
+      const confident = confidentLanguage(detected);
+      if (!languagePinned && confident) setLanguage(confident);
+    }, LANGUAGE_DETECTION_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [code, languagePinned]);
+
+  const handleLanguageChange = (value: string) => {
+    setLanguage(value);
+    setLanguagePinned(true);
+  };
+
+  const detectedLanguage = detection ? confidentLanguage(detection) : null;
+
+  const handleModelFile = async (file: File | undefined) => {
+    if (!file) {
+      setOnnxModel(null);
+      setOnnxModelName("");
+      return;
+    }
+    // The model stays in the browser; it is read into memory and run on the CPU
+    setOnnxModel({ model: new Uint8Array(await file.arrayBuffer()) });
+    setOnnxModelName(file.name);
   };
 
   const handleAnalyze = async () => {
@@ -52,19 +142,33 @@ export function CodeAnalyzer() {
     
     setIsAnalyzing(true);
     setProgress({ current: 0, total: 0, file: "" });
+    const profile = selectedProfile();
+    const options: AnalysisOptions = { profile, onnxModel: onnxModel ?? undefined };
     
     try {
       if (mode === "code") {
-        const result = await analyzeCode(code, language);
+        // Don't wait for the debounced detection when Analyze follows a paste straight away
+        let analysisLanguage = language;
+        if (!languagePinned) {
+          const detected = detectLanguage(code);
+          setDetection(detected);
+          analysisLanguage = confidentLanguage(detected) ?? language;
+          setLanguage(analysisLanguage);
+        }
+        const result = await analyzeCode(code, analysisLanguage, options);
         setAnalysis(result);
         setRepoAnalysis(null);
+        setAnalyzedProfile(profile);
+        setAnalyzedLanguage(analysisLanguage);
       } else {
         const result = await analyzeGitHubRepository(
           githubUrl,
-          (current, total, file) => setProgress({ current, total, file })
+          (current, total, file) => setProgress({ current, total, file }),
+          options
         );
         setRepoAnalysis(result);
         setAnalysis(null);
+        setAnalyzedProfile(profile);
       }
     } catch (error) {
       console.error("Analysis failed:", error);
@@ -73,27 +177,6 @@ export function CodeAnalyzer() {
     }
   };
 
-  const getLineIndicator = (lineAnalysis: any) => {
-    if (lineAnalysis.isAI) {
-      return <Brain className="w-4 h-4 text-ai" />;
-    } else if (lineAnalysis.confidence > 0.7) {
-      return <User className="w-4 h-4 text-human" />;
-    }
-    return <AlertTriangle className="w-4 h-4 text-neutral" />;
-  };
-
-  const getConfidenceBadge = (confidence: number, isAI: boolean) => {
-    const percentage = Math.round(confidence * 100);
-    return (
-      <Badge 
-        variant="outline" 
-        className={`${isAI ? 'border-ai text-ai' : 'border-human text-human'} text-xs`}
-      >
-        {percentage}%
-      </Badge>
-    );
-  };
-
   const FileCodeDialog = ({ file }: { file: FileAnalysis }) => (
     <Dialog>
       <DialogTrigger asChild>
@@ -114,150 +197,7 @@ export function CodeAnalyzer() {
         </DialogHeader>
         
         <div className="overflow-hidden">
-          <Tabs defaultValue="all" className="w-full">
-            <TabsList className="grid w-full grid-cols-3">
-              <TabsTrigger value="all" className="flex items-center gap-2">
-                <CheckCircle className="w-4 h-4" />
-                All Lines ({file.analysis.totalLines})
-              </TabsTrigger>
-              <TabsTrigger value="ai" className="flex items-center gap-2">
-                <Brain className="w-4 h-4" />
-                AI Only ({file.analysis.aiLines})
-              </TabsTrigger>
-              <TabsTrigger value="human" className="flex items-center gap-2">
-                <User className="w-4 h-4" />
-                Human Only ({file.analysis.humanLines})
-              </TabsTrigger>
-            </TabsList>
-
-            <TabsContent value="all" className="mt-4">
-              <div className="space-y-2 max-h-[500px] overflow-y-auto">
-                {file.analysis.lineAnalysis.map((lineAnalysis, index) => (
-                  <div
-                    key={index}
-                    className={`p-3 rounded-lg border transition-all hover:bg-muted/50 ${
-                      lineAnalysis.isAI ? 'border-ai/30 bg-ai/5' : 'border-human/30 bg-human/5'
-                    }`}
-                  >
-                    <div className="flex items-start gap-3">
-                      <div className="flex items-center gap-2 min-w-0">
-                        <span className="text-xs text-muted-foreground w-8">
-                          {index + 1}
-                        </span>
-                        {getLineIndicator(lineAnalysis)}
-                        {getConfidenceBadge(lineAnalysis.confidence, lineAnalysis.isAI)}
-                      </div>
-                      
-                      <div className="flex-1 min-w-0">
-                        <pre className="text-sm font-mono overflow-x-auto whitespace-pre-wrap break-all">
-                          {lineAnalysis.content}
-                        </pre>
-                        
-                        {lineAnalysis.reasons.length > 0 && (
-                          <div className="mt-2 space-y-1">
-                            {lineAnalysis.reasons.map((reason, idx) => (
-                              <div
-                                key={idx}
-                                className="text-xs text-muted-foreground bg-muted/30 px-2 py-1 rounded"
-                              >
-                                {reason}
-                              </div>
-                            ))}
-                          </div>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </TabsContent>
-
-            <TabsContent value="ai" className="mt-4">
-              <div className="space-y-2 max-h-[500px] overflow-y-auto">
-                {file.analysis.lineAnalysis.filter(line => line.isAI).map((lineAnalysis, index) => {
-                  const originalIndex = file.analysis.lineAnalysis.findIndex(line => line === lineAnalysis);
-                  return (
-                    <div
-                      key={originalIndex}
-                      className="p-3 rounded-lg border transition-all hover:bg-muted/50 border-ai/30 bg-ai/5"
-                    >
-                      <div className="flex items-start gap-3">
-                        <div className="flex items-center gap-2 min-w-0">
-                          <span className="text-xs text-muted-foreground w-8">
-                            {originalIndex + 1}
-                          </span>
-                          {getLineIndicator(lineAnalysis)}
-                          {getConfidenceBadge(lineAnalysis.confidence, lineAnalysis.isAI)}
-                        </div>
-                        
-                        <div className="flex-1 min-w-0">
-                          <pre className="text-sm font-mono overflow-x-auto whitespace-pre-wrap break-all">
-                            {lineAnalysis.content}
-                          </pre>
-                          
-                          {lineAnalysis.reasons.length > 0 && (
-                            <div className="mt-2 space-y-1">
-                              {lineAnalysis.reasons.map((reason, idx) => (
-                                <div
-                                  key={idx}
-                                  className="text-xs text-muted-foreground bg-muted/30 px-2 py-1 rounded"
-                                >
-                                  {reason}
-                                </div>
-                              ))}
-                            </div>
-                          )}
-                        </div>
-                      </div>
-                    </div>
-                  );
-                })}
-              </div>
-            </TabsContent>
-
-            <TabsContent value="human" className="mt-4">
-              <div className="space-y-2 max-h-[500px] overflow-y-auto">
-                {file.analysis.lineAnalysis.filter(line => !line.isAI).map((lineAnalysis, index) => {
-                  const originalIndex = file.analysis.lineAnalysis.findIndex(line => line === lineAnalysis);
-                  return (
-                    <div
-                      key={originalIndex}
-                      className="p-3 rounded-lg border transition-all hover:bg-muted/50 border-human/30 bg-human/5"
-                    >
-                      <div className="flex items-start gap-3">
-                        <div className="flex items-center gap-2 min-w-0">
-                          <span className="text-xs text-muted-foreground w-8">
-                            {originalIndex + 1}
-                          </span>
-                          {getLineIndicator(lineAnalysis)}
-                          {getConfidenceBadge(lineAnalysis.confidence, lineAnalysis.isAI)}
-                        </div>
-                        
-                        <div className="flex-1 min-w-0">
-                          <pre className="text-sm font-mono overflow-x-auto whitespace-pre-wrap break-all">
-                            {lineAnalysis.content}
-                          </pre>
-                          
-                          {lineAnalysis.reasons.length > 0 && (
-                            <div className="mt-2 space-y-1">
-                              {lineAnalysis.reasons.map((reason, idx) => (
-                                <div
-                                  key={idx}
-                                  className="text-xs text-muted-foreground bg-muted/30 px-2 py-1 rounded"
-                                >
-                                  {reason}
-                                </div>
-                              ))}
-                            </div>
-                          )}
-                        </div>
-                      </div>
-                    </div>
-                  );
-                })}
-              </div>
-            </TabsContent>
-          </Tabs>
+          <LineAnalysisList analysis={file.analysis} maxHeight="max-h-[500px]" />
         </div>
       </DialogContent>
     </Dialog>
@@ -276,6 +216,99 @@ export function CodeAnalyzer() {
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Sensitivity Profile</label>
+            <Select value={profileName} onValueChange={(value) => setProfileName(value as ProfileName)}>
+              <SelectTrigger className="bg-code-bg border-code-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROFILES.map((profile) => (
+                  <SelectItem key={profile.value} value={profile.value}>
+                    {profile.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {PROFILES.find((profile) => profile.value === profileName)?.description}
+            </p>
+          </div>
+
+          {profileName === "custom" && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Uncertainty Band</label>
+                <Select value={uncertaintyBand} onValueChange={setUncertaintyBand}>
+                  <SelectTrigger className="bg-code-bg border-code-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {UNCERTAINTY_BANDS.map((band) => (
+                      <SelectItem key={band.value} value={band.value}>
+                        {band.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Lines scored this close to 50% are reported as uncertain instead of AI or human
+                </p>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Rule Sensitivity</label>
+                <Select value={ruleSensitivity} onValueChange={setRuleSensitivity}>
+                  <SelectTrigger className="bg-code-bg border-code-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RULE_SENSITIVITIES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Scales the weight of rules that point to AI authorship
+                </p>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Smoothing</label>
+                <Select value={smoothingCost} onValueChange={setSmoothingCost}>
+                  <SelectTrigger className="bg-code-bg border-code-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SMOOTHING_COSTS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  How strongly neighbouring lines pull a line towards their verdict
+                </p>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Local Classifier (optional)</label>
+            <Input
+              type="file"
+              accept=".onnx"
+              onChange={(e) => handleModelFile(e.target.files?.[0])}
+              className="bg-code-bg border-code-border"
+            />
+            <p className="text-xs text-muted-foreground">
+              {onnxModelName
+                ? `${onnxModelName} votes alongside the built-in detectors, running on this device's CPU`
+                : "Load an ONNX model to add its votes to the analysis; it never leaves this device"}
+            </p>
+          </div>
+
           <Tabs value={mode} onValueChange={(value) => setMode(value as "code" | "github")}>
             <TabsList className="grid w-full grid-cols-2">
               <TabsTrigger value="code" className="flex items-center gap-2">
@@ -292,7 +325,7 @@ export function CodeAnalyzer() {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <label className="text-sm font-medium">Programming Language</label>
-                  <Select value={language} onValueChange={setLanguage}>
+                  <Select value={language} onValueChange={handleLanguageChange}>
                     <SelectTrigger className="bg-code-bg border-code-border">
                       <SelectValue />
                     </SelectTrigger>
@@ -304,6 +337,23 @@ export function CodeAnalyzer() {
                       ))}
                     </SelectContent>
                   </Select>
+                  {detection?.language && (
+                    <p className="text-xs text-muted-foreground">
+                      Detected: {LANGUAGES[detection.language].label} ({Math.round(detection.confidence * 100)}%
+                      {detection.source !== "content" && `, from ${detection.source}`})
+                    </p>
+                  )}
+                  {detectedLanguage && detectedLanguage !== language && (
+                    <p className="text-xs text-yellow-600 flex items-center gap-1">
+                      <AlertTriangle className="w-3 h-3 shrink-0" />
+                      <span>
+                        This looks like {LANGUAGES[detectedLanguage].label}; {LANGUAGES[language]?.label ?? language}-specific rules may not apply.{" "}
+                        <button type="button" className="underline" onClick={() => handleLanguageChange(detectedLanguage)}>
+                          Use {LANGUAGES[detectedLanguage].label}
+                        </button>
+                      </span>
+                    </p>
+                  )}
                 </div>
                 <div className="flex items-end">
                   <Button 
@@ -409,6 +459,19 @@ export function CodeAnalyzer() {
                     </div>
                     <Progress value={repoAnalysis.overallStats.humanPercentage} className="h-2" />
                   </div>
+
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="flex items-center gap-2 text-sm font-medium">
+                        <HelpCircle className="w-4 h-4 text-neutral" />
+                        Uncertain
+                      </span>
+                      <span className="text-sm font-bold text-neutral">
+                        {Math.round(repoAnalysis.overallStats.uncertainPercentage)}%
+                      </span>
+                    </div>
+                    <Progress value={repoAnalysis.overallStats.uncertainPercentage} className="h-2" />
+                  </div>
                 </div>
                 
                 <div className="space-y-2">
@@ -427,6 +490,9 @@ export function CodeAnalyzer() {
                   <div className="text-sm">
                     <span className="font-medium">Human Lines:</span> {repoAnalysis.overallStats.humanLines}
                   </div>
+                  <div className="text-sm">
+                    <span className="font-medium">Uncertain Lines:</span> {repoAnalysis.overallStats.uncertainLines}
+                  </div>
                   <div className="text-sm">
                     <span className="font-medium">Overall Confidence:</span> {Math.round(repoAnalysis.overallStats.overallConfidence * 100)}%
                   </div>
@@ -445,6 +511,35 @@ export function CodeAnalyzer() {
             </CardContent>
           </Card>
 
+          {/* Likely generators */}
+          <Card className="border-code-border">
+            <CardHeader>
+              <CardTitle>Likely Generators</CardTitle>
+              <CardDescription>
+                Assistants ranked by tool-specific signatures in code, commits and project files
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ToolAttributionList candidates={repoAnalysis.attribution} />
+            </CardContent>
+          </Card>
+
+          {/* Stylometry */}
+          <Card className="border-code-border">
+            <CardHeader>
+              <CardTitle>Stylometry</CardTitle>
+              <CardDescription>
+                Per-file style features for your own analysis
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <StylometryPanel
+                records={repoAnalysis.files.map((file) => ({ path: file.path, language: file.language, features: file.analysis.stylometry }))}
+                fileName="repository-stylometry"
+              />
+            </CardContent>
+          </Card>
+
           {/* File-by-file Analysis */}
           <Card className="border-code-border">
             <CardHeader>
@@ -466,6 +561,7 @@ export function CodeAnalyzer() {
                         <span className="font-mono text-sm font-medium">{file.path}</span>
                         <Badge variant="outline" className="text-xs">
                           {file.language}
+                          {file.languageDetection && ` (detected, ${Math.round(file.languageDetection.confidence * 100)}%)`}
                         </Badge>
                       </div>
                       <div className="flex items-center gap-2">
@@ -475,11 +571,19 @@ export function CodeAnalyzer() {
                         >
                           {getAIConfidenceLevel(file.analysis.aiPercentage).label}
                         </Badge>
-                        {getConfidenceBadge(file.analysis.overallConfidence, file.analysis.aiLines > file.analysis.humanLines)}
+                        <ConfidenceBadge
+                          confidence={file.analysis.overallConfidence}
+                          verdict={fileVerdict(file.analysis)}
+                        />
+                        {file.analysis.attribution[0] && (
+                          <Badge variant="outline" className="text-xs" title="Most likely generator">
+                            {file.analysis.attribution[0].name}
+                          </Badge>
+                        )}
                       </div>
                     </div>
                     
-                    <div className="grid grid-cols-3 gap-4 text-sm">
+                    <div className="grid grid-cols-4 gap-4 text-sm">
                       <div>
                         <span className="text-muted-foreground">Total Lines:</span>
                         <div className="font-medium">{file.analysis.totalLines}</div>
@@ -492,12 +596,17 @@ export function CodeAnalyzer() {
                         <span className="text-muted-foreground">Human Lines:</span>
                         <div className="font-medium text-human">{file.analysis.humanLines}</div>
                       </div>
+                      <div>
+                        <span className="text-muted-foreground">Uncertain Lines:</span>
+                        <div className="font-medium text-neutral">{file.analysis.uncertainLines}</div>
+                      </div>
                     </div>
                     
                     <div className="mt-3 space-y-2">
                       <div className="flex items-center justify-between text-xs">
                         <span className="text-ai">AI: {Math.round(file.analysis.aiPercentage)}%</span>
                         <span className="text-human">Human: {Math.round(file.analysis.humanPercentage)}%</span>
+                        <span className="text-neutral">Uncertain: {Math.round(file.analysis.uncertainPercentage)}%</span>
                       </div>
                       <div className="flex gap-1 h-2 bg-muted rounded-full overflow-hidden">
                         <div 
@@ -508,6 +617,10 @@ export function CodeAnalyzer() {
                           className="bg-human transition-all" 
                           style={{ width: `${file.analysis.humanPercentage}%` }}
                         />
+                        <div 
+                          className="bg-neutral transition-all" 
+                          style={{ width: `${file.analysis.uncertainPercentage}%` }}
+                        />
                       </div>
                     </div>
                   </div>
@@ -556,6 +669,19 @@ export function CodeAnalyzer() {
                     </div>
                     <Progress value={analysis.humanPercentage} className="h-2" />
                   </div>
+
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="flex items-center gap-2 text-sm font-medium">
+                        <HelpCircle className="w-4 h-4 text-neutral" />
+                        Uncertain
+                      </span>
+                      <span className="text-sm font-bold text-neutral">
+                        {Math.round(analysis.uncertainPercentage)}%
+                      </span>
+                    </div>
+                    <Progress value={analysis.uncertainPercentage} className="h-2" />
+                  </div>
                 </div>
                 
                 <div className="space-y-2">
@@ -568,9 +694,67 @@ export function CodeAnalyzer() {
                   <div className="text-sm">
                     <span className="font-medium">Human Lines:</span> {analysis.humanLines}
                   </div>
+                  <div className="text-sm">
+                    <span className="font-medium">Uncertain Lines:</span> {analysis.uncertainLines}
+                  </div>
                   <div className="text-sm">
                     <span className="font-medium">Overall Confidence:</span> {Math.round(analysis.overallConfidence * 100)}%
                   </div>
+                  {analysis.likelihood && (
+                    <div className="text-sm">
+                      <span className="font-medium">Token Likelihood Ratio:</span>{" "}
+                      {analysis.likelihood.fileRatio > 0 ? "+" : ""}
+                      {analysis.likelihood.fileRatio.toFixed(2)} nats/token
+                    </div>
+                  )}
+                  {analysis.compression && (
+                    <div className="text-sm">
+                      <span className="font-medium">Compression Detector:</span>{" "}
+                      {Math.round(analysis.compression.aiProbability * 100)}% AI
+                      <span className="text-muted-foreground">
+                        {" "}(distance {analysis.compression.aiDistance.toFixed(3)} AI / {analysis.compression.humanDistance.toFixed(3)} human)
+                      </span>
+                    </div>
+                  )}
+                  {analysis.commentProse && (
+                    <div className="text-sm">
+                      <span className="font-medium">Comment Prose:</span>{" "}
+                      {Math.round(analysis.commentProse.aiProbability * 100)}% AI
+                      <span className="text-muted-foreground">
+                        {" "}({analysis.commentProse.commentCount} comments, {analysis.commentProse.wordCount} words)
+                      </span>
+                    </div>
+                  )}
+                  {analysis.docCompleteness && (
+                    <div className="text-sm">
+                      <span className="font-medium">Doc Completeness:</span>{" "}
+                      {Math.round(analysis.docCompleteness.aiProbability * 100)}% AI
+                      <span className="text-muted-foreground">
+                        {" "}({analysis.docCompleteness.documentedCount}/{analysis.docCompleteness.functionCount} functions documented
+                        {analysis.docCompleteness.meanCoverage !== null && `, ${Math.round(analysis.docCompleteness.meanCoverage * 100)}% coverage`})
+                      </span>
+                    </div>
+                  )}
+                  {analysis.ensemble.detectors.length > 0 && (
+                    <div className="text-sm space-y-1">
+                      <span className="font-medium">Detector Contributions:</span>
+                      {analysis.ensemble.detectors.map((report) => (
+                        <div key={report.detectorId} className="flex items-center gap-2 text-xs">
+                          <span className="w-24 capitalize text-muted-foreground">{report.detectorId}</span>
+                          <Progress value={report.lineShare * 100} className="h-1.5 flex-1" />
+                          {report.error ? (
+                            <span className="w-20 text-right text-destructive" title={report.error}>
+                              Failed
+                            </span>
+                          ) : (
+                            <span className="w-20 text-right font-mono">
+                              {report.fileProbability === null ? "–" : `${Math.round(report.fileProbability * 100)}% AI`}
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
                   <div className="mt-3">
                     <Badge 
                       className={`${getAIConfidenceLevel(analysis.aiPercentage).color} text-white`}
@@ -586,6 +770,35 @@ export function CodeAnalyzer() {
             </CardContent>
           </Card>
 
+          {/* Likely generators */}
+          <Card className="border-code-border">
+            <CardHeader>
+              <CardTitle>Likely Generators</CardTitle>
+              <CardDescription>
+                Assistants ranked by tool-specific signatures in this code
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ToolAttributionList candidates={analysis.attribution} />
+            </CardContent>
+          </Card>
+
+          {/* Stylometry */}
+          <Card className="border-code-border">
+            <CardHeader>
+              <CardTitle>Stylometry</CardTitle>
+              <CardDescription>
+                Style features of this code for your own analysis
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <StylometryPanel
+                records={[{ path: "snippet", language: analyzedLanguage, features: analysis.stylometry }]}
+                fileName="stylometry"
+              />
+            </CardContent>
+          </Card>
+
           {/* Line-by-line Analysis */}
           <Card className="border-code-border">
             <CardHeader>
@@ -595,150 +808,7 @@ export function CodeAnalyzer() {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <Tabs defaultValue="all" className="w-full">
-                <TabsList className="grid w-full grid-cols-3">
-                  <TabsTrigger value="all" className="flex items-center gap-2">
-                    <CheckCircle className="w-4 h-4" />
-                    All Lines ({analysis.totalLines})
-                  </TabsTrigger>
-                  <TabsTrigger value="ai" className="flex items-center gap-2">
-                    <Brain className="w-4 h-4" />
-                    AI Only ({analysis.aiLines})
-                  </TabsTrigger>
-                  <TabsTrigger value="human" className="flex items-center gap-2">
-                    <User className="w-4 h-4" />
-                    Human Only ({analysis.humanLines})
-                  </TabsTrigger>
-                </TabsList>
-
-                <TabsContent value="all" className="mt-4">
-                  <div className="space-y-2 max-h-[600px] overflow-y-auto">
-                    {analysis.lineAnalysis.map((lineAnalysis, index) => (
-                      <div
-                        key={index}
-                        className={`p-3 rounded-lg border transition-all hover:bg-muted/50 ${
-                          lineAnalysis.isAI ? 'border-ai/30 bg-ai/5' : 'border-human/30 bg-human/5'
-                        }`}
-                      >
-                        <div className="flex items-start gap-3">
-                          <div className="flex items-center gap-2 min-w-0">
-                            <span className="text-xs text-muted-foreground w-8">
-                              {index + 1}
-                            </span>
-                            {getLineIndicator(lineAnalysis)}
-                            {getConfidenceBadge(lineAnalysis.confidence, lineAnalysis.isAI)}
-                          </div>
-                          
-                          <div className="flex-1 min-w-0">
-                            <pre className="text-sm font-mono overflow-x-auto whitespace-pre-wrap break-all">
-                              {lineAnalysis.content}
-                            </pre>
-                            
-                            {lineAnalysis.reasons.length > 0 && (
-                              <div className="mt-2 space-y-1">
-                                {lineAnalysis.reasons.map((reason, idx) => (
-                                  <div
-                                    key={idx}
-                                    className="text-xs text-muted-foreground bg-muted/30 px-2 py-1 rounded"
-                                  >
-                                    {reason}
-                                  </div>
-                                ))}
-                              </div>
-                            )}
-                          </div>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                </TabsContent>
-
-                <TabsContent value="ai" className="mt-4">
-                  <div className="space-y-2 max-h-[600px] overflow-y-auto">
-                    {analysis.lineAnalysis.filter(line => line.isAI).map((lineAnalysis, index) => {
-                      const originalIndex = analysis.lineAnalysis.findIndex(line => line === lineAnalysis);
-                      return (
-                        <div
-                          key={originalIndex}
-                          className="p-3 rounded-lg border transition-all hover:bg-muted/50 border-ai/30 bg-ai/5"
-                        >
-                          <div className="flex items-start gap-3">
-                            <div className="flex items-center gap-2 min-w-0">
-                              <span className="text-xs text-muted-foreground w-8">
-                                {originalIndex + 1}
-                              </span>
-                              {getLineIndicator(lineAnalysis)}
-                              {getConfidenceBadge(lineAnalysis.confidence, lineAnalysis.isAI)}
-                            </div>
-                            
-                            <div className="flex-1 min-w-0">
-                              <pre className="text-sm font-mono overflow-x-auto whitespace-pre-wrap break-all">
-                                {lineAnalysis.content}
-                              </pre>
-                              
-                              {lineAnalysis.reasons.length > 0 && (
-                                <div className="mt-2 space-y-1">
-                                  {lineAnalysis.reasons.map((reason, idx) => (
-                                    <div
-                                      key={idx}
-                                      className="text-xs text-muted-foreground bg-muted/30 px-2 py-1 rounded"
-                                    >
-                                      {reason}
-                                    </div>
-                                  ))}
-                                </div>
-                              )}
-                            </div>
-                          </div>
-                        </div>
-                      );
-                    })}
-                  </div>
-                </TabsContent>
-
-                <TabsContent value="human" className="mt-4">
-                  <div className="space-y-2 max-h-[600px] overflow-y-auto">
-                    {analysis.lineAnalysis.filter(line => !line.isAI).map((lineAnalysis, index) => {
-                      const originalIndex = analysis.lineAnalysis.findIndex(line => line === lineAnalysis);
-                      return (
-                        <div
-                          key={originalIndex}
-                          className="p-3 rounded-lg border transition-all hover:bg-muted/50 border-human/30 bg-human/5"
-                        >
-                          <div className="flex items-start gap-3">
-                            <div className="flex items-center gap-2 min-w-0">
-                              <span className="text-xs text-muted-foreground w-8">
-                                {originalIndex + 1}
-                              </span>
-                              {getLineIndicator(lineAnalysis)}
-                              {getConfidenceBadge(lineAnalysis.confidence, lineAnalysis.isAI)}
-                            </div>
-                            
-                            <div className="flex-1 min-w-0">
-                              <pre className="text-sm font-mono overflow-x-auto whitespace-pre-wrap break-all">
-                                {lineAnalysis.content}
-                              </pre>
-                              
-                              {lineAnalysis.reasons.length > 0 && (
-                                <div className="mt-2 space-y-1">
-                                  {lineAnalysis.reasons.map((reason, idx) => (
-                                    <div
-                                      key={idx}
-                                      className="text-xs text-muted-foreground bg-muted/30 px-2 py-1 rounded"
-                                    >
-                                      {reason}
-                                    </div>
-                                  ))}
-                                </div>
-                              )}
-                            </div>
-                          </div>
-                        </div>
-                      );
-                    })}
-                  </div>
-                </TabsContent>
-              </Tabs>
+              <LineAnalysisList analysis={analysis} />
             </CardContent>
           </Card>
         </div>
@@ -0,0 +1,100 @@
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { AlertTriangle, Brain, ChevronRight, User } from "lucide-react";
+import type { AnalysisResult, Verdict } from "@/lib/aiDetection";
+
+const UNIT_STYLES: Record<Verdict, { card: string; badge: string; text: string }> = {
+  ai: { card: "border-ai/30 bg-ai/5", badge: "border-ai text-ai", text: "text-ai" },
+  human: { card: "border-human/30 bg-human/5", badge: "border-human text-human", text: "text-human" },
+  uncertain: { card: "border-neutral/30 bg-neutral/5", badge: "border-neutral text-neutral", text: "text-neutral" },
+};
+
+function UnitIcon({ verdict }: { verdict: Verdict }) {
+  if (verdict === "ai") return <Brain className="w-4 h-4 text-ai" />;
+  if (verdict === "human") return <User className="w-4 h-4 text-human" />;
+  return <AlertTriangle className="w-4 h-4 text-neutral" />;
+}
+
+interface CodeUnitListProps {
+  analysis: AnalysisResult;
+  maxHeight?: string;
+}
+
+export function CodeUnitList({ analysis, maxHeight = "max-h-[600px]" }: CodeUnitListProps) {
+  if (analysis.codeUnits.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground py-6 text-center">
+        No functions, methods or classes were detected in this code
+      </p>
+    );
+  }
+
+  return (
+    <div className={`space-y-2 ${maxHeight} overflow-y-auto`}>
+      {analysis.codeUnits.map((unit) => (
+        <Collapsible
+          key={`${unit.kind}-${unit.startLine}-${unit.name}`}
+          className={`rounded-lg border ${UNIT_STYLES[unit.verdict].card}`}
+        >
+          <CollapsibleTrigger className="group flex w-full items-start gap-3 p-3 text-left hover:bg-muted/50">
+            <ChevronRight className="w-4 h-4 mt-0.5 shrink-0 transition-transform group-data-[state=open]:rotate-90" />
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <UnitIcon verdict={unit.verdict} />
+                <Badge variant="outline" className="text-xs capitalize">
+                  {unit.kind}
+                </Badge>
+                <span className="font-mono text-sm font-medium truncate">{unit.name}</span>
+                <span className="text-xs text-muted-foreground">
+                  Lines {unit.startLine}–{unit.endLine}
+                </span>
+                <Badge
+                  variant="outline"
+                  className={`${UNIT_STYLES[unit.verdict].badge} text-xs`}
+                >
+                  AI {Math.round(unit.aiScore * 100)}%
+                </Badge>
+                <span className="text-xs text-muted-foreground">
+                  {unit.aiLines}/{unit.totalLines} AI lines
+                  {unit.uncertainLines > 0 && `, ${unit.uncertainLines} uncertain`}
+                </span>
+                {unit.compression && (
+                  <Badge variant="outline" className="text-xs" title="Compression-distance detector">
+                    Compression {Math.round(unit.compression.aiProbability * 100)}% AI
+                  </Badge>
+                )}
+              </div>
+              {unit.reasons.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {unit.reasons.map((reason, idx) => (
+                    <span key={idx} className="text-xs text-muted-foreground bg-muted/30 px-2 py-1 rounded">
+                      {reason}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <div className="border-t border-code-border px-3 py-2 space-y-0.5">
+              {analysis.lineAnalysis.slice(unit.startLine - 1, unit.endLine).map((line, offset) => (
+                <div key={offset} className="flex gap-3">
+                  <span className="text-xs text-muted-foreground w-8 shrink-0">
+                    {unit.startLine + offset}
+                  </span>
+                  <pre
+                    className={`text-sm font-mono whitespace-pre-wrap break-all ${
+                      !line.content.trim() ? '' : UNIT_STYLES[line.verdict].text
+                    }`}
+                  >
+                    {line.content}
+                  </pre>
+                </div>
+              ))}
+            </div>
+          </CollapsibleContent>
+        </Collapsible>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertTriangle, Boxes, Brain, CheckCircle, HelpCircle, User } from "lucide-react";
+import { CodeUnitList } from "@/components/CodeUnitList";
+import type { AnalysisResult, LineAnalysis, LineReason, ReasonDirection, Verdict } from "@/lib/aiDetection";
+
+const VERDICT_STYLES: Record<Verdict, { row: string; badge: string }> = {
+  ai: { row: "border-ai/30 bg-ai/5", badge: "border-ai text-ai" },
+  human: { row: "border-human/30 bg-human/5", badge: "border-human text-human" },
+  uncertain: { row: "border-neutral/30 bg-neutral/5", badge: "border-neutral text-neutral" },
+};
+
+export function LineIndicator({ verdict }: { verdict: Verdict }) {
+  if (verdict === "ai") return <Brain className="w-4 h-4 text-ai" />;
+  if (verdict === "human") return <User className="w-4 h-4 text-human" />;
+  return <AlertTriangle className="w-4 h-4 text-neutral" />;
+}
+
+export function ConfidenceBadge({ confidence, verdict }: { confidence: number; verdict: Verdict }) {
+  return (
+    <Badge variant="outline" className={`${VERDICT_STYLES[verdict].badge} text-xs`}>
+      {Math.round(confidence * 100)}%
+    </Badge>
+  );
+}
+
+const DIRECTION_STYLES: Record<ReasonDirection, { mark: string; text: string }> = {
+  ai: { mark: "bg-ai/20", text: "text-ai" },
+  human: { mark: "bg-human/20", text: "text-human" },
+  neutral: { mark: "", text: "text-muted-foreground" },
+};
+
+function formatContribution(contribution: number) {
+  return `${contribution > 0 ? "+" : ""}${contribution.toFixed(2)}`;
+}
+
+// Splits the line at every span boundary so overlapping matches can share one highlight
+function highlightSegments(content: string, reasons: LineReason[]) {
+  const matched = reasons.filter((reason) => reason.span && reason.direction !== "neutral");
+  const cuts = new Set([0, content.length]);
+  for (const { span } of matched) {
+    cuts.add(Math.min(Math.max(span!.start, 0), content.length));
+    cuts.add(Math.min(Math.max(span!.end, 0), content.length));
+  }
+
+  const boundaries = [...cuts].sort((a, b) => a - b);
+  return boundaries.slice(0, -1).map((start, i) => {
+    const end = boundaries[i + 1];
+    const covering = matched.filter(({ span }) => span!.start <= start && span!.end >= end);
+    return { text: content.slice(start, end), covering };
+  });
+}
+
+function HighlightedContent({ line }: { line: LineAnalysis }) {
+  return (
+    <pre className="text-sm font-mono overflow-x-auto whitespace-pre-wrap break-all">
+      {highlightSegments(line.content, line.reasons).map(({ text, covering }, idx) => {
+        if (covering.length === 0) return <span key={idx}>{text}</span>;
+        const direction = covering.some((reason) => reason.direction === "ai") ? "ai" : "human";
+        return (
+          <mark
+            key={idx}
+            title={covering.map((reason) => reason.ruleId).join(", ")}
+            className={`${DIRECTION_STYLES[direction].mark} text-foreground rounded-sm`}
+          >
+            {text}
+          </mark>
+        );
+      })}
+    </pre>
+  );
+}
+
+function ScoreBreakdownBadge({ line }: { line: LineAnalysis }) {
+  const { score } = line;
+  const weighted = line.reasons.filter((reason) => reason.contribution !== 0);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button" className="rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-ring">
+          <ConfidenceBadge confidence={line.confidence} verdict={line.verdict} />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3 text-xs">
+        <div className="font-medium text-sm">Score breakdown</div>
+        {weighted.length > 0 ? (
+          <div className="space-y-1">
+            {weighted.map((reason, idx) => (
+              <div key={idx} className="flex items-center justify-between gap-3">
+                <span className="font-mono truncate">{reason.ruleId}</span>
+                <span className={`font-mono ${DIRECTION_STYLES[reason.direction].text}`}>
+                  {formatContribution(reason.contribution)}
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-muted-foreground">No weighted signals on this line</p>
+        )}
+        <div className="border-t pt-2 space-y-1">
+          <div className="flex justify-between">
+            <span>AI weight</span>
+            <span className="font-mono text-ai">{score.aiWeight.toFixed(2)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Human weight</span>
+            <span className="font-mono text-human">{score.humanWeight.toFixed(2)}</span>
+          </div>
+          {score.method === "model" && (
+            <div className="flex justify-between">
+              <span>Model bias</span>
+              <span className="font-mono">{formatContribution(score.bias)}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span>{score.method === "model" ? "Calibrated probability" : "Weight ratio"}</span>
+            <span className="font-mono">{Math.round(score.baseProbability * 100)}% AI</span>
+          </div>
+          {line.detectors.map((vote) => (
+            <div key={vote.detectorId} className="flex justify-between">
+              <span className="capitalize">{vote.detectorId} detector</span>
+              <span className="font-mono">
+                {Math.round(vote.aiProbability * 100)}% AI ({formatContribution(vote.contribution)})
+              </span>
+            </div>
+          ))}
+          <div className="flex justify-between font-medium">
+            <span>Final</span>
+            <span className="font-mono">{Math.round(line.aiProbability * 100)}% AI</span>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function LineRow({ line, lineNumber }: { line: LineAnalysis; lineNumber: number }) {
+  return (
+    <div className={`p-3 rounded-lg border transition-all hover:bg-muted/50 ${VERDICT_STYLES[line.verdict].row}`}>
+      <div className="flex items-start gap-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="text-xs text-muted-foreground w-8">
+            {lineNumber}
+          </span>
+          <LineIndicator verdict={line.verdict} />
+          <ScoreBreakdownBadge line={line} />
+          {line.attribution.map((candidate) => (
+            <Badge
+              key={candidate.tool}
+              variant="outline"
+              className="text-xs whitespace-nowrap"
+              title={candidate.evidence.map((entry) => entry.reason).join("\n")}
+            >
+              {candidate.name}
+            </Badge>
+          ))}
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <HighlightedContent line={line} />
+
+          {line.reasons.length > 0 && (
+            <div className="mt-2 space-y-1">
+              {line.reasons.map((reason, idx) => (
+                <div
+                  key={idx}
+                  className="flex items-center gap-2 text-xs text-muted-foreground bg-muted/30 px-2 py-1 rounded"
+                >
+                  {reason.contribution !== 0 && (
+                    <span className={`font-mono ${DIRECTION_STYLES[reason.direction].text}`}>
+                      {formatContribution(reason.contribution)}
+                    </span>
+                  )}
+                  <span>{reason.message}</span>
+                  <span className="ml-auto font-mono opacity-70">{reason.ruleId}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function LineRows({ analysis, verdict, maxHeight }: { analysis: AnalysisResult; verdict?: Verdict; maxHeight: string }) {
+  // Empty lines carry no verdict worth filtering on, so they only appear under "All"
+  const rows = analysis.lineAnalysis
+    .map((line, index) => ({ line, index }))
+    .filter(({ line }) => !verdict || (line.verdict === verdict && line.content.trim()));
+
+  return (
+    <div className={`space-y-2 ${maxHeight} overflow-y-auto`}>
+      {rows.map(({ line, index }) => (
+        <LineRow key={index} line={line} lineNumber={index + 1} />
+      ))}
+    </div>
+  );
+}
+
+interface LineAnalysisListProps {
+  analysis: AnalysisResult;
+  maxHeight?: string;
+}
+
+export function LineAnalysisList({ analysis, maxHeight = "max-h-[600px]" }: LineAnalysisListProps) {
+  return (
+    <Tabs defaultValue="all" className="w-full">
+      <TabsList className="grid w-full grid-cols-5">
+        <TabsTrigger value="all" className="flex items-center gap-2">
+          <CheckCircle className="w-4 h-4" />
+          All Lines ({analysis.totalLines})
+        </TabsTrigger>
+        <TabsTrigger value="ai" className="flex items-center gap-2">
+          <Brain className="w-4 h-4" />
+          AI Only ({analysis.aiLines})
+        </TabsTrigger>
+        <TabsTrigger value="human" className="flex items-center gap-2">
+          <User className="w-4 h-4" />
+          Human Only ({analysis.humanLines})
+        </TabsTrigger>
+        <TabsTrigger value="uncertain" className="flex items-center gap-2">
+          <HelpCircle className="w-4 h-4" />
+          Uncertain ({analysis.uncertainLines})
+        </TabsTrigger>
+        <TabsTrigger value="units" className="flex items-center gap-2">
+          <Boxes className="w-4 h-4" />
+          Units ({analysis.codeUnits.length})
+        </TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="all" className="mt-4">
+        <LineRows analysis={analysis} maxHeight={maxHeight} />
+      </TabsContent>
+
+      <TabsContent value="ai" className="mt-4">
+        <LineRows analysis={analysis} verdict="ai" maxHeight={maxHeight} />
+      </TabsContent>
+
+      <TabsContent value="human" className="mt-4">
+        <LineRows analysis={analysis} verdict="human" maxHeight={maxHeight} />
+      </TabsContent>
+
+      <TabsContent value="uncertain" className="mt-4">
+        <LineRows analysis={analysis} verdict="uncertain" maxHeight={maxHeight} />
+      </TabsContent>
+
+      <TabsContent value="units" className="mt-4">
+        <CodeUnitList analysis={analysis} maxHeight={maxHeight} />
+      </TabsContent>
+    </Tabs>
+  );
+}
@@ -0,0 +1,66 @@
+import { Button } from "@/components/ui/button";
+import { Download } from "lucide-react";
+import { STYLOMETRY_FEATURES, stylometryToCsv, stylometryToJsonl } from "@/lib/aiDetection";
+import type { StylometryRecord } from "@/lib/aiDetection";
+
+interface StylometryPanelProps {
+  records: StylometryRecord[];
+  // Download name without extension
+  fileName: string;
+}
+
+function download(content: string, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function formatFeature(value: string | number | null): string {
+  if (value === null) return "–";
+  if (typeof value === "string" || Number.isInteger(value)) return String(value);
+  return value.toFixed(3);
+}
+
+export function StylometryPanel({ records, fileName }: StylometryPanelProps) {
+  return (
+    <div className="space-y-3">
+      {records.length === 1 ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1">
+          {STYLOMETRY_FEATURES.map((feature) => (
+            <div key={feature} className="flex justify-between text-xs">
+              <span className="text-muted-foreground">{feature}</span>
+              <span className="font-mono">{formatFeature(records[0].features[feature])}</span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          {records.length} files, {STYLOMETRY_FEATURES.length} features each
+        </p>
+      )}
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-2"
+          onClick={() => download(stylometryToCsv(records), `${fileName}.csv`, "text/csv")}
+        >
+          <Download className="w-4 h-4" />
+          CSV
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-2"
+          onClick={() => download(stylometryToJsonl(records), `${fileName}.jsonl`, "application/x-ndjson")}
+        >
+          <Download className="w-4 h-4" />
+          JSONL
+        </Button>
+      </div>
+    </div>
+  );
+}
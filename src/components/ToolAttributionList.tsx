@@ -0,0 +1,43 @@
+import { Progress } from "@/components/ui/progress";
+import type { ToolCandidate, ToolEvidence } from "@/lib/aiDetection";
+
+interface ToolAttributionListProps {
+  candidates: ToolCandidate[];
+}
+
+function evidenceLocation(entry: ToolEvidence): string {
+  const parts = [entry.path, entry.line !== undefined ? `line ${entry.line}` : undefined].filter(Boolean);
+  return parts.join(", ");
+}
+
+export function ToolAttributionList({ candidates }: ToolAttributionListProps) {
+  if (candidates.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No assistant-specific signatures found
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {candidates.map((candidate) => (
+        <div key={candidate.tool} className="space-y-1">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="w-32 font-medium">{candidate.name}</span>
+            <Progress value={candidate.share * 100} className="h-1.5 flex-1" />
+            <span className="w-12 text-right font-mono text-xs">{Math.round(candidate.share * 100)}%</span>
+          </div>
+          <div className="space-y-0.5 pl-2">
+            {candidate.evidence.map((entry, idx) => (
+              <div key={idx} className="flex gap-2 text-xs text-muted-foreground">
+                <span>{entry.reason}</span>
+                {evidenceLocation(entry) && <span className="ml-auto font-mono opacity-70">{evidenceLocation(entry)}</span>}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,209 +1,194 @@
+import { attributeLines, rankTools, resolveSignatures } from './attribution';
+import type { AttributionOptions, ToolCandidate } from './attribution';
+import { applyCalibration, rawScore } from './calibration';
+import type { DetectionModel, FeatureVector } from './calibration';
+import { detectCodeUnits, scoreCodeUnits } from './codeUnits';
+import { analyzeCommentProse } from './commentProse';
+import type { CommentProseScore } from './commentProse';
+import { analyzeDocCompleteness } from './docCompleteness';
+import type { DocCompletenessScore } from './docCompleteness';
+import type { CodeUnitRange } from './codeUnits';
+import { compressionScore } from './compression';
+import type { CompressionScore } from './compression';
+import type { CodeUnit } from './codeUnits';
+import { combineDetectors, resolveDetectors } from './detectors';
+import type { CombinedLine, Detector, DetectorContribution, DetectorInput, DetectorLineScore, DetectorReport } from './detectors';
+import { maskLine, tokenizeLines } from './lexer';
+import type { TokenSpan } from './lexer';
+import { sigmoid } from './math';
+import { createOnnxDetector } from './onnxClassifier';
+import type { OnnxModelConfig } from './onnxClassifier';
+import { DEFAULT_PROFILE, resolveProfile, verdictFor } from './profiles';
+import type { ProfileName, SensitivityProfile } from './profiles';
+import { fileLogLikelihoodRatio, getLikelihoodScorer, lineLogLikelihoodRatio } from './ngram';
+import type { LineLikelihood } from './ngram';
+import { REFERENCE_CORPUS } from './referenceCorpus';
+import type { ReferenceCorpus } from './referenceCorpus';
+import { findBlockMatches } from './regions';
+import type { BlockMatch } from './regions';
+import { resolveRules, ruleSetIds } from './rules';
+import { segmentLines } from './segmentation';
+import { extractStylometry } from './stylometry';
+import type { StylometryFeatures } from './stylometry';
+import type { AuthorshipSegment, Segmentation, SegmentationOptions } from './segmentation';
+import type { DetectionPattern, RuleSetOptions } from './rules';
+
+export { BUILTIN_RULES, GENERIC_RULES, JVM_RULES, LANGUAGE_RULES, PYTHON_RULES, REACT_RULES, resolveRules, SCRIPTING_RULES, SYSTEMS_RULES } from './rules';
+export type { DetectionPattern, RuleOverride, RuleScope, RuleSetOptions } from './rules';
+export type { BlockMatch } from './regions';
+export { attributeRepository, rankTools, REPOSITORY_SIGNATURES, TOOL_NAMES, TOOL_SIGNATURES } from './attribution';
+export type { AttributionOptions, CommitInfo, RepositorySignature, ToolCandidate, ToolEvidence, ToolId, ToolSignature } from './attribution';
+export type { CodeUnit, CodeUnitKind } from './codeUnits';
+export type { CompressionScore } from './compression';
+export { analyzeCommentProse, extractComments } from './commentProse';
+export type { CommentKind, CommentProseBlock, CommentProseFeatures, CommentProseScore } from './commentProse';
+export { analyzeDocCompleteness } from './docCompleteness';
+export type { DocCompletenessScore, DocReason, DocStyle, FunctionDocumentation } from './docCompleteness';
+export { combineDetectors, resolveDetectors } from './detectors';
+export type { CombineOptions, Detector, DetectorContribution, DetectorInput, DetectorLineScore, DetectorOutput, DetectorReport } from './detectors';
+export { parseDetectionModel } from './calibration';
+export type { CalibrationCurve, DetectionModel, FeatureVector } from './calibration';
+export type { SpanKind, TokenSpan } from './lexer';
+export { detectLanguage, LANGUAGE_DETECTION_THRESHOLD } from './languageDetection';
+export type { LanguageDetection, LanguageGuess } from './languageDetection';
+export { getLanguageFromPath, LANGUAGE_MAP, LANGUAGES } from './languages';
+export type { CommentSyntax, LanguageDefinition } from './languages';
+export { createOnnxDetector, encodeChunk } from './onnxClassifier';
+export type { OnnxModelConfig } from './onnxClassifier';
+export { createCustomProfile, DEFAULT_PROFILE, getAIUsageLevel, resolveProfile, SENSITIVITY_PROFILES } from './profiles';
+export type { ProfileName, SensitivityProfile, UsageLevel, UsageLevelId } from './profiles';
+export { DEFAULT_SEGMENTATION } from './segmentation';
+export { REFERENCE_CORPUS } from './referenceCorpus';
+export type { ReferenceCorpus, ReferenceSnippet } from './referenceCorpus';
+export type { AuthorshipSegment, SegmentationOptions, SegmentLabel } from './segmentation';
+export { extractStylometry, STYLOMETRY_FEATURES, stylometryToCsv, stylometryToJsonl } from './stylometry';
+export type { NamingConvention, StylometryFeatures, StylometryRecord } from './stylometry';
+
+export type Verdict = 'ai' | 'human' | 'uncertain';
+
+export type ReasonDirection = 'ai' | 'human' | 'neutral';
+
+// Character range within LineAnalysis.content; end is exclusive
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+export interface LineReason {
+  // Rule or heuristic id; `context.*` for smoothing adjustments and `neutral.*` for notes
+  ruleId: string;
+  direction: ReasonDirection;
+  // Signed weight added to the line score (positive points to AI); 0 for reasons that adjust nothing
+  contribution: number;
+  message: string;
+  // The matched text, when the reason points at part of the line rather than the whole of it
+  span?: TextSpan;
+}
+
+export interface ScoreBreakdown {
+  // 'ratio' compares AI and human rule weights; 'model' sums trained log-odds weights before calibration
+  method: 'ratio' | 'model';
+  aiWeight: number;
+  humanWeight: number;
+  // Model bias; 0 in ratio mode
+  bias: number;
+  // AI probability from the weights alone, before clamping, structure nudges and contextual smoothing
+  baseProbability: number;
+}
+
 export interface LineAnalysis {
   content: string;
+  verdict: Verdict;
+  // Shorthand for `verdict === 'ai'`
   isAI: boolean;
+  // Likelihood that the line is AI-written (0 = human, 1 = AI)
+  aiProbability: number;
+  // Confidence in the leaning direction: max(aiProbability, 1 - aiProbability)
   confidence: number;
-  reasons: string[];
+  reasons: LineReason[];
+  score: ScoreBreakdown;
+  // Each detector's vote on this line before smoothing
+  detectors: DetectorContribution[];
+  // Assistants whose signatures matched this line, most likely first
+  attribution: ToolCandidate[];
 }
 
 export interface AnalysisResult {
   totalLines: number;
   aiLines: number;
   humanLines: number;
+  // Lines with no signal or an AI probability inside the uncertainty band
+  uncertainLines: number;
   aiPercentage: number;
   humanPercentage: number;
+  uncertainPercentage: number;
   overallConfidence: number;
   lineAnalysis: LineAnalysis[];
+  // Functions, methods and classes with verdicts aggregated from their lines
+  codeUnits: CodeUnit[];
+  // Contiguous runs of AI- or human-authored lines from the segmentation model
+  segments: AuthorshipSegment[];
+  // Token n-gram log-likelihood ratios against the reference corpus; null when disabled
+  likelihood: LikelihoodReport | null;
+  // Rule-free compression-distance verdict for the whole file; null when disabled, unsupported or too short
+  compression: CompressionScore | null;
+  // Combined file-level vote and how much each detector contributed
+  ensemble: {
+    fileProbability: number | null;
+    detectors: DetectorReport[];
+  };
+  // Named style measurements of the file, for inspection and export
+  stylometry: StylometryFeatures;
+  // Assistants ranked by the tool signatures found in the file; empty when none matched
+  attribution: ToolCandidate[];
+  // How AI-like the English of the comments and docstrings reads; null when disabled or there is no prose
+  commentProse: CommentProseScore | null;
+  // Doc-comment coverage and template uniformity across functions; null when disabled or there are no functions
+  docCompleteness: DocCompletenessScore | null;
 }
 
-interface DetectionPattern {
-  pattern: RegExp;
-  weight: number;
-  reason: string;
-  aiIndicator: boolean;
+export interface LikelihoodReport {
+  // Per-token log P(AI model) - log P(human model) in nats; positive points to AI
+  fileRatio: number;
+  // Same ratio per line; null for lines without tokens
+  lineRatios: (number | null)[];
 }
 
-// AI detection patterns based on real AI vs human coding characteristics
-const AI_PATTERNS: DetectionPattern[] = [
-  // ChatGPT signature: Sectioned comments with dashes
-  {
-    pattern: /\/\/\s*---\s*.*\s*---\s*$/gm,
-    weight: 0.9,
-    reason: "Section-based comments with dashes — signature of AI structure",
-    aiIndicator: true
-  },
-  
-  // ChatGPT signature: Perfect formatting comment
-  {
-    pattern: /\/\/\s*Generated with.*ChatGPT|\/\/.*AI Code Style Guide/gi,
-    weight: 1.0,
-    reason: "Explicit AI generation comment",
-    aiIndicator: true
-  },
-  
-  // Step-by-step comments (very common in AI code)
-  {
-    pattern: /\/\/\s*Step\s*\d+:|\/\/\s*\d+\./gi,
-    weight: 0.8,
-    reason: "Contains step-by-step comments typical of AI explanations",
-    aiIndicator: true
-  },
-  
-  // Overly descriptive comments explaining obvious code
-  {
-    pattern: /\/\/\s*(Get|Parse|Check|Validate|Perform|Display|Calculate|Initialize|Handle|Process).*$/gm,
-    weight: 0.6,
-    reason: "Contains verbose explanatory comments typical of AI generation",
-    aiIndicator: true
-  },
-  
-  // Generic error messages with examples
-  {
-    pattern: /(Usage:|Example:|Error:).*$/gm,
-    weight: 0.7,
-    reason: "Contains structured error messages with examples",
-    aiIndicator: true
-  },
-  
-  // ChatGPT signature: try/catch in CLI/sync contexts  
-  {
-    pattern: /try\s*{[\s\S]*?catch\s*\([^)]*\)\s*{[\s\S]*?(console\.(error|log)|process\.exit)/g,
-    weight: 0.6,
-    reason: "try/catch with console output in CLI context — typical ChatGPT pattern",
-    aiIndicator: true
-  },
-
-  // Perfect input validation patterns (enhanced)
-  {
-    pattern: /(process\.exit\(1\)|isNaN\(|\.length\s*[!=]=|args\.length|Missing\s+(argument|parameter))/g,
-    weight: 0.7,
-    reason: "Contains comprehensive input validation typical of AI first-draft code",
-    aiIndicator: true
-  },
-
-  // ChatGPT signature: Polite error handling with usage examples
-  {
-    pattern: /(Usage:\s*|Example:\s*|Please\s+(provide|ensure|check))/gi,
-    weight: 0.8,
-    reason: "Polite, structured error messages with usage examples",
-    aiIndicator: true
-  },
-  
-  // Overly descriptive variable names
-  {
-    pattern: /\b(commandLineArguments|userInput|calculationResult|operatorSymbol)\b/gi,
-    weight: 0.6,
-    reason: "Uses overly descriptive variable names",
-    aiIndicator: true
-  },
-  
-  // Perfect switch/case structure with all cases
-  {
-    pattern: /switch\s*\([^)]+\)\s*{[\s\S]*default:\s*[\s\S]*}/g,
-    weight: 0.4,
-    reason: "Contains comprehensive switch statement with default case",
-    aiIndicator: true
-  },
-  
-  // AI-style shebang and perfect formatting
-  {
-    pattern: /^#!/,
-    weight: 0.3,
-    reason: "Includes shebang line typical of AI-generated scripts",
-    aiIndicator: true
-  },
-  
-  // Human indicators
-  
-  // Debug console logs left in code
-  {
-    pattern: /console\.log\((?!.*Result:|.*Error:|.*Usage:)/g,
-    weight: 0.6,
-    reason: "Contains debug console.log statements",
-    aiIndicator: false
-  },
-  
-  // TODO/FIXME comments (humans leave these)
-  {
-    pattern: /(TODO|FIXME|HACK|XXX):/gi,
-    weight: 0.7,
-    reason: "Contains TODO/FIXME comments indicating human planning",
-    aiIndicator: false
-  },
-  
-  // Terse or minimal comments
-  {
-    pattern: /\/\/\s*[a-z][^.]*$/gm,
-    weight: 0.3,
-    reason: "Contains short, terse comments typical of human code",
-    aiIndicator: false
-  },
-  
-  // Abbreviated variable names
-  {
-    pattern: /\b(btn|txt|img|nav|auth|cfg|opts|params|ctx|req|res|db|api|temp|tmp|val|str|num|arr|obj)\b/gi,
-    weight: 0.4,
-    reason: "Uses abbreviated variable names common in human code",
-    aiIndicator: false
-  },
-  
-  // Inconsistent spacing or formatting
-  {
-    pattern: /\s{3,}(?!\s*\/\/)|[;}]\s*[;}]|\t\s+|\s+\t/g,
-    weight: 0.5,
-    reason: "Has inconsistent spacing typical of human editing",
-    aiIndicator: false
-  },
-  
-  // Quick and dirty solutions (missing error handling)
-  {
-    pattern: /\[[^\]]*\]\.map\(|\.filter\(|\.reduce\(/g,
-    weight: 0.2,
-    reason: "Uses functional programming without extensive validation",
-    aiIndicator: false
-  }
-];
-
-// Language-specific patterns
-const LANGUAGE_PATTERNS: Record<string, DetectionPattern[]> = {
-  javascript: [
-    {
-      pattern: /console\.log\([^)]*\)/g,
-      weight: 0.2,
-      reason: "Contains debug console.log statements",
-      aiIndicator: false
-    },
-    {
-      pattern: /function\s+\w+\s*\([^)]*\)\s*{/g,
-      weight: 0.1,
-      reason: "Uses function declarations",
-      aiIndicator: true
-    }
-  ],
-  python: [
-    {
-      pattern: /print\([^)]*\)/g,
-      weight: 0.2,
-      reason: "Contains debug print statements",
-      aiIndicator: false
-    },
-    {
-      pattern: /def\s+\w+\s*\([^)]*\):/g,
-      weight: 0.1,
-      reason: "Uses function definitions",
-      aiIndicator: true
-    }
-  ],
-  typescript: [
-    {
-      pattern: /:\s*(string|number|boolean|any|unknown|void|never)\b/g,
-      weight: 0.2,
-      reason: "Contains explicit type annotations",
-      aiIndicator: true
-    }
-  ]
-};
+// Per-call configuration; rule options select, extend and re-weight the rule registry
+export interface AnalysisOptions extends RuleSetOptions, AttributionOptions {
+  // Adds the UI's artificial processing delay; batch callers such as the evaluation runner turn it off
+  simulateLatency?: boolean;
+  // Trained rule weights and calibration (see scripts/train.ts); confidences become calibrated probabilities
+  model?: DetectionModel;
+  // Named sensitivity profile or a custom one (see createCustomProfile); defaults to 'balanced'
+  profile?: Exclude<ProfileName, 'custom'> | SensitivityProfile;
+  // Lines whose AI probability lies within this distance of 0.5 are reported as uncertain; overrides the profile
+  uncertaintyBand?: number;
+  // Replace line probabilities with sequence-smoothed posteriors; defaults to on without a model, off with one
+  smoothing?: boolean;
+  // Transition costs for the segmentation model; overrides the profile's smoothing
+  segmentation?: SegmentationOptions;
+  // Score lines against token n-gram models of the reference corpus (default true)
+  perplexity?: boolean;
+  // Score the file and each code unit by compression distance to the reference corpus (default true)
+  compression?: boolean;
+  // Score the prose of comments and docstrings separately from the code (default true)
+  commentProse?: boolean;
+  // Measure how completely and uniformly functions are documented; votes as the 'documentation' detector (default true)
+  docCompleteness?: boolean;
+  // AI- and human-written snippets the statistical detectors compare against
+  referenceCorpus?: ReferenceCorpus;
+  // Extra detectors voting next to the built-in rules, structure, perplexity and compression detectors
+  detectors?: Detector[];
+  // Voting weight per detector id; 0 disables a detector
+  detectorWeights?: Record<string, number>;
+  // Local ONNX classifier run on CPU as an extra detector with id 'onnx'
+  onnxModel?: OnnxModelConfig;
+}
+
+export const DEFAULT_UNCERTAINTY_BAND = DEFAULT_PROFILE.uncertaintyBand;
 
-function analyzeCodeStructure(code: string): number {
+function analyzeCodeStructure(code: string, lineSpans: TokenSpan[][]): number {
   // Analyze overall code structure for AI patterns
   let aiScore = 0;
   
@@ -254,8 +239,8 @@ function analyzeCodeStructure(code: string): number {
   }
   
   // Check for overly comprehensive documentation
-  const commentLines = code.match(/\/\*[\s\S]*?\*\/|\/\/.*$/gm) || [];
-  const commentRatio = commentLines.length / lines.length;
+  const commentLines = lineSpans.filter(spans => spans.some(span => span.kind === 'comment')).length;
+  const commentRatio = commentLines / lines.length;
   if (commentRatio > 0.3) {
     aiScore += 0.2;
   }
@@ -277,211 +262,504 @@ function analyzeCodeStructure(code: string): number {
   return Math.min(aiScore, 1);
 }
 
-function analyzeLine(line: string, lineNumber: number, language: string): LineAnalysis {
+function matchPattern(pattern: RegExp, text: string): RegExpExecArray | null {
+  // Global patterns are shared between calls, so never resume from a previous lastIndex
+  pattern.lastIndex = 0;
+  const match = pattern.exec(text);
+  pattern.lastIndex = 0;
+  return match;
+}
+
+// A rule or heuristic that fired on a line
+interface LineSignal {
+  id: string;
+  weight: number;
+  aiIndicator: boolean;
+  reason: string;
+  span?: TextSpan;
+}
+
+const STRUCTURE_FEATURE_ID = 'structure.file-score';
+
+function collectLineSignals(
+  line: string,
+  lineIndex: number,
+  rules: DetectionPattern[],
+  spans: TokenSpan[],
+  blockMatches: BlockMatch[]
+): LineSignal[] {
   const content = line.trim();
-  let aiScore = 0;
-  let humanScore = 0;
-  const reasons: string[] = [];
-  
-  // Skip empty lines
-  if (!content) {
-    return {
-      content: line,
-      isAI: false,
-      confidence: 0.5,
-      reasons: ["Empty line - neutral"]
-    };
-  }
+  const signals: LineSignal[] = [];
+  if (!content) return signals;
+  
+  // Test each pattern only against the span kinds it declares, trimmed like the content
+  const offset = line.length - line.trimStart().length;
+  const maskedViews = new Map<string, string>();
+  const viewFor = (pattern: DetectionPattern): string => {
+    if (!pattern.appliesTo) return content;
+    const key = pattern.appliesTo.join(',');
+    if (!maskedViews.has(key)) {
+      maskedViews.set(key, maskLine(line, spans, pattern.appliesTo).slice(offset, offset + content.length));
+    }
+    return maskedViews.get(key)!;
+  };
   
-  // Apply general patterns
-  for (const pattern of AI_PATTERNS) {
-    if (pattern.pattern.test(content)) {
-      if (pattern.aiIndicator) {
-        aiScore += pattern.weight;
-      } else {
-        humanScore += pattern.weight;
-      }
-      reasons.push(pattern.reason);
+  // Views are trimmed, so shift match positions back onto the original line
+  const spanOf = (match: RegExpExecArray): TextSpan => ({
+    start: offset + match.index,
+    end: offset + match.index + match[0].length
+  });
+  
+  // Apply general and language-specific patterns
+  for (const pattern of rules) {
+    if (pattern.scope === 'block') continue;
+    const match = matchPattern(pattern.pattern, viewFor(pattern));
+    if (match) {
+      signals.push({ ...pattern, span: spanOf(match) });
     }
   }
   
-  // Apply language-specific patterns
-  const langPatterns = LANGUAGE_PATTERNS[language] || [];
-  for (const pattern of langPatterns) {
-    if (pattern.pattern.test(content)) {
-      if (pattern.aiIndicator) {
-        aiScore += pattern.weight;
-      } else {
-        humanScore += pattern.weight;
+  // Apply multi-line patterns whose match covers this line
+  for (const { rule, startLine, endLine, startColumn, endColumn } of blockMatches) {
+    signals.push({
+      ...rule,
+      span: {
+        start: lineIndex === startLine ? startColumn : offset,
+        end: lineIndex === endLine ? endColumn : offset + content.length
       }
-      reasons.push(pattern.reason);
-    }
+    });
   }
   
   // Additional heuristics
   
   // Line length analysis
   if (content.length > 120) {
-    aiScore += 0.2;
-    reasons.push("Very long line length typical of AI generation");
+    signals.push({ id: "heuristic.long-line", weight: 0.2, aiIndicator: true, reason: "Very long line length typical of AI generation" });
   } else if (content.length < 20 && !content.match(/[{}();,]/)) {
-    humanScore += 0.1;
-    reasons.push("Short, concise line suggests human writing");
+    signals.push({ id: "heuristic.short-line", weight: 0.1, aiIndicator: false, reason: "Short, concise line suggests human writing" });
   }
   
   // Check for perfect syntax
   const hasPerfectSyntax = !content.match(/[^\w\s\(\)\[\]{};:,.<>!@#$%^&*+=|\\?/-]/);
   if (hasPerfectSyntax && content.length > 30) {
-    aiScore += 0.1;
-    reasons.push("Perfect syntax and structure");
+    signals.push({ id: "heuristic.perfect-syntax", weight: 0.1, aiIndicator: true, reason: "Perfect syntax and structure" });
   }
   
   // Check for creative/quirky naming
-  if (content.match(/\b(foo|bar|baz|qux|quirky|magic|hack|wtf)\b/i)) {
-    humanScore += 0.3;
-    reasons.push("Uses creative or placeholder naming typical of humans");
+  const placeholder = matchPattern(/\b(foo|bar|baz|qux|quirky|magic|hack|wtf)\b/i, content);
+  if (placeholder) {
+    signals.push({ id: "heuristic.placeholder-naming", weight: 0.3, aiIndicator: false, reason: "Uses creative or placeholder naming typical of humans", span: spanOf(placeholder) });
   }
   
-  // Calculate final scores
-  const totalScore = aiScore + humanScore;
-  let confidence = totalScore > 0 ? Math.max(aiScore, humanScore) / totalScore : 0.5;
-  confidence = Math.min(Math.max(confidence, 0.1), 0.95); // Clamp between 10% and 95%
-  
-  const isAI = aiScore > humanScore;
-  
-  if (reasons.length === 0) {
-    reasons.push("No significant patterns detected - neutral classification");
+  return signals;
+}
+
+function signalFeatures(signals: LineSignal[], structureScore: number): FeatureVector {
+  const features: FeatureVector = { [STRUCTURE_FEATURE_ID]: structureScore };
+  for (const signal of signals) {
+    features[signal.id] = (features[signal.id] || 0) + 1;
   }
-  
+  return features;
+}
+
+function signedWeight(signal: LineSignal): number {
+  return signal.aiIndicator ? signal.weight : -signal.weight;
+}
+
+function directionOf(contribution: number): ReasonDirection {
+  return contribution > 0 ? 'ai' : contribution < 0 ? 'human' : 'neutral';
+}
+
+function reasonFor(signal: LineSignal, contribution: number): LineReason {
   return {
-    content: line,
-    isAI,
-    confidence,
-    reasons
+    ruleId: signal.id,
+    direction: directionOf(contribution),
+    contribution,
+    message: signal.reason,
+    ...(signal.span ? { span: signal.span } : {})
   };
 }
 
-function isCreativeHumanCode(line: string): boolean {
-  const content = line.trim();
-  
-  // Check for clear human creativity indicators
-  const creativePatterns = [
-    /(TODO|FIXME|HACK|XXX|NOTE):/gi,
-    /\b(foo|bar|baz|qux|quirky|magic|hack|wtf|temp|tmp)\b/i,
-    /console\.log\((?!.*Result:|.*Error:|.*Usage:)/,
-    /\/\/\s*(FIXME|TODO|HACK|NOTE)/i,
-    /\/\/\s*[a-z][^.A-Z]*$/,  // Short, casual comments without proper capitalization
-    /\?\?\?|\!\!\!|\.\.\.$/,  // Casual punctuation
-    /\/\/\s*(lol|wtf|omg|meh|ugh)/i  // Casual expressions
-  ];
-  
-  return creativePatterns.some(pattern => pattern.test(content));
+function sumContributions(reasons: LineReason[], direction: ReasonDirection): number {
+  return reasons
+    .filter(reason => reason.direction === direction)
+    .reduce((sum, reason) => sum + Math.abs(reason.contribution), 0);
 }
 
-function applyContextualAnalysis(lineAnalysis: LineAnalysis[]): void {
-  // Apply sandwiching rule: if a line is between AI lines, mark it as AI unless it's clearly creative human code
-  for (let i = 1; i < lineAnalysis.length - 1; i++) {
-    const currentLine = lineAnalysis[i];
-    const prevLine = lineAnalysis[i - 1];
-    const nextLine = lineAnalysis[i + 1];
+// Rule-weight score for a non-empty line that has at least one signal
+function scoreLine(signals: LineSignal[], structureScore: number, profile: SensitivityProfile, model?: DetectionModel): DetectorLineScore {
+  let reasons: LineReason[];
+  let score: ScoreBreakdown;
+  let aiProbability: number;
+  
+  if (model) {
+    // Trained weights plus calibration yield a real probability, so no clamping or structure nudge
+    const fallbackWeights = Object.fromEntries(signals.map(signal => [signal.id, signedWeight(signal)]));
+    reasons = signals.map(signal => reasonFor(signal, model.weights[signal.id] ?? fallbackWeights[signal.id]));
+    const structureContribution = (model.weights[STRUCTURE_FEATURE_ID] ?? 0) * structureScore;
+    if (structureContribution !== 0) {
+      reasons.push({
+        ruleId: STRUCTURE_FEATURE_ID,
+        direction: directionOf(structureContribution),
+        contribution: structureContribution,
+        message: "File-level structure score"
+      });
+    }
     
-    // Skip empty lines
-    if (!currentLine.content.trim()) continue;
+    aiProbability = applyCalibration(model.calibration, rawScore(model, signalFeatures(signals, structureScore), fallbackWeights));
+    score = {
+      method: 'model',
+      aiWeight: sumContributions(reasons, 'ai'),
+      humanWeight: sumContributions(reasons, 'human'),
+      bias: model.bias,
+      baseProbability: aiProbability
+    };
+  } else {
+    // The profile scales the hand-set weights; trained weights above are used as they are
+    reasons = signals.map(signal => reasonFor(
+      signal,
+      signedWeight(signal) * (signal.aiIndicator ? profile.aiWeightScale : profile.humanWeightScale)
+    ));
+    const aiScore = sumContributions(reasons, 'ai');
+    const humanScore = sumContributions(reasons, 'human');
     
-    // If current line is human but surrounded by AI lines
-    if (!currentLine.isAI && prevLine.isAI && nextLine.isAI) {
-      // Check if it's genuinely creative human code
-      if (!isCreativeHumanCode(currentLine.content)) {
-        currentLine.isAI = true;
-        currentLine.confidence = Math.max(currentLine.confidence, 0.7);
-        currentLine.reasons.push("Line sandwiched between AI-generated code blocks");
-      }
+    // Calculate final scores
+    const totalScore = aiScore + humanScore;
+    score = {
+      method: 'ratio',
+      aiWeight: aiScore,
+      humanWeight: humanScore,
+      bias: 0,
+      baseProbability: totalScore > 0 ? aiScore / totalScore : 0.5
+    };
+    let confidence = totalScore > 0 ? Math.max(aiScore, humanScore) / totalScore : 0.5;
+    confidence = Math.min(Math.max(confidence, profile.clamp.min), profile.clamp.max);
+    
+    const leansAI = aiScore > humanScore;
+    
+    // Adjust confidence based on overall structure
+    if (structureScore > 0.5 && leansAI) {
+      confidence = Math.min(confidence + 0.1, profile.clamp.max);
     }
+    
+    aiProbability = leansAI ? confidence : 1 - confidence;
   }
   
-  // Apply block analysis: look for consecutive AI patterns
-  let consecutiveAICount = 0;
-  for (let i = 0; i < lineAnalysis.length; i++) {
-    const line = lineAnalysis[i];
+  return { aiProbability, reasons, score };
+}
+
+const NEUTRAL_SCORE: ScoreBreakdown = { method: 'ratio', aiWeight: 0, humanWeight: 0, bias: 0, baseProbability: 0.5 };
+
+function analyzeLine(line: string, combined: CombinedLine, uncertaintyBand: number, attribution: ToolCandidate[]): LineAnalysis {
+  // Skip empty lines
+  if (!line.trim()) {
+    return {
+      content: line,
+      verdict: 'uncertain',
+      isAI: false,
+      aiProbability: 0.5,
+      confidence: 0.5,
+      reasons: [{ ruleId: 'neutral.empty-line', direction: 'neutral', contribution: 0, message: "Empty line - neutral" }],
+      score: { ...NEUTRAL_SCORE },
+      detectors: [],
+      attribution: []
+    };
+  }
+  
+  const aiProbability = combined.aiProbability ?? 0.5;
+  const verdict = verdictFor(aiProbability, combined.aiProbability !== null, uncertaintyBand);
+  const reasons = [...combined.reasons];
+  if (reasons.length === 0) {
+    reasons.push({ ruleId: 'neutral.no-signal', direction: 'neutral', contribution: 0, message: "No significant patterns detected - neutral classification" });
+  }
+  
+  return {
+    content: line,
+    verdict,
+    isAI: verdict === 'ai',
+    aiProbability,
+    confidence: Math.max(aiProbability, 1 - aiProbability),
+    reasons,
+    score: combined.score ?? { ...NEUTRAL_SCORE },
+    detectors: combined.contributions,
+    attribution
+  };
+}
+
+// Replaces each line's probability with its smoothed posterior and re-derives the verdict.
+// Lines no detector voted on stay uncertain; neighbours alone are not evidence about them
+function applySegmentation(lineAnalysis: LineAnalysis[], segmentation: Segmentation, uncertaintyBand: number, clamp?: SensitivityProfile['clamp']): void {
+  lineAnalysis.forEach((line, i) => {
+    const smoothed = segmentation.posteriors[i];
+    if (smoothed === null || line.detectors.length === 0) return;
+    const posterior = clamp ? Math.min(Math.max(smoothed, clamp.min), clamp.max) : smoothed;
     
-    if (!line.content.trim()) {
-      consecutiveAICount = 0;
-      continue;
+    const verdict = verdictFor(posterior, true, uncertaintyBand);
+    if (verdict !== line.verdict && verdict !== 'uncertain') {
+      const segment = segmentation.segments.find(candidate => i + 1 >= candidate.startLine && i + 1 <= candidate.endLine);
+      line.reasons.push({
+        ruleId: 'context.segment',
+        direction: verdict,
+        contribution: 0,
+        message: segment
+          ? `Smoothed by neighbouring lines (${segment.label.toUpperCase()} segment, lines ${segment.startLine}–${segment.endLine})`
+          : "Smoothed by neighbouring lines"
+      });
     }
     
-    if (line.isAI) {
-      consecutiveAICount++;
-    } else {
-      // If we have a human line after many AI lines, check if it's likely part of the AI block
-      if (consecutiveAICount >= 3 && !isCreativeHumanCode(line.content)) {
-        // Look ahead to see if AI pattern continues
-        let aiContinues = false;
-        for (let j = i + 1; j < Math.min(i + 3, lineAnalysis.length); j++) {
-          if (lineAnalysis[j].content.trim() && lineAnalysis[j].isAI) {
-            aiContinues = true;
-            break;
-          }
+    line.aiProbability = posterior;
+    line.confidence = Math.max(posterior, 1 - posterior);
+    line.verdict = verdict;
+    line.isAI = verdict === 'ai';
+  });
+}
+
+function collectSignals(code: string, lines: string[], language: string, options: RuleSetOptions) {
+  const rules = resolveRules(language, options);
+  const lineSpans = tokenizeLines(lines, language);
+  const blockMatches = findBlockMatches(lines, lineSpans, rules);
+  
+  return {
+    lineSpans,
+    signals: lines.map((line, i) => collectLineSignals(line, i, rules, lineSpans[i], blockMatches[i])),
+    // Analyze overall structure
+    structureScore: analyzeCodeStructure(code, lineSpans)
+  };
+}
+
+// Per-line feature vectors (null for empty lines) used to train detection models
+export function extractLineFeatures(code: string, language: string, options: RuleSetOptions = {}): (FeatureVector | null)[] {
+  const lines = code.split('\n');
+  const { signals, structureScore } = collectSignals(code, lines, language, options);
+  return lines.map((line, i) => line.trim() ? signalFeatures(signals[i], structureScore) : null);
+}
+
+export const DEFAULT_DETECTOR_WEIGHTS: Record<string, number> = {
+  rules: 1,
+  structure: 0.5,
+  perplexity: 0.5,
+  compression: 0.5,
+  documentation: 0.5
+};
+
+function rulesDetector(signals: LineSignal[][], structureScore: number, profile: SensitivityProfile): Detector {
+  return {
+    id: 'rules',
+    weight: DEFAULT_DETECTOR_WEIGHTS.rules,
+    detect: ({ lines, options }) => {
+      const scores = lines.map((line, i) => (line.trim() && signals[i].length > 0 ? scoreLine(signals[i], structureScore, profile, options.model) : null));
+      const decided = scores.filter((score): score is DetectorLineScore => score !== null);
+      return {
+        lines: scores,
+        file: decided.length > 0 ? decided.reduce((sum, score) => sum + score.aiProbability, 0) / decided.length : null
+      };
+    }
+  };
+}
+
+// The structure score only counts AI tells, so a clean score is weak evidence for a human author
+function structureDetector(structureScore: number): Detector {
+  return {
+    id: 'structure',
+    weight: DEFAULT_DETECTOR_WEIGHTS.structure,
+    detect: ({ lines }) => ({ lines: lines.map(() => null), file: 0.35 + 0.5 * structureScore })
+  };
+}
+
+// Lines shorter than this carry too little evidence for the n-gram ratio
+const PERPLEXITY_MIN_TOKENS = 4;
+// Ratios below this are scored but not worth a reason of their own
+const PERPLEXITY_MIN_RATIO = 0.15;
+// Log-odds per nat/token of likelihood ratio
+const PERPLEXITY_SCALE = 2;
+
+function perplexityDetector(lineLikelihoods: LineLikelihood[] | null, fileRatio: number): Detector {
+  return {
+    id: 'perplexity',
+    weight: DEFAULT_DETECTOR_WEIGHTS.perplexity,
+    detect: ({ lines }) => {
+      if (!lineLikelihoods) return { lines: lines.map(() => null), file: null };
+      return {
+        lines: lineLikelihoods.map(({ ratio, tokens }) => {
+          if (tokens < PERPLEXITY_MIN_TOKENS) return null;
+          const logOdds = PERPLEXITY_SCALE * ratio;
+          const reasons: LineReason[] = Math.abs(ratio) < PERPLEXITY_MIN_RATIO ? [] : [{
+            ruleId: 'perplexity.line-ratio',
+            direction: directionOf(ratio),
+            contribution: logOdds,
+            message: ratio > 0
+              ? `Token statistics resemble AI-written reference code (+${ratio.toFixed(2)} nats/token)`
+              : `Token statistics resemble human-written reference code (${ratio.toFixed(2)} nats/token)`
+          }];
+          return { aiProbability: sigmoid(logOdds), reasons };
+        }),
+        file: sigmoid(PERPLEXITY_SCALE * fileRatio)
+      };
+    }
+  };
+}
+
+// Lines take the score of the innermost code unit that has one
+function compressionDetector(fileScore: CompressionScore | null, units: CodeUnitRange[], unitScores: (CompressionScore | null)[]): Detector {
+  return {
+    id: 'compression',
+    weight: DEFAULT_DETECTOR_WEIGHTS.compression,
+    detect: ({ lines }) => ({
+      lines: lines.map((line, i) => {
+        if (!line.trim()) return null;
+        let innermost: CompressionScore | null = null;
+        for (let u = 0; u < units.length; u++) {
+          const score = unitScores[u];
+          if (score && i + 1 >= units[u].startLine && i + 1 <= units[u].endLine) innermost = score;
         }
-        
-        if (aiContinues) {
-          line.isAI = true;
-          line.confidence = Math.max(line.confidence, 0.6);
-          line.reasons.push("Part of extended AI-generated code block");
+        return innermost ? { aiProbability: innermost.aiProbability } : null;
+      }),
+      file: fileScore?.aiProbability ?? null
+    })
+  };
+}
+
+// Doc-comment lines take their function's documentation verdict
+function documentationDetector(score: DocCompletenessScore | null): Detector {
+  return {
+    id: 'documentation',
+    weight: DEFAULT_DETECTOR_WEIGHTS.documentation,
+    detect: ({ lines }) => {
+      const lineScores: (DetectorLineScore | null)[] = lines.map(() => null);
+      for (const entry of score?.functions ?? []) {
+        if (entry.docStartLine === null || entry.docEndLine === null || entry.reasons.length === 0) continue;
+        const reasons: LineReason[] = entry.reasons.map(reason => ({
+          ruleId: reason.id,
+          direction: directionOf(reason.contribution),
+          contribution: reason.contribution,
+          message: `${reason.message} (${entry.name})`
+        }));
+        for (let i = entry.docStartLine - 1; i < entry.docEndLine; i++) {
+          if (lines[i].trim()) lineScores[i] = { aiProbability: entry.aiProbability, reasons };
         }
       }
-      consecutiveAICount = 0;
+      // Undocumented files say little either way, so the detector only votes once something is documented
+      return { lines: lineScores, file: score && score.documentedCount > 0 ? score.aiProbability : null };
     }
-  }
+  };
 }
 
-export async function analyzeCode(code: string, language: string): Promise<AnalysisResult> {
+export async function analyzeCode(code: string, language: string, options: AnalysisOptions = {}): Promise<AnalysisResult> {
   // Simulate processing delay for realism
-  await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 2000));
+  if (options.simulateLatency !== false) {
+    await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 2000));
+  }
   
+  const profile = resolveProfile(options.profile);
   const lines = code.split('\n');
-  const lineAnalysis: LineAnalysis[] = [];
+  // Profiles are written against the built-in rules, so their overrides skip ids a custom rule set doesn't have
+  const ruleIds = ruleSetIds(options);
+  const profileOverrides = Object.fromEntries(Object.entries(profile.ruleOverrides ?? {}).filter(([id]) => ruleIds.has(id)));
+  const { lineSpans, signals, structureScore } = collectSignals(code, lines, language, {
+    ...options,
+    ruleOverrides: { ...profileOverrides, ...options.ruleOverrides }
+  });
+  const unitRanges = detectCodeUnits(lines, lineSpans, language);
+  const corpus = options.referenceCorpus ?? REFERENCE_CORPUS;
+  
+  // Token statistics against the reference corpus
+  let lineLikelihoods: LineLikelihood[] | null = null;
+  let likelihood: LikelihoodReport | null = null;
+  if (options.perplexity !== false) {
+    const scorer = getLikelihoodScorer(corpus);
+    lineLikelihoods = lines.map(line => lineLogLikelihoodRatio(scorer, line));
+    likelihood = {
+      fileRatio: fileLogLikelihoodRatio(lineLikelihoods),
+      lineRatios: lineLikelihoods.map(lineLikelihood => (lineLikelihood.tokens > 0 ? lineLikelihood.ratio : null))
+    };
+  }
   
-  // Analyze overall structure
-  const structureScore = analyzeCodeStructure(code);
+  // Independent of the rules: compare the file and each unit against the reference snippets
+  let compression: CompressionScore | null = null;
+  let unitCompression: (CompressionScore | null)[] = unitRanges.map(() => null);
+  if (options.compression !== false) {
+    [compression, unitCompression] = await Promise.all([
+      compressionScore(code, corpus),
+      Promise.all(unitRanges.map(unit => compressionScore(lines.slice(unit.startLine - 1, unit.endLine).join('\n'), corpus)))
+    ]);
+  }
   
-  // Analyze each line
-  for (let i = 0; i < lines.length; i++) {
-    const analysis = analyzeLine(lines[i], i + 1, language);
-    
-    // Adjust confidence based on overall structure
-    if (structureScore > 0.5) {
-      if (analysis.isAI) {
-        analysis.confidence = Math.min(analysis.confidence + 0.1, 0.95);
-      }
-    }
-    
-    lineAnalysis.push(analysis);
+  const docCompleteness = options.docCompleteness !== false ? analyzeDocCompleteness(lines, lineSpans, language, unitRanges) : null;
+  
+  // A trained model scores through the rules detector, so disabling it would silently drop the model
+  if (options.model && options.detectorWeights?.rules === 0) {
+    throw new Error('The rules detector cannot be disabled while a trained model is loaded');
   }
   
-  // Apply contextual analysis to improve accuracy
-  applyContextualAnalysis(lineAnalysis);
+  // Every detector votes per line and per file; the combiner pools the votes in log-odds
+  const detectors = resolveDetectors([
+    rulesDetector(signals, structureScore, profile),
+    structureDetector(structureScore),
+    perplexityDetector(lineLikelihoods, likelihood?.fileRatio ?? 0),
+    compressionDetector(compression, unitRanges, unitCompression),
+    documentationDetector(docCompleteness),
+    ...(options.onnxModel ? [createOnnxDetector(options.onnxModel)] : []),
+    ...(options.detectors ?? [])
+  ], options.detectorWeights);
+  const input: DetectorInput = { code, lines, language, lineSpans, options };
+  const outputs = await Promise.all(detectors.map(async ({ detector, weight }) => ({ detector, weight, output: await detector.detect(input) })));
+  // Other detectors add their log-odds to the model's calibrated logit; the rule ratio is no
+  // probability, so without a model the pooled vote stays inside the profile's clamp
+  const ensemble = combineDetectors(outputs, lines.length, options.model ? {} : { clamp: profile.clamp });
+  
+  // Analyze each line
+  const uncertaintyBand = options.uncertaintyBand ?? profile.uncertaintyBand;
+  const toolEvidence = attributeLines(lines, lineSpans, resolveSignatures(language, options));
+  const lineAnalysis = lines.map((line, i) => analyzeLine(line, ensemble.lines[i], uncertaintyBand, rankTools(toolEvidence[i])));
+  
+  // Segment the file into authorship runs; calibrated model output is only smoothed on request
+  const segmentation = segmentLines(
+    lineAnalysis.map(line => (line.content.trim() ? line.aiProbability : null)),
+    { ...profile.smoothing, ...options.segmentation }
+  );
+  if (options.smoothing ?? !options.model) {
+    applySegmentation(lineAnalysis, segmentation, uncertaintyBand, options.model ? undefined : profile.clamp);
+  }
   
   // Calculate statistics
   const nonEmptyLines = lineAnalysis.filter(l => l.content.trim());
-  const aiLines = nonEmptyLines.filter(l => l.isAI).length;
-  const humanLines = nonEmptyLines.length - aiLines;
+  const aiLines = nonEmptyLines.filter(l => l.verdict === 'ai').length;
+  const humanLines = nonEmptyLines.filter(l => l.verdict === 'human').length;
+  const uncertainLines = nonEmptyLines.length - aiLines - humanLines;
   const totalLines = nonEmptyLines.length;
   
   const aiPercentage = totalLines > 0 ? (aiLines / totalLines) * 100 : 0;
   const humanPercentage = totalLines > 0 ? (humanLines / totalLines) * 100 : 0;
+  const uncertainPercentage = totalLines > 0 ? (uncertainLines / totalLines) * 100 : 0;
   
   // Calculate overall confidence as weighted average
   const overallConfidence = nonEmptyLines.length > 0 
     ? nonEmptyLines.reduce((sum, line) => sum + line.confidence, 0) / nonEmptyLines.length
     : 0.5;
   
+  const codeUnits = scoreCodeUnits(unitRanges, lineAnalysis, uncertaintyBand);
+  codeUnits.forEach((unit, i) => {
+    unit.compression = unitCompression[i];
+  });
+  
   return {
     totalLines,
     aiLines,
     humanLines,
+    uncertainLines,
     aiPercentage,
     humanPercentage,
+    uncertainPercentage,
     overallConfidence,
-    lineAnalysis
+    lineAnalysis,
+    codeUnits,
+    segments: segmentation.segments,
+    likelihood,
+    compression,
+    ensemble: { fileProbability: ensemble.fileProbability, detectors: ensemble.reports },
+    stylometry: extractStylometry(lines, lineSpans),
+    attribution: rankTools(toolEvidence.flat()),
+    commentProse: options.commentProse !== false ? analyzeCommentProse(lines, lineSpans) : null,
+    docCompleteness
   };
-}
\ No newline at end of file
+}
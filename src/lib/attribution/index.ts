@@ -0,0 +1,118 @@
+import { expandCommentMarker, languageLineage } from '../languages';
+import { maskLine } from '../lexer';
+import type { TokenSpan } from '../lexer';
+import { REPOSITORY_SIGNATURES, TOOL_NAMES, TOOL_SIGNATURES } from './signatures';
+import type { RepositorySignature, ToolCandidate, ToolEvidence, ToolId, ToolSignature } from './types';
+
+export type { RepositorySignature, ToolCandidate, ToolEvidence, ToolId, ToolSignature } from './types';
+export { REPOSITORY_SIGNATURES, TOOL_NAMES, TOOL_SIGNATURES } from './signatures';
+
+export interface AttributionOptions {
+  // Replaces the built-in tool signatures entirely
+  toolSignatures?: ToolSignature[];
+  // Appended to the active tool signatures
+  extraToolSignatures?: ToolSignature[];
+}
+
+export interface CommitInfo {
+  author?: string;
+  message?: string;
+}
+
+// Evidence entries kept per candidate; the weight still counts all of them
+const MAX_EVIDENCE = 5;
+
+export function resolveSignatures(language: string, options: AttributionOptions = {}): ToolSignature[] {
+  const signatures = [...(options.toolSignatures ?? TOOL_SIGNATURES), ...(options.extraToolSignatures ?? [])];
+  const seenIds = new Set<string>();
+  for (const signature of signatures) {
+    if (seenIds.has(signature.id)) {
+      throw new Error(`Duplicate tool signature id: ${signature.id}`);
+    }
+    seenIds.add(signature.id);
+  }
+  const lineage = languageLineage(language);
+  return signatures
+    .filter(signature => !signature.languages || lineage.some(ancestor => signature.languages!.includes(ancestor)))
+    .map(signature => expandCommentMarker(signature, language))
+    .filter((signature): signature is ToolSignature => signature !== null);
+}
+
+function exec(pattern: RegExp, text: string): RegExpExecArray | null {
+  pattern.lastIndex = 0;
+  const match = pattern.exec(text);
+  pattern.lastIndex = 0;
+  return match;
+}
+
+// Evidence per line (0-based index), with spans on the original line
+export function attributeLines(lines: string[], lineSpans: TokenSpan[][], signatures: ToolSignature[]): ToolEvidence[][] {
+  return lines.map((line, i) => {
+    if (!line.trim()) return [];
+    const evidence: ToolEvidence[] = [];
+    for (const signature of signatures) {
+      const view = signature.appliesTo ? maskLine(line, lineSpans[i] ?? [], signature.appliesTo) : line;
+      const match = exec(signature.pattern, view);
+      if (!match) continue;
+      evidence.push({
+        signatureId: signature.id,
+        tool: signature.tool,
+        weight: signature.weight,
+        reason: signature.reason,
+        line: i + 1,
+        span: { start: match.index, end: match.index + match[0].length }
+      });
+    }
+    return evidence;
+  });
+}
+
+export function attributeRepository(
+  paths: string[],
+  commits: CommitInfo[],
+  signatures: RepositorySignature[] = REPOSITORY_SIGNATURES
+): ToolEvidence[] {
+  const evidence: ToolEvidence[] = [];
+  for (const signature of signatures) {
+    const subjects = signature.target === 'path'
+      ? paths
+      : commits.map(commit => (signature.target === 'commit-author' ? commit.author : commit.message) ?? '');
+    const matches = subjects.filter(subject => exec(signature.pattern, subject));
+    if (matches.length === 0) continue;
+    evidence.push({
+      signatureId: signature.id,
+      tool: signature.tool,
+      weight: signature.weight,
+      reason: signature.target === 'path' ? signature.reason : `${signature.reason} (${matches.length})`,
+      ...(signature.target === 'path' ? { path: matches[0] } : {})
+    });
+  }
+  return evidence;
+}
+
+// Repeats of one signature add log-damped weight, so a habit repeated on every line can't outvote an explicit marker
+export function rankTools(evidence: ToolEvidence[]): ToolCandidate[] {
+  const bySignature = new Map<string, ToolEvidence[]>();
+  for (const entry of evidence) {
+    bySignature.set(entry.signatureId, [...(bySignature.get(entry.signatureId) ?? []), entry]);
+  }
+
+  const weights = new Map<ToolId, number>();
+  const entries = new Map<ToolId, ToolEvidence[]>();
+  for (const matches of bySignature.values()) {
+    const { tool, weight } = matches[0];
+    weights.set(tool, (weights.get(tool) ?? 0) + weight * (1 + Math.log(matches.length)));
+    entries.set(tool, [...(entries.get(tool) ?? []), ...matches]);
+  }
+
+  const total = [...weights.values()].reduce((sum, weight) => sum + weight, 0);
+  return [...weights.entries()]
+    .map(([tool, weight]) => ({
+      tool,
+      name: TOOL_NAMES[tool] ?? tool,
+      weight,
+      share: total > 0 ? weight / total : 0,
+      evidence: [...(entries.get(tool) ?? [])].sort((a, b) => b.weight - a.weight).slice(0, MAX_EVIDENCE)
+    }))
+    .sort((a, b) => b.weight - a.weight);
+}
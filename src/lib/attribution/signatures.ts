@@ -0,0 +1,228 @@
+import type { RepositorySignature, ToolId, ToolSignature } from './types';
+
+export const TOOL_NAMES: Record<ToolId, string> = {
+  chatgpt: "ChatGPT",
+  copilot: "GitHub Copilot",
+  claude: "Claude",
+  gemini: "Gemini",
+  lovable: "Lovable",
+  bolt: "Bolt",
+  v0: "v0"
+};
+
+// Explicit markers are near-certain; stylistic habits only tip the ranking
+export const TOOL_SIGNATURES: ToolSignature[] = [
+  // ChatGPT: explicit marker, section banners and ready-to-run usage examples
+  {
+    id: "chatgpt.generated-comment",
+    tool: "chatgpt",
+    pattern: /\b(?:generated|written|created)\s+(?:with|by|using)\s+(?:chat\s?gpt|openai|gpt-?[345o])/i,
+    weight: 3,
+    reason: "Comment says the code was generated with ChatGPT",
+    appliesTo: ["comment"]
+  },
+  {
+    id: "chatgpt.section-banner",
+    tool: "chatgpt",
+    pattern: /<comment>\s*-{3,}\s*\w[\w\s]*-{3,}\s*$/,
+    weight: 0.6,
+    reason: "Section banner comment (`// --- Name ---`) common in ChatGPT answers",
+    appliesTo: ["comment"]
+  },
+  {
+    id: "chatgpt.example-usage",
+    tool: "chatgpt",
+    pattern: /<comment>\s*Example usage:?\s*$/i,
+    weight: 0.8,
+    reason: "\"Example usage\" trailer that ChatGPT appends to snippets",
+    appliesTo: ["comment"]
+  },
+  {
+    id: "chatgpt.polite-error",
+    tool: "chatgpt",
+    pattern: /\bPlease (?:provide|enter|ensure|make sure)\b/,
+    weight: 0.4,
+    reason: "Polite \"Please provide…\" error message",
+    appliesTo: ["string"]
+  },
+
+  // Copilot: prompt comments written to steer completions
+  {
+    id: "copilot.mention",
+    tool: "copilot",
+    pattern: /\b(?:github\s+)?copilot\b/i,
+    weight: 2,
+    reason: "Comment mentions Copilot",
+    appliesTo: ["comment"]
+  },
+  {
+    id: "copilot.prompt-comment",
+    tool: "copilot",
+    pattern: /<comment>\s*(?:write|create|implement|generate|make) (?:a|an|the) (?:function|method|class|component|helper|regex)\b/i,
+    weight: 0.8,
+    reason: "Imperative prompt comment used to drive a completion",
+    appliesTo: ["comment"]
+  },
+  {
+    id: "copilot.todo-stub",
+    tool: "copilot",
+    pattern: /<comment>\s*TODO:\s*(?:implement|add) (?:this|logic|functionality)\b/i,
+    weight: 0.4,
+    reason: "Placeholder TODO left by a partial completion",
+    appliesTo: ["comment"]
+  },
+
+  // Claude: explicit marker, emoji status logs and "comprehensive"/"robust" framing
+  {
+    id: "claude.generated-comment",
+    tool: "claude",
+    pattern: /\b(?:generated|written|created)\s+(?:with|by|using)\s+(?:\[?claude(?: code)?\]?|anthropic)\b/i,
+    weight: 3,
+    reason: "Comment says the code was generated with Claude",
+    appliesTo: ["comment"]
+  },
+  {
+    id: "claude.emoji-status-log",
+    tool: "claude",
+    pattern: /\b(?:console\.(?:log|error|warn)|print|println!?|fmt\.Print\w*)\s*\(\s*(?:f|`)?["'`]?\s*(?:✅|❌|⚠️|🚀|🔍|📦|✨)/u,
+    weight: 0.6,
+    reason: "Status log prefixed with an emoji (✅, ❌, 🚀…)"
+  },
+  {
+    id: "claude.comprehensive-comment",
+    tool: "claude",
+    pattern: /\b(?:comprehensive|robust|production-ready)\b.*\b(?:handling|validation|solution|implementation|support)\b/i,
+    weight: 0.5,
+    reason: "\"Comprehensive/robust … handling\" framing in comments",
+    appliesTo: ["comment"]
+  },
+
+  // Gemini: explicit marker and its "necessary libraries" import headers
+  {
+    id: "gemini.generated-comment",
+    tool: "gemini",
+    pattern: /\b(?:generated|written|created)\s+(?:with|by|using)\s+(?:google\s+)?(?:gemini|bard)\b/i,
+    weight: 3,
+    reason: "Comment says the code was generated with Gemini",
+    appliesTo: ["comment"]
+  },
+  {
+    id: "gemini.necessary-imports",
+    tool: "gemini",
+    pattern: /<comment>\s*Import (?:the )?necessary (?:libraries|modules|packages)\b/i,
+    weight: 0.7,
+    reason: "\"Import necessary libraries\" header comment",
+    appliesTo: ["comment"]
+  },
+
+  // Lovable: component tagger, GPT Engineer script and mentions
+  {
+    id: "lovable.component-tagger",
+    tool: "lovable",
+    pattern: /\b(?:lovable-tagger|componentTagger)\b/,
+    weight: 2.5,
+    reason: "Uses Lovable's component tagger"
+  },
+  {
+    id: "lovable.gpt-engineer",
+    tool: "lovable",
+    pattern: /gpteng\.co|gpt-engineer/i,
+    weight: 2,
+    reason: "References GPT Engineer, Lovable's predecessor"
+  },
+  {
+    id: "lovable.mention",
+    tool: "lovable",
+    pattern: /\blovable(?:\.dev|\.app)?\b/i,
+    weight: 1.5,
+    reason: "Mentions Lovable",
+    appliesTo: ["comment", "string"]
+  },
+
+  // Bolt: StackBlitz WebContainer project markers
+  {
+    id: "bolt.mention",
+    tool: "bolt",
+    pattern: /\bbolt\.new\b|\bstackblitz\b/i,
+    weight: 2,
+    reason: "Mentions bolt.new or StackBlitz",
+    appliesTo: ["comment", "string"]
+  },
+
+  // v0: the generated-file header and its shadcn/ui component imports
+  {
+    id: "v0.generated-header",
+    tool: "v0",
+    pattern: /This code was generated by v0|v0\.dev\/t\/|\bv0 by Vercel\b/i,
+    weight: 3,
+    reason: "v0 generated-file header",
+    appliesTo: ["comment"]
+  },
+  {
+    id: "v0.shadcn-import",
+    tool: "v0",
+    pattern: /from\s+["']@\/components\/ui\/[\w-]+["']/,
+    weight: 0.3,
+    reason: "Imports shadcn/ui components, the default kit of v0 and other app builders",
+    languages: ["javascript", "typescript", "jsx", "tsx"]
+  }
+];
+
+export const REPOSITORY_SIGNATURES: RepositorySignature[] = [
+  {
+    id: "copilot.commit-author",
+    tool: "copilot",
+    target: "commit-author",
+    pattern: /^(?:copilot|copilot-swe-agent\[bot\])$/i,
+    weight: 3,
+    reason: "Commits authored by the Copilot coding agent"
+  },
+  {
+    id: "copilot.co-author",
+    tool: "copilot",
+    target: "commit-message",
+    pattern: /^Co-authored-by:\s*Copilot\b/im,
+    weight: 2,
+    reason: "Commits co-authored by Copilot"
+  },
+  {
+    id: "claude.co-author",
+    tool: "claude",
+    target: "commit-message",
+    pattern: /^Co-authored-by:\s*Claude\b|Generated with \[?Claude Code\]?/im,
+    weight: 3,
+    reason: "Commits co-authored by Claude"
+  },
+  {
+    id: "gemini.commit-author",
+    tool: "gemini",
+    target: "commit-author",
+    pattern: /^gemini-code-assist\[bot\]$/i,
+    weight: 2,
+    reason: "Commits by the Gemini Code Assist bot"
+  },
+  {
+    id: "lovable.commit-author",
+    tool: "lovable",
+    target: "commit-author",
+    pattern: /^(?:lovable-dev\[bot\]|gpt-engineer-app\[bot\])$/i,
+    weight: 3,
+    reason: "Commits by the Lovable bot"
+  },
+  {
+    id: "bolt.project-config",
+    tool: "bolt",
+    target: "path",
+    pattern: /^\.bolt\//,
+    weight: 3,
+    reason: "Contains Bolt's .bolt/ project configuration"
+  },
+  {
+    id: "v0.commit-author",
+    tool: "v0",
+    target: "commit-author",
+    pattern: /^v0\[bot\]$/i,
+    weight: 3,
+    reason: "Commits by the v0 bot"
+  }
+];
@@ -0,0 +1,51 @@
+import type { SpanKind } from '../lexer';
+
+export type ToolId = 'chatgpt' | 'copilot' | 'claude' | 'gemini' | 'lovable' | 'bolt' | 'v0';
+
+// Evidence that a specific assistant or app builder produced the code
+export interface ToolSignature {
+  // Stable identifier, prefixed with the tool id (e.g. "v0.generated-header")
+  id: string;
+  tool: ToolId;
+  pattern: RegExp;
+  weight: number;
+  reason: string;
+  // Languages the signature applies to; omit to apply it to every language
+  languages?: string[];
+  // Span kinds the pattern is tested against; omit to test the whole line
+  appliesTo?: SpanKind[];
+}
+
+// Repository-level evidence, tested against file paths or commit metadata instead of code
+export interface RepositorySignature {
+  id: string;
+  tool: ToolId;
+  target: 'path' | 'commit-author' | 'commit-message';
+  pattern: RegExp;
+  weight: number;
+  reason: string;
+}
+
+export interface ToolEvidence {
+  signatureId: string;
+  tool: ToolId;
+  weight: number;
+  reason: string;
+  // File the evidence was found in; set at repository level
+  path?: string;
+  // 1-based line of a code match
+  line?: number;
+  // Matched characters within that line; end is exclusive
+  span?: { start: number; end: number };
+}
+
+export interface ToolCandidate {
+  tool: ToolId;
+  name: string;
+  // Summed weight of all evidence for the tool
+  weight: number;
+  // Share of all tool evidence (0-1); the candidates' shares add up to 1
+  share: number;
+  // Strongest evidence first, capped at a few entries
+  evidence: ToolEvidence[];
+}
@@ -0,0 +1,155 @@
+import { sigmoid } from './math';
+
+export type FeatureVector = Record<string, number>;
+
+export type CalibrationCurve =
+  | { method: 'logistic'; slope: number; intercept: number }
+  // Non-decreasing step function: inputs at or above thresholds[i] map to values[i]
+  | { method: 'isotonic'; thresholds: number[]; values: number[] };
+
+export interface DetectionModel {
+  version: 1;
+  trainedAt: string;
+  // Log-odds contribution per feature id (rule or heuristic); positive points to AI
+  weights: Record<string, number>;
+  bias: number;
+  // Maps the raw log-odds score to a calibrated AI probability
+  calibration: CalibrationCurve;
+}
+
+export interface LabeledFeatures {
+  features: FeatureVector;
+  // 1 = AI, 0 = human
+  label: number;
+}
+
+export interface CalibrationSample {
+  score: number;
+  label: number;
+}
+
+export interface TrainingOptions {
+  iterations?: number;
+  learningRate?: number;
+  // L2 penalty that keeps rarely-seen rules close to zero
+  regularization?: number;
+}
+
+export function rawScore(model: Pick<DetectionModel, 'weights' | 'bias'>, features: FeatureVector, fallbackWeights: FeatureVector = {}): number {
+  let score = model.bias;
+  for (const [id, value] of Object.entries(features)) {
+    // Features the model never saw (e.g. house rules added after training) keep their hand-set weight
+    const weight = model.weights[id] ?? fallbackWeights[id] ?? 0;
+    score += weight * value;
+  }
+  return score;
+}
+
+export function applyCalibration(curve: CalibrationCurve, score: number): number {
+  if (curve.method === 'logistic') {
+    return sigmoid(curve.slope * score + curve.intercept);
+  }
+
+  let value = curve.values[0] ?? 0.5;
+  for (let i = 0; i < curve.thresholds.length; i++) {
+    if (score >= curve.thresholds[i]) value = curve.values[i];
+    else break;
+  }
+  return value;
+}
+
+// L2-regularized logistic regression fitted with full-batch gradient descent
+export function trainWeights(samples: LabeledFeatures[], options: TrainingOptions = {}): Pick<DetectionModel, 'weights' | 'bias'> {
+  const { iterations = 400, learningRate = 0.5, regularization = 0.01 } = options;
+  const featureIds = [...new Set(samples.flatMap(sample => Object.keys(sample.features)))].sort();
+  const weights: Record<string, number> = Object.fromEntries(featureIds.map(id => [id, 0]));
+  let bias = 0;
+  if (samples.length === 0) return { weights, bias };
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const gradients: Record<string, number> = Object.fromEntries(featureIds.map(id => [id, 0]));
+    let biasGradient = 0;
+
+    for (const { features, label } of samples) {
+      const error = sigmoid(rawScore({ weights, bias }, features)) - label;
+      biasGradient += error;
+      for (const [id, value] of Object.entries(features)) {
+        gradients[id] += error * value;
+      }
+    }
+
+    bias -= (learningRate * biasGradient) / samples.length;
+    for (const id of featureIds) {
+      weights[id] -= learningRate * (gradients[id] / samples.length + regularization * weights[id]);
+    }
+  }
+
+  return { weights, bias };
+}
+
+// Platt scaling: fits sigmoid(slope * score + intercept) to the labels
+export function fitLogisticCalibration(samples: CalibrationSample[], iterations = 500, learningRate = 0.1): CalibrationCurve {
+  let slope = 1;
+  let intercept = 0;
+
+  for (let iteration = 0; iteration < iterations && samples.length > 0; iteration++) {
+    let slopeGradient = 0;
+    let interceptGradient = 0;
+    for (const { score, label } of samples) {
+      const error = sigmoid(slope * score + intercept) - label;
+      slopeGradient += error * score;
+      interceptGradient += error;
+    }
+    slope -= (learningRate * slopeGradient) / samples.length;
+    intercept -= (learningRate * interceptGradient) / samples.length;
+  }
+
+  return { method: 'logistic', slope, intercept };
+}
+
+// Pool-adjacent-violators fit of a non-decreasing step function
+export function fitIsotonicCalibration(samples: CalibrationSample[]): CalibrationCurve {
+  const sorted = [...samples].sort((a, b) => a.score - b.score);
+  const blocks: { threshold: number; sum: number; count: number }[] = [];
+
+  for (const { score, label } of sorted) {
+    blocks.push({ threshold: score, sum: label, count: 1 });
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      if (previous.sum / previous.count < last.sum / last.count) break;
+      blocks.pop();
+      previous.sum += last.sum;
+      previous.count += last.count;
+    }
+  }
+
+  return {
+    method: 'isotonic',
+    thresholds: blocks.map(block => block.threshold),
+    values: blocks.map(block => block.sum / block.count)
+  };
+}
+
+// Accepts the JSON text of a model file or an already-parsed object
+export function parseDetectionModel(source: unknown): DetectionModel {
+  const data = typeof source === 'string' ? JSON.parse(source) : source;
+  const model = data as DetectionModel;
+
+  if (!model || model.version !== 1) {
+    throw new Error('Unsupported detection model: expected version 1');
+  }
+  if (typeof model.bias !== 'number' || typeof model.weights !== 'object' || model.weights === null) {
+    throw new Error('Invalid detection model: missing weights or bias');
+  }
+
+  const curve = model.calibration;
+  const validCurve = curve?.method === 'logistic'
+    ? typeof curve.slope === 'number' && typeof curve.intercept === 'number'
+    : curve?.method === 'isotonic' && Array.isArray(curve.thresholds) && curve.thresholds.length === curve.values?.length;
+  if (!validCurve) {
+    throw new Error('Invalid detection model: calibration must be a logistic or isotonic curve');
+  }
+
+  return model;
+}
@@ -0,0 +1,304 @@
+import { MASK_CHAR, maskLine } from './lexer';
+import { verdictFor } from './profiles';
+import type { Verdict } from './aiDetection';
+import type { CompressionScore } from './compression';
+import type { TokenSpan } from './lexer';
+
+export type CodeUnitKind = 'function' | 'method' | 'class';
+
+export interface CodeUnitRange {
+  kind: CodeUnitKind;
+  name: string;
+  // 1-based, inclusive
+  startLine: number;
+  endLine: number;
+}
+
+export interface CodeUnit extends CodeUnitRange {
+  // Uncertain when the average score falls inside the uncertainty band
+  verdict: Verdict;
+  isAI: boolean;
+  // Average AI likelihood of the unit's non-empty lines (0 = human, 1 = AI)
+  aiScore: number;
+  confidence: number;
+  aiLines: number;
+  uncertainLines: number;
+  totalLines: number;
+  // Most influential line reasons agreeing with the unit's verdict
+  reasons: string[];
+  // Compression-distance verdict for the unit's source; null when too short to score
+  compression?: CompressionScore | null;
+}
+
+// Minimal shape of a per-line verdict needed for aggregation
+interface ScoredLine {
+  content: string;
+  verdict: Verdict;
+  aiProbability: number;
+  reasons: { ruleId: string; direction: string; message: string }[];
+}
+
+interface UnitSyntax {
+  blocks: 'braces' | 'indent';
+  classPatterns: RegExp[];
+  functionPatterns: RegExp[];
+  // Signatures without a keyword; only trusted directly inside a class body (or at top level when allowed)
+  methodPatterns?: RegExp[];
+  methodsAtTopLevel?: boolean;
+  // Indent languages that close blocks with a keyword line (e.g. Ruby's `end`)
+  blockCloser?: RegExp;
+}
+
+const CONTROL_KEYWORDS = 'if|for|foreach|while|switch|catch|return|function|else|do|try|with|new|typeof|await|throw|super|delete|sizeof|using|lock';
+
+const JS_SYNTAX: UnitSyntax = {
+  blocks: 'braces',
+  classPatterns: [/^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+(?<name>[\w$]+)/],
+  functionPatterns: [
+    /^\s*(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*(?<name>[\w$]+)/,
+    /^\s*(?:export\s+)?(?:const|let|var)\s+(?<name>[\w$]+)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|(?:\([^)]*\)|[\w$]+)\s*(?::\s*[^=]+)?=>|\(\s*$)/
+  ],
+  methodPatterns: [
+    new RegExp(`^\\s*(?:(?:public|private|protected|static|async|override|readonly|abstract|get|set)\\s+)*(?!(?:${CONTROL_KEYWORDS})\\b)(?<name>[\\w$]+)\\s*(?:<[^>]*>)?\\s*\\(`)
+  ]
+};
+
+const C_FAMILY_CLASS = /^\s*(?:[\w@]+(?:\([^)]*\))?\s+)*(?:class|interface|struct|enum|record|trait|object)\s+(?<name>\w+)/;
+const TYPED_SIGNATURE = new RegExp(`^\\s*(?:[\\w@]+(?:<[^>]*>)?(?:\\[\\])?[\\s*&]+)+(?!(?:${CONTROL_KEYWORDS})\\b)(?<name>~?[\\w:]+)\\s*\\([^;]*$`);
+
+const TYPED_SYNTAX: UnitSyntax = {
+  blocks: 'braces',
+  classPatterns: [C_FAMILY_CLASS],
+  functionPatterns: [],
+  methodPatterns: [TYPED_SIGNATURE],
+  methodsAtTopLevel: true
+};
+
+function keywordSyntax(functionPattern: RegExp, extraClassPatterns: RegExp[] = []): UnitSyntax {
+  return {
+    blocks: 'braces',
+    classPatterns: [C_FAMILY_CLASS, ...extraClassPatterns],
+    functionPatterns: [functionPattern]
+  };
+}
+
+const UNIT_SYNTAX: Record<string, UnitSyntax> = {
+  javascript: JS_SYNTAX,
+  jsx: JS_SYNTAX,
+  typescript: JS_SYNTAX,
+  tsx: JS_SYNTAX,
+  java: TYPED_SYNTAX,
+  csharp: TYPED_SYNTAX,
+  c: TYPED_SYNTAX,
+  cpp: TYPED_SYNTAX,
+  go: keywordSyntax(/^\s*func\s+(?:(?<receiver>\([^)]*\))\s*)?(?<name>\w+)/, [/^\s*type\s+(?<name>\w+)\s+(?:struct|interface)\b/]),
+  rust: keywordSyntax(
+    /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:const\s+)?(?:async\s+)?(?:unsafe\s+)?(?:extern\s+\S+\s+)?fn\s+(?<name>\w+)/,
+    [/^\s*impl(?:<[^>]*>)?\s+(?:[\w:<>]+\s+for\s+)?(?<name>\w+)/]
+  ),
+  kotlin: keywordSyntax(/^\s*(?:[\w@]+\s+)*fun\s+(?:<[^>]*>\s*)?(?:[\w.]+\.)?(?<name>\w+)/),
+  scala: keywordSyntax(/^\s*(?:[\w@]+\s+)*def\s+(?<name>\w+)/),
+  swift: keywordSyntax(/^\s*(?:[\w@]+\s+)*func\s+(?<name>\w+)/),
+  php: keywordSyntax(/^\s*(?:\w+\s+)*function\s+(?<name>\w+)/),
+  python: {
+    blocks: 'indent',
+    classPatterns: [/^\s*class\s+(?<name>\w+)/],
+    functionPatterns: [/^\s*(?:async\s+)?def\s+(?<name>\w+)/]
+  },
+  ruby: {
+    blocks: 'indent',
+    classPatterns: [/^\s*(?:class|module)\s+(?<name>[\w:]+)/],
+    functionPatterns: [/^\s*def\s+(?:self\.)?(?<name>\w+[?!=]?)/],
+    blockCloser: /^\s*end\b/
+  }
+};
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function hasCode(text: string): boolean {
+  return text.split(MASK_CHAR).join('').trim().length > 0;
+}
+
+function countChar(text: string, char: string): number {
+  let count = 0;
+  for (const c of text) {
+    if (c === char) count++;
+  }
+  return count;
+}
+
+// Finds the line closing the brace block opened at or after `header`.
+// Headers that reach `;` before any block are statement-bodied and end on that line.
+function findBraceBlockEnd(codeLines: string[], header: number): { end: number; braced: boolean } {
+  const lookahead = Math.min(header + 6, codeLines.length);
+  let depth = 0;
+  let parenDepth = 0;
+  let opened = false;
+
+  for (let i = header; i < codeLines.length; i++) {
+    for (const char of codeLines[i]) {
+      if (char === '(') {
+        parenDepth++;
+      } else if (char === ')') {
+        parenDepth = Math.max(parenDepth - 1, 0);
+      } else if (opened || parenDepth === 0) {
+        // Braces inside a parameter list (destructuring, defaults) don't open the body
+        if (char === '{') {
+          depth++;
+          opened = true;
+        } else if (char === '}') {
+          depth--;
+          if (opened && depth === 0) return { end: i, braced: true };
+        } else if (char === ';' && !opened) {
+          return { end: i, braced: false };
+        }
+      }
+    }
+    if (!opened && i + 1 >= lookahead) return { end: -1, braced: false };
+  }
+
+  return { end: opened ? codeLines.length - 1 : -1, braced: opened };
+}
+
+function findIndentBlockEnd(codeLines: string[], header: number, closer?: RegExp): number {
+  const headerIndent = indentOf(codeLines[header]);
+  let end = header;
+
+  for (let i = header + 1; i < codeLines.length; i++) {
+    // Comment and docstring lines don't close indent blocks
+    if (!hasCode(codeLines[i])) continue;
+    if (indentOf(codeLines[i]) <= headerIndent) {
+      return closer?.test(codeLines[i]) && indentOf(codeLines[i]) === headerIndent ? i : end;
+    }
+    end = i;
+  }
+
+  return end;
+}
+
+// Patterns capture the unit name as `name`, and a method receiver (Go) as `receiver`
+function matchHeader(patterns: RegExp[], text: string): { name: string; hasReceiver: boolean } | null {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match?.groups?.name) {
+      return { name: match.groups.name, hasReceiver: Boolean(match.groups.receiver) };
+    }
+  }
+  return null;
+}
+
+// Detects functions, methods and classes with brace- or indent-based block boundaries
+export function detectCodeUnits(lines: string[], lineSpans: TokenSpan[][], language: string): CodeUnitRange[] {
+  const syntax = UNIT_SYNTAX[language];
+  if (!syntax) return [];
+
+  const codeLines = lines.map((line, i) => maskLine(line, lineSpans[i], ['code']));
+  const findEnd = (header: number) => syntax.blocks === 'braces'
+    ? findBraceBlockEnd(codeLines, header)
+    : { end: findIndentBlockEnd(codeLines, header, syntax.blockCloser), braced: true };
+
+  // Brace depth at the start of each line, for telling class bodies apart from method bodies
+  const depthAtStart: number[] = [];
+  let depth = 0;
+  for (const code of codeLines) {
+    depthAtStart.push(depth);
+    depth += countChar(code, '{') - countChar(code, '}');
+  }
+
+  const classes: CodeUnitRange[] = [];
+  const callables: CodeUnitRange[] = [];
+
+  for (let i = 0; i < codeLines.length; i++) {
+    const code = codeLines[i];
+    if (!hasCode(code)) continue;
+
+    const classHeader = matchHeader(syntax.classPatterns, code);
+    if (classHeader) {
+      const { end, braced } = findEnd(i);
+      if (end >= i && braced) {
+        classes.push({ kind: 'class', name: classHeader.name, startLine: i + 1, endLine: end + 1 });
+      }
+      continue;
+    }
+
+    let header = matchHeader(syntax.functionPatterns, code);
+    if (!header && syntax.methodPatterns) {
+      const inClassBody = classes.some(unit =>
+        i + 1 > unit.startLine && i + 1 <= unit.endLine &&
+        (syntax.blocks === 'indent' || depthAtStart[i] === depthAtStart[unit.startLine - 1] + 1)
+      );
+      const atTopLevel = syntax.methodsAtTopLevel && depthAtStart[i] === 0;
+      if (inClassBody || atTopLevel) {
+        header = matchHeader(syntax.methodPatterns, code);
+      }
+    }
+    if (!header) continue;
+
+    const { end, braced } = findEnd(i);
+    // Only arrow functions may have a statement body; other unbraced headers are declarations
+    if (end < i || (!braced && !codeLines.slice(i, end + 1).join('\n').includes('=>'))) continue;
+    callables.push({
+      kind: header.hasReceiver ? 'method' : 'function',
+      name: header.name,
+      startLine: i + 1,
+      endLine: end + 1
+    });
+  }
+
+  for (const unit of callables) {
+    if (classes.some(owner => unit.startLine > owner.startLine && unit.endLine <= owner.endLine)) {
+      unit.kind = 'method';
+    }
+  }
+
+  return [...classes, ...callables].sort((a, b) => a.startLine - b.startLine || b.endLine - a.endLine);
+}
+
+// Aggregates per-line verdicts into a verdict per unit
+export function scoreCodeUnits(ranges: CodeUnitRange[], lineAnalysis: ScoredLine[], uncertaintyBand: number): CodeUnit[] {
+  return ranges.map(range => {
+    const unitLines = lineAnalysis
+      .slice(range.startLine - 1, range.endLine)
+      .filter(line => line.content.trim());
+
+    const aiScore = unitLines.length > 0
+      ? unitLines.reduce((sum, line) => sum + line.aiProbability, 0) / unitLines.length
+      : 0.5;
+    const verdict = verdictFor(aiScore, unitLines.length > 0, uncertaintyBand);
+
+    // Weight each reason by how decisive its line was; undecided lines contribute nothing.
+    // Uncertain units still list the reasons they lean on
+    const leansAI = aiScore > 0.5;
+    const direction = leansAI ? 'ai' : 'human';
+    const reasonWeights = new Map<string, { message: string; weight: number }>();
+    for (const line of unitLines) {
+      const margin = leansAI ? line.aiProbability - 0.5 : 0.5 - line.aiProbability;
+      if (margin <= 0) continue;
+      for (const reason of line.reasons) {
+        if (reason.direction !== direction) continue;
+        const entry = reasonWeights.get(reason.ruleId) ?? { message: reason.message, weight: 0 };
+        entry.weight += margin;
+        reasonWeights.set(reason.ruleId, entry);
+      }
+    }
+
+    const reasons = [...reasonWeights.values()]
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, 3)
+      .map(({ message }) => message);
+
+    return {
+      ...range,
+      verdict,
+      isAI: verdict === 'ai',
+      aiScore,
+      confidence: Math.max(aiScore, 1 - aiScore),
+      aiLines: unitLines.filter(line => line.verdict === 'ai').length,
+      uncertainLines: unitLines.filter(line => line.verdict === 'uncertain').length,
+      totalLines: unitLines.length,
+      reasons
+    };
+  });
+}
@@ -0,0 +1,282 @@
+import type { TokenSpan } from './lexer';
+import { sigmoid } from './math';
+
+export type CommentKind = 'comment' | 'docstring';
+
+export interface CommentProseBlock {
+  kind: CommentKind;
+  // 1-based, inclusive
+  startLine: number;
+  endLine: number;
+  // Comment text with delimiters stripped and lines joined by spaces
+  text: string;
+  aiProbability: number;
+  reasons: string[];
+}
+
+export interface CommentProseFeatures {
+  // Template phrases ("This function…", "Note that…") per comment
+  templateRate: number;
+  // Share of sentences that start with a capital letter
+  capitalizationRate: number;
+  // Share of sentences that end with punctuation
+  punctuationRate: number;
+  meanSentenceLength: number;
+  // Formal hedges and filler ("potentially", "gracefully", "ensure") per 100 words
+  formalHedgeRate: number;
+  // Informal markers ("hack", "FIXME", "not sure", "???") per 100 words
+  informalMarkerRate: number;
+  // Mean share of a comment's content words that repeat identifiers of the code it describes
+  redundancy: number;
+}
+
+export interface CommentProseScore {
+  // Word-weighted AI probability over all prose comments
+  aiProbability: number;
+  confidence: number;
+  commentCount: number;
+  wordCount: number;
+  features: CommentProseFeatures;
+  comments: CommentProseBlock[];
+}
+
+interface ExtractedComment {
+  kind: CommentKind;
+  startLine: number;
+  endLine: number;
+  text: string;
+  // The code the comment describes: the next code line, or the signature above a docstring
+  code: string;
+}
+
+// Comments shorter than this are labels or commented-out code rather than prose
+const MIN_WORDS = 3;
+
+const TEMPLATE_PHRASES: { pattern: RegExp; reason: string }[] = [
+  { pattern: /^This (?:function|method|class|component|hook|module|file|script|code|helper|endpoint|route)\b/i, reason: "Opens with \"This function/class…\"" },
+  { pattern: /\bNote that\b|\bIt is important to\b|\bKeep in mind\b/i, reason: "Tutorial aside (\"Note that…\")" },
+  { pattern: /\bMake sure (?:to|that)\b|\bEnsures? that\b/i, reason: "\"Make sure / Ensure that…\" instruction" },
+  { pattern: /\bHelper (?:function|method) (?:to|that|for)\b/i, reason: "\"Helper function to…\" phrasing" },
+  { pattern: /\bfor (?:better|improved|enhanced) (?:readability|performance|maintainability|clarity)\b/i, reason: "Justifies code \"for better readability\"" },
+  { pattern: /\b(?:Let's|Let us|we will|we'll|you can|you'll|Here we)\b/i, reason: "Tutorial voice (\"Let's…\", \"Here we…\")" },
+  { pattern: /^(?:First|Next|Then|Finally|Now),/i, reason: "Step narration (\"First, …\", \"Finally, …\")" },
+  { pattern: /^\p{Extended_Pictographic}/u, reason: "Emoji header" }
+];
+
+const FORMAL_HEDGES = /\b(?:potentially|appropriately|accordingly|gracefully|seamlessly|efficiently|robust|comprehensive|ensure|ensures|utilize|utilizes|leverage|leverages|facilitate|respective|various|specified|corresponding)\b/gi;
+const INFORMAL_MARKERS = /\b(?:hack|hacky|todo|fixme|xxx|kludge|idk|dunno|ugh|lol|wtf|probably|maybe|i think|not sure|for now|good enough|whatever)\b|\?\?+|!!+/gi;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'this', 'that', 'from', 'into', 'are', 'was', 'will', 'its', 'has', 'have', 'not',
+  'but', 'all', 'any', 'can', 'each', 'use', 'used', 'uses', 'when', 'then', 'than', 'our', 'your', 'their', 'there'
+]);
+
+// Strips comment and docstring delimiters and decorative rules
+function stripDelimiters(text: string): string {
+  return text
+    .replace(/^\s*(?:\/\/+!?|#+!?|--|\/\*+!?|<!--|\*+(?!\/)|"""|''')\s?/, '')
+    .replace(/\s*(?:\*+\/|-->|"""|''')\s*$/, '')
+    .replace(/^[-=*#~_]{3,}$/, '')
+    .trim();
+}
+
+function spanText(line: string, spans: TokenSpan[], kind: TokenSpan['kind']): string {
+  return spans.filter(span => span.kind === kind).map(span => line.slice(span.start, span.end)).join(' ');
+}
+
+function hasCode(line: string, spans: TokenSpan[]): boolean {
+  return spans.some(span => span.kind === 'code' && line.slice(span.start, span.end).trim());
+}
+
+// Groups consecutive comment lines, and Python-style docstrings, into blocks of prose
+export function extractComments(lines: string[], lineSpans: TokenSpan[][]): ExtractedComment[] {
+  const blocks: ExtractedComment[] = [];
+  let current: { kind: CommentKind; startLine: number; endLine: number; parts: string[] } | null = null;
+  let inDocstring = false;
+
+  // Trailing comments describe the code on their own line
+  const close = (sameLineCode?: string) => {
+    if (!current) return;
+    const text = current.parts.filter(Boolean).join(' ').replace(/\s+/g, ' ').trim();
+    const neighbour = sameLineCode ?? (current.kind === 'docstring'
+      ? lines.slice(0, current.startLine - 1).reverse().find(line => line.trim())
+      : lines.slice(current.endLine).find((line, i) => line.trim() && hasCode(line, lineSpans[current!.endLine + i] ?? [])));
+    if (text) blocks.push({ kind: current.kind, startLine: current.startLine, endLine: current.endLine, text, code: neighbour ?? '' });
+    current = null;
+  };
+
+  lines.forEach((line, i) => {
+    const spans = lineSpans[i] ?? [];
+    const trimmed = line.trim();
+    // Blank lines inside a docstring don't end it
+    if (inDocstring && !trimmed) return;
+    // The lexer reports docstrings as comments, so only the opening quotes tell them apart
+    const commentOnly = trimmed !== '' && !hasCode(line, spans) && spans.some(span => span.kind === 'comment');
+    const startsDocstring = !inDocstring && commentOnly && /^(?:"""|''')/.test(trimmed);
+    let kind: CommentKind | null = null;
+    let text = '';
+
+    if (startsDocstring || (inDocstring && commentOnly)) {
+      kind = 'docstring';
+      text = spanText(line, spans, 'comment');
+      // A docstring stays open until a line holds its closing quotes (the opening line needs two sets)
+      const quotes = (trimmed.match(/"""|'''/g) ?? []).length;
+      inDocstring = startsDocstring ? quotes < 2 : quotes === 0;
+    } else {
+      inDocstring = false;
+      if (spans.some(span => span.kind === 'comment')) {
+        kind = 'comment';
+        text = spanText(line, spans, 'comment');
+      }
+    }
+
+    // Trailing comments after code are separate one-line blocks
+    const trailing = kind === 'comment' && hasCode(line, spans);
+    if (!kind || trailing || current?.kind !== kind) close();
+    if (!kind) return;
+
+    const stripped = text.split('\n').map(stripDelimiters).join(' ');
+    if (!current) current = { kind, startLine: i + 1, endLine: i + 1, parts: [] };
+    current.endLine = i + 1;
+    current.parts.push(stripped);
+    if (trailing) close(spanText(line, spans, 'code'));
+  });
+  close();
+
+  return blocks;
+}
+
+function words(text: string): string[] {
+  return text.match(/[A-Za-z][A-Za-z']*/g) ?? [];
+}
+
+function sentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+(?=[A-Z])/).map(sentence => sentence.trim()).filter(sentence => words(sentence).length > 0);
+}
+
+// Splits camelCase, PascalCase and snake_case identifiers into lowercase words
+function identifierWords(code: string): Set<string> {
+  const parts = (code.match(/[A-Za-z_$][\w$]*/g) ?? [])
+    .flatMap(identifier => identifier.split(/_|(?<=[a-z\d])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/))
+    .map(part => part.toLowerCase())
+    .filter(part => part.length >= 3);
+  return new Set(parts);
+}
+
+function stem(word: string): string {
+  return word.toLowerCase().replace(/(?:ing|ed|es|s)$/, '');
+}
+
+function redundancyOf(text: string, code: string): number {
+  const content = words(text).map(word => word.toLowerCase()).filter(word => word.length >= 3 && !STOPWORDS.has(word));
+  if (content.length === 0 || !code.trim()) return 0;
+  const codeStems = new Set([...identifierWords(code)].map(stem));
+  return content.filter(word => codeStems.has(stem(word))).length / content.length;
+}
+
+function countMatches(pattern: RegExp, text: string): number {
+  return (text.match(pattern) ?? []).length;
+}
+
+interface BlockFeatures {
+  wordCount: number;
+  templates: { reason: string }[];
+  sentenceCount: number;
+  capitalized: number;
+  punctuated: number;
+  meanSentenceLength: number;
+  formalHedges: number;
+  informalMarkers: number;
+  redundancy: number;
+}
+
+function blockFeatures(comment: ExtractedComment): BlockFeatures {
+  const sentenceList = sentences(comment.text);
+  const sentenceLengths = sentenceList.map(sentence => words(sentence).length);
+  return {
+    wordCount: words(comment.text).length,
+    templates: TEMPLATE_PHRASES.filter(({ pattern }) => sentenceList.some(sentence => pattern.test(sentence))),
+    sentenceCount: sentenceList.length,
+    capitalized: sentenceList.filter(sentence => /^[A-Z]/.test(sentence)).length,
+    punctuated: sentenceList.filter(sentence => /[.!?:]$/.test(sentence)).length,
+    meanSentenceLength: sentenceLengths.reduce((sum, length) => sum + length, 0) / Math.max(sentenceLengths.length, 1),
+    formalHedges: countMatches(FORMAL_HEDGES, comment.text),
+    informalMarkers: countMatches(INFORMAL_MARKERS, comment.text),
+    redundancy: redundancyOf(comment.text, comment.code)
+  };
+}
+
+// Log-odds weights for the block features; hand-set against the benchmark corpus comments
+const PROSE_BIAS = -0.4;
+const TEMPLATE_WEIGHT = 1.2;
+const CAPITALIZATION_WEIGHT = 1.0;
+const PUNCTUATION_WEIGHT = 0.4;
+const SENTENCE_LENGTH_WEIGHT = 0.08;
+const FORMAL_HEDGE_WEIGHT = 0.6;
+const INFORMAL_MARKER_WEIGHT = 1.5;
+const REDUNDANCY_WEIGHT = 2;
+
+function scoreBlock(comment: ExtractedComment, features: BlockFeatures): CommentProseBlock {
+  const reasons: string[] = features.templates.map(template => template.reason);
+  let logOdds = PROSE_BIAS + TEMPLATE_WEIGHT * Math.min(features.templates.length, 2);
+
+  const sentenceCount = Math.max(features.sentenceCount, 1);
+  const capitalization = features.capitalized / sentenceCount;
+  const punctuation = features.punctuated / sentenceCount;
+  logOdds += CAPITALIZATION_WEIGHT * (2 * capitalization - 1) + PUNCTUATION_WEIGHT * punctuation;
+  if (capitalization === 1 && punctuation === 1) reasons.push("Every sentence is capitalized and punctuated");
+  else if (capitalization === 1) reasons.push("Every sentence starts with a capital letter");
+  if (capitalization === 0) reasons.push("Lowercase fragments");
+
+  logOdds += SENTENCE_LENGTH_WEIGHT * Math.min(Math.max(features.meanSentenceLength - 6, -6), 10);
+
+  if (features.formalHedges > 0) {
+    logOdds += FORMAL_HEDGE_WEIGHT * Math.min(features.formalHedges, 3);
+    reasons.push(`Formal filler vocabulary (${features.formalHedges})`);
+  }
+  if (features.informalMarkers > 0) {
+    logOdds -= INFORMAL_MARKER_WEIGHT * Math.min(features.informalMarkers, 2);
+    reasons.push(`Informal markers (${features.informalMarkers})`);
+  }
+
+  logOdds += REDUNDANCY_WEIGHT * (features.redundancy - 0.25);
+  if (features.redundancy >= 0.5) reasons.push("Restates the identifiers of the code it describes");
+
+  return {
+    kind: comment.kind,
+    startLine: comment.startLine,
+    endLine: comment.endLine,
+    text: comment.text,
+    aiProbability: sigmoid(logOdds),
+    reasons
+  };
+}
+
+export function analyzeCommentProse(lines: string[], lineSpans: TokenSpan[][]): CommentProseScore | null {
+  const prose = extractComments(lines, lineSpans)
+    .map(comment => ({ comment, features: blockFeatures(comment) }))
+    .filter(({ features }) => features.wordCount >= MIN_WORDS);
+  if (prose.length === 0) return null;
+
+  const comments = prose.map(({ comment, features }) => scoreBlock(comment, features));
+  const wordCount = prose.reduce((sum, { features }) => sum + features.wordCount, 0);
+  const sentenceCount = prose.reduce((sum, { features }) => sum + features.sentenceCount, 0);
+  const aiProbability = comments.reduce((sum, block, i) => sum + block.aiProbability * prose[i].features.wordCount, 0) / wordCount;
+
+  return {
+    aiProbability,
+    confidence: Math.max(aiProbability, 1 - aiProbability),
+    commentCount: comments.length,
+    wordCount,
+    features: {
+      templateRate: prose.reduce((sum, { features }) => sum + features.templates.length, 0) / prose.length,
+      capitalizationRate: prose.reduce((sum, { features }) => sum + features.capitalized, 0) / Math.max(sentenceCount, 1),
+      punctuationRate: prose.reduce((sum, { features }) => sum + features.punctuated, 0) / Math.max(sentenceCount, 1),
+      meanSentenceLength: prose.reduce((sum, { features }) => sum + features.meanSentenceLength * features.sentenceCount, 0) / Math.max(sentenceCount, 1),
+      formalHedgeRate: (prose.reduce((sum, { features }) => sum + features.formalHedges, 0) / wordCount) * 100,
+      informalMarkerRate: (prose.reduce((sum, { features }) => sum + features.informalMarkers, 0) / wordCount) * 100,
+      redundancy: prose.reduce((sum, { features }) => sum + features.redundancy, 0) / prose.length
+    },
+    comments
+  };
+}
@@ -0,0 +1,74 @@
+import { sigmoid } from './math';
+import type { ReferenceCorpus } from './referenceCorpus';
+
+export interface CompressionScore {
+  // Mean normalized compression distance to the nearest AI- and human-written reference snippets (0 = identical)
+  aiDistance: number;
+  humanDistance: number;
+  aiProbability: number;
+  confidence: number;
+}
+
+// Distances are averaged over this many nearest snippets per class
+const NEAREST_SNIPPETS = 3;
+// Maps the distance gap (typically a few hundredths) onto a probability
+const DISTANCE_SCALE = 25;
+// Shorter texts compress too poorly for the distance to mean anything
+export const MIN_COMPRESSION_LENGTH = 120;
+
+export function compressionAvailable(): boolean {
+  return typeof CompressionStream !== 'undefined';
+}
+
+async function compressedSize(text: string): Promise<number> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate'));
+  return (await new Response(stream).arrayBuffer()).byteLength;
+}
+
+interface ReferenceSizes {
+  ai: { code: string; size: number }[];
+  human: { code: string; size: number }[];
+}
+
+const referenceCache = new WeakMap<ReferenceCorpus, Promise<ReferenceSizes>>();
+
+function referenceSizes(corpus: ReferenceCorpus): Promise<ReferenceSizes> {
+  let sizes = referenceCache.get(corpus);
+  if (!sizes) {
+    const measure = (snippets: ReferenceCorpus['ai']) =>
+      Promise.all(snippets.map(async ({ code }) => ({ code, size: await compressedSize(code) })));
+    sizes = Promise.all([measure(corpus.ai), measure(corpus.human)]).then(([ai, human]) => ({ ai, human }));
+    referenceCache.set(corpus, sizes);
+  }
+  return sizes;
+}
+
+// NCD(x, y) = (C(xy) - min(C(x), C(y))) / max(C(x), C(y))
+async function nearestDistance(text: string, textSize: number, references: { code: string; size: number }[]): Promise<number> {
+  const distances = await Promise.all(references.map(async reference => {
+    const combined = await compressedSize(`${text}\n${reference.code}`);
+    return (combined - Math.min(textSize, reference.size)) / Math.max(textSize, reference.size);
+  }));
+  const nearest = distances.sort((a, b) => a - b).slice(0, NEAREST_SNIPPETS);
+  return nearest.reduce((sum, distance) => sum + distance, 0) / Math.max(nearest.length, 1);
+}
+
+// Scores text by how much better it compresses alongside AI-written than human-written reference code
+export async function compressionScore(text: string, corpus: ReferenceCorpus): Promise<CompressionScore | null> {
+  if (!compressionAvailable() || text.trim().length < MIN_COMPRESSION_LENGTH) return null;
+  if (corpus.ai.length === 0 || corpus.human.length === 0) return null;
+
+  const [references, textSize] = await Promise.all([referenceSizes(corpus), compressedSize(text)]);
+  const [aiDistance, humanDistance] = await Promise.all([
+    nearestDistance(text, textSize, references.ai),
+    nearestDistance(text, textSize, references.human)
+  ]);
+
+  const aiProbability = sigmoid(DISTANCE_SCALE * (humanDistance - aiDistance));
+  return {
+    aiDistance,
+    humanDistance,
+    aiProbability,
+    confidence: Math.max(aiProbability, 1 - aiProbability)
+  };
+}
@@ -0,0 +1,149 @@
+import type { AnalysisOptions, LineReason, ScoreBreakdown } from './aiDetection';
+import type { TokenSpan } from './lexer';
+import { logit, sigmoid } from './math';
+
+// Everything a detector may look at; lines and spans are shared so detectors don't re-tokenize
+export interface DetectorInput {
+  code: string;
+  lines: string[];
+  language: string;
+  lineSpans: TokenSpan[][];
+  options: AnalysisOptions;
+}
+
+export interface DetectorLineScore {
+  aiProbability: number;
+  reasons?: LineReason[];
+  // Rule-weight breakdown, for detectors that have one
+  score?: ScoreBreakdown;
+}
+
+export interface DetectorOutput {
+  // Aligned with the input lines; null where the detector has no opinion
+  lines: (DetectorLineScore | null)[];
+  file: number | null;
+  // Set when the detector failed and abstained instead of voting
+  error?: string;
+}
+
+export interface Detector {
+  id: string;
+  // Default voting weight; AnalysisOptions.detectorWeights overrides it and 0 disables the detector
+  weight: number;
+  detect(input: DetectorInput): DetectorOutput | Promise<DetectorOutput>;
+}
+
+export interface DetectorContribution {
+  detectorId: string;
+  aiProbability: number;
+  // Weighted log-odds added to the combined score; positive points to AI
+  contribution: number;
+}
+
+export interface DetectorReport {
+  detectorId: string;
+  weight: number;
+  fileProbability: number | null;
+  // Weighted log-odds the detector added to the file score
+  fileContribution: number;
+  // The detector's share of all absolute weighted log-odds across line scores (0-1)
+  lineShare: number;
+  error?: string;
+}
+
+export interface CombinedLine {
+  // null when no detector had an opinion
+  aiProbability: number | null;
+  contributions: DetectorContribution[];
+  reasons: LineReason[];
+  score?: ScoreBreakdown;
+}
+
+export interface EnsembleResult {
+  lines: CombinedLine[];
+  fileProbability: number | null;
+  reports: DetectorReport[];
+}
+
+export interface WeightedOutput {
+  detector: Detector;
+  weight: number;
+  output: DetectorOutput;
+}
+
+export interface CombineOptions {
+  // Range the pooled line probability is clamped to
+  clamp?: { min: number; max: number };
+}
+
+// Weight each detector's resolved vote; options can re-weight or disable built-ins and add their own
+export function resolveDetectors(detectors: Detector[], weights: Record<string, number> = {}): { detector: Detector; weight: number }[] {
+  const seen = new Set<string>();
+  for (const detector of detectors) {
+    if (seen.has(detector.id)) {
+      throw new Error(`Duplicate detector id "${detector.id}"`);
+    }
+    seen.add(detector.id);
+  }
+
+  const unknown = Object.keys(weights).filter(id => !seen.has(id));
+  if (unknown.length > 0) {
+    throw new Error(`Detector weights reference unknown detector ids: ${unknown.join(', ')}`);
+  }
+
+  return detectors
+    .map(detector => ({ detector, weight: weights[detector.id] ?? detector.weight }))
+    .filter(({ weight }) => weight > 0);
+}
+
+// Weighted log-odds voting: every detector adds weight * logit(p), and the sum is mapped back to a probability
+export function combineDetectors(outputs: WeightedOutput[], lineCount: number, options: CombineOptions = {}): EnsembleResult {
+  const lineTotals = new Map<string, number>();
+  const lines: CombinedLine[] = [];
+
+  for (let i = 0; i < lineCount; i++) {
+    const contributions: DetectorContribution[] = [];
+    const reasons: LineReason[] = [];
+    let score: ScoreBreakdown | undefined;
+
+    for (const { detector, weight, output } of outputs) {
+      const line = output.lines[i];
+      if (!line) continue;
+      const contribution = weight * logit(line.aiProbability);
+      contributions.push({ detectorId: detector.id, aiProbability: line.aiProbability, contribution });
+      reasons.push(...(line.reasons ?? []));
+      score = score ?? line.score;
+      lineTotals.set(detector.id, (lineTotals.get(detector.id) ?? 0) + Math.abs(contribution));
+    }
+
+    let aiProbability: number | null = null;
+    if (contributions.length > 0) {
+      aiProbability = sigmoid(contributions.reduce((sum, entry) => sum + entry.contribution, 0));
+      if (options.clamp) aiProbability = Math.min(Math.max(aiProbability, options.clamp.min), options.clamp.max);
+    }
+
+    lines.push({
+      aiProbability,
+      contributions,
+      reasons,
+      score
+    });
+  }
+
+  const fileVotes = outputs.filter(({ output }) => output.file !== null);
+  const totalLineWeight = [...lineTotals.values()].reduce((sum, total) => sum + total, 0);
+  const reports: DetectorReport[] = outputs.map(({ detector, weight, output }) => ({
+    detectorId: detector.id,
+    weight,
+    fileProbability: output.file,
+    fileContribution: output.file !== null ? weight * logit(output.file) : 0,
+    lineShare: totalLineWeight > 0 ? (lineTotals.get(detector.id) ?? 0) / totalLineWeight : 0,
+    ...(output.error ? { error: output.error } : {})
+  }));
+
+  return {
+    lines,
+    fileProbability: fileVotes.length > 0 ? sigmoid(reports.reduce((sum, report) => sum + report.fileContribution, 0)) : null,
+    reports
+  };
+}
@@ -0,0 +1,373 @@
+import { maskLine } from './lexer';
+import type { CodeUnitRange } from './codeUnits';
+import type { TokenSpan } from './lexer';
+import { sigmoid } from './math';
+
+export type DocStyle = 'jsdoc' | 'javadoc' | 'docstring' | 'rustdoc' | 'godoc' | 'line';
+
+export interface FunctionDocumentation {
+  name: string;
+  // 1-based, inclusive; the function's own range
+  startLine: number;
+  endLine: number;
+  // Lines of the doc comment or docstring; null when the function is undocumented
+  docStartLine: number | null;
+  docEndLine: number | null;
+  style: DocStyle | null;
+  parameters: string[];
+  documentedParameters: string[];
+  returnsValue: boolean;
+  documentsReturn: boolean;
+  // Share of parameters and return value that are documented; null when there is nothing to document
+  coverage: number | null;
+  // Section layout of the doc (e.g. "summary,param,returns"), compared across functions
+  template: string | null;
+  aiProbability: number;
+  reasons: DocReason[];
+}
+
+export interface DocReason {
+  id: 'docs.full-coverage' | 'docs.partial-coverage' | 'docs.uniform-template';
+  // Log-odds added to the function's score; positive points to AI
+  contribution: number;
+  message: string;
+}
+
+export interface DocCompletenessScore {
+  aiProbability: number;
+  confidence: number;
+  functionCount: number;
+  documentedCount: number;
+  // Mean coverage over documented functions that have parameters or a return value
+  meanCoverage: number | null;
+  // Share of documented functions sharing the most common template and parameter phrasing (0-1)
+  uniformity: number | null;
+  reasons: string[];
+  functions: FunctionDocumentation[];
+}
+
+interface DocComment {
+  startLine: number;
+  endLine: number;
+  style: DocStyle;
+  text: string;
+}
+
+const DOCSTRING_LANGUAGES = new Set(['python']);
+const JSDOC_LANGUAGES = new Set(['javascript', 'jsx', 'typescript', 'tsx']);
+const LINE_DOC_LANGUAGES = new Set(['ruby']);
+// Doc conventions of these languages name parameters in prose rather than with tags
+const PROSE_PARAMETER_STYLES = new Set<DocStyle>(['rustdoc', 'godoc', 'line']);
+
+const TYPE_FIRST_LANGUAGES = new Set(['java', 'csharp', 'c', 'cpp']);
+// Type arguments in these languages nest commas inside angle brackets
+const GENERIC_LANGUAGES = new Set(['typescript', 'tsx', 'java', 'csharp', 'cpp', 'rust', 'kotlin', 'swift', 'scala']);
+const RECEIVER_NAMES = new Set(['self', 'cls', 'this']);
+const PARAMETER_MODIFIERS = /^(?:public|private|protected|readonly|override|final|const|mut|ref|out|in|val|var|vararg)\s+/;
+
+const TAG_PATTERN = /^@(\w+)/;
+const SECTION_PATTERNS: { section: string; pattern: RegExp }[] = [
+  { section: 'param', pattern: /^(?:Args|Arguments|Parameters|Params|# Arguments)\s*:?\s*$/i },
+  { section: 'returns', pattern: /^(?:Returns?|Yields?|# Returns)\s*:?\s*$/i },
+  { section: 'throws', pattern: /^(?:Raises|Throws|Errors|# Errors|# Panics)\s*:?\s*$/i },
+  { section: 'example', pattern: /^(?:Examples?|Usage|# Examples?)\s*:?\s*$/i }
+];
+
+function stripDocDelimiters(line: string): string {
+  return line
+    .replace(/^\s*(?:\/\*\*+|\/\/[/!]?|\*+(?!\/)|"""|''')\s?/, '')
+    .replace(/\s*(?:\*+\/|"""|''')\s*$/, '');
+}
+
+function isCommentOnly(line: string, spans: TokenSpan[]): boolean {
+  return line.trim() !== '' && spans.every(span => span.kind !== 'code' || !line.slice(span.start, span.end).trim());
+}
+
+function docStyleOf(opening: string, language: string): DocStyle {
+  if (/^(?:"""|''')/.test(opening)) return 'docstring';
+  if (opening.startsWith('/**')) return JSDOC_LANGUAGES.has(language) ? 'jsdoc' : 'javadoc';
+  if (/^\/\/[/!]/.test(opening)) return 'rustdoc';
+  return language === 'go' && opening.startsWith('//') ? 'godoc' : 'line';
+}
+
+// The comment block ending right above the header, skipping decorators and attributes
+function docAbove(lines: string[], lineSpans: TokenSpan[][], header: number, language: string): DocComment | null {
+  let end = header - 1;
+  while (end >= 0 && /^\s*(?:@\w|#\[)/.test(lines[end])) end--;
+  if (end < 0 || !isCommentOnly(lines[end], lineSpans[end] ?? [])) return null;
+
+  let start = end;
+  while (start > 0 && isCommentOnly(lines[start - 1], lineSpans[start - 1] ?? [])) start--;
+  const opening = lines[start].trim();
+  const style = docStyleOf(opening, language);
+  // Plain line comments only count as docs in languages whose convention they are
+  if (style === 'line' && !LINE_DOC_LANGUAGES.has(language)) return null;
+  if (opening.startsWith('/**') && !lines[end].trim().endsWith('*/')) return null;
+
+  return { startLine: start + 1, endLine: end + 1, style, text: lines.slice(start, end + 1).map(stripDocDelimiters).join('\n') };
+}
+
+// The docstring opening the body, on the first non-blank line after the signature
+function docstringBelow(lines: string[], lineSpans: TokenSpan[][], signatureEnd: number, unitEnd: number): DocComment | null {
+  let start = signatureEnd + 1;
+  while (start < unitEnd && !lines[start].trim()) start++;
+  if (start > unitEnd || !/^\s*(?:"""|''')/.test(lines[start]) || !isCommentOnly(lines[start], lineSpans[start] ?? [])) return null;
+
+  // Open until a line holds the closing quotes; a one-line docstring has both sets
+  const quotes = (text: string) => (text.match(/"""|'''/g) ?? []).length;
+  let end = start;
+  if (quotes(lines[start]) < 2) {
+    do end++; while (end < unitEnd && quotes(lines[end]) === 0);
+  }
+
+  return { startLine: start + 1, endLine: end + 1, style: 'docstring', text: lines.slice(start, end + 1).map(stripDocDelimiters).join('\n') };
+}
+
+// Parameter list of the unit: the parenthesised group after its name, which may span lines
+function signatureOf(codeLines: string[], unit: CodeUnitRange): { parameters: string; endIndex: number } {
+  const header = unit.startLine - 1;
+  const nameAt = codeLines[header].indexOf(unit.name);
+  let column = codeLines[header].indexOf('(', nameAt >= 0 ? nameAt + unit.name.length : 0);
+  if (column === -1) return { parameters: '', endIndex: header };
+
+  let parameters = '';
+  let depth = 0;
+  for (let line = header; line < Math.min(unit.endLine, codeLines.length); line++) {
+    const text = codeLines[line];
+    for (; column < text.length; column++) {
+      const char = text[column];
+      if (char === '(') depth++;
+      if (char === ')') depth--;
+      if (depth === 0) return { parameters: parameters.slice(1), endIndex: line };
+      parameters += char;
+    }
+    parameters += ' ';
+    column = 0;
+  }
+  return { parameters: parameters.slice(1), endIndex: header };
+}
+
+function splitTopLevel(text: string, language: string): string[] {
+  const generics = GENERIC_LANGUAGES.has(language);
+  const parts: string[] = [];
+  let depth = 0;
+  let angles = 0;
+  let current = '';
+  for (const char of text) {
+    const previous = current[current.length - 1] ?? '';
+    if ('([{'.includes(char)) depth++;
+    if (')]}'.includes(char)) depth--;
+    // `<` opens type arguments only right after a type name; `=>`, `->` and comparisons stay text
+    if (generics && char === '<' && /[\w$]/.test(previous)) angles++;
+    if (generics && char === '>' && angles > 0 && previous !== '=' && previous !== '-') angles--;
+    if (char === ',' && depth === 0 && angles === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+function parameterName(part: string, language: string): string | null {
+  const declaration = part
+    .replace(/@\w+(?:\([^)]*\))?\s*/g, '')
+    .replace(/=.*$/, '')
+    .replace(PARAMETER_MODIFIERS, '')
+    .replace(PARAMETER_MODIFIERS, '')
+    .trim();
+  // Destructured parameters have no single name to document
+  if (/^[{[]/.test(declaration)) return null;
+
+  // C-family declarations put the name last, annotated ones put it before the colon
+  let name: string | undefined;
+  if (TYPE_FIRST_LANGUAGES.has(language)) {
+    name = declaration.match(/[\w$]+(?:\s*\[\])?$/)?.[0];
+  } else if (declaration.includes(':')) {
+    name = declaration.split(':')[0].match(/[\w$]+\??$/)?.[0];
+  } else {
+    name = declaration.match(/^(?:\*{1,2}|\.{3}|&)?\s*(?:mut\s+)?([\w$]+)/)?.[1];
+  }
+  name = name?.replace(/[?\s[\]]/g, '');
+  return name && !RECEIVER_NAMES.has(name) ? name : null;
+}
+
+function returnsValue(codeLines: string[], unit: CodeUnitRange, language: string): boolean {
+  const body = codeLines.slice(unit.startLine - 1, unit.endLine).join('\n');
+  if (/\breturn\s+(?!;|$)[^\s;]/m.test(body) || (language === 'python' && /\byield\b/.test(body))) return true;
+  // Rust and Go declare results in the signature
+  if (language === 'rust') return /\)\s*->(?!\s*\(\))/.test(codeLines[unit.startLine - 1]);
+  if (language === 'go') return /\)\s*(?:\([^)]*\)|[\w*[\]]+)\s*\{?\s*$/.test(codeLines[unit.startLine - 1]);
+  return false;
+}
+
+function documentedParameters(doc: DocComment, parameters: string[]): string[] {
+  return parameters.filter(name => {
+    const escaped = name.replace(/\$/g, '\\$');
+    const tagged = new RegExp(`@param\\s+(?:\\{[^}]*\\}\\s+)?\\[?${escaped}\\b|:param\\s+(?:\\w+\\s+)?${escaped}:`).test(doc.text);
+    const listed = new RegExp(`^\\s*(?:[-*]\\s+)?\`?\\*{0,2}${escaped}\`?\\s*(?:\\([^)]*\\))?\\s*[:-]`, 'm').test(doc.text);
+    const mentioned = PROSE_PARAMETER_STYLES.has(doc.style) && new RegExp(`\`${escaped}\`|\\b${escaped}\\b`).test(doc.text);
+    return tagged || listed || mentioned;
+  });
+}
+
+function documentsReturn(doc: DocComment): boolean {
+  return /@returns?\b|:returns?:|^\s*(?:Returns?|Yields?|# Returns)\b/im.test(doc.text)
+    || (PROSE_PARAMETER_STYLES.has(doc.style) && /\breturns?\b/i.test(doc.text));
+}
+
+// Ordered, de-duplicated sections of the doc: summary, tags and headed sections
+function templateOf(doc: DocComment): string {
+  const sections: string[] = [];
+  for (const line of doc.text.split('\n').map(entry => entry.trim()).filter(Boolean)) {
+    const tag = line.match(TAG_PATTERN)?.[1].replace(/^return$/, 'returns');
+    const section = tag ?? SECTION_PATTERNS.find(({ pattern }) => pattern.test(line))?.section ?? (sections.length === 0 ? 'summary' : null);
+    if (section && sections[sections.length - 1] !== section) sections.push(section);
+  }
+  return sections.join(',');
+}
+
+// First word of each parameter description, e.g. "the" in `@param x - The value`
+function parameterOpeners(doc: DocComment, parameters: string[]): string[] {
+  return parameters.flatMap(name => {
+    const escaped = name.replace(/\$/g, '\\$');
+    const match = doc.text.match(new RegExp(`(?:@param\\s+(?:\\{[^}]*\\}\\s+)?\\[?${escaped}\\]?|^\\s*${escaped}\\s*(?:\\([^)]*\\))?\\s*:)\\s*(?:-\\s*)?(\\w+)`, 'm'));
+    return match ? [match[1].toLowerCase()] : [];
+  });
+}
+
+// The most frequent value and the share of values equal to it
+function mostCommon(values: string[]): { value: string; share: number } {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  const [value, count] = [...counts.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+  return { value, share: count / values.length };
+}
+
+// Log-odds weights; hand-set so that tagging every parameter of every function reads as AI
+const DOC_BIAS = -1;
+const DOCUMENTED_WEIGHT = 1.2;
+const COVERAGE_WEIGHT = 2;
+const UNIFORMITY_WEIGHT = 1.2;
+
+// Per-function verdict from its own coverage and whether it repeats the file's common layout
+function scoreFunction(entry: FunctionDocumentation, commonTemplate: string | null): void {
+  if (entry.coverage === null) return;
+  const items = entry.parameters.length + (entry.returnsValue ? 1 : 0);
+
+  if (entry.coverage === 1 && items >= 2) {
+    entry.reasons.push({
+      id: 'docs.full-coverage',
+      contribution: COVERAGE_WEIGHT / 2,
+      message: entry.returnsValue ? "Documents every parameter and the return value" : "Documents every parameter"
+    });
+  } else if (entry.coverage < 1) {
+    const missingReturn = entry.returnsValue && !entry.documentsReturn ? " and not the return value" : "";
+    entry.reasons.push({
+      id: 'docs.partial-coverage',
+      contribution: -COVERAGE_WEIGHT * (1 - entry.coverage) / 2,
+      message: `Documents ${entry.documentedParameters.length} of ${entry.parameters.length} parameters${missingReturn}`
+    });
+  }
+
+  // A summary-only doc is too common to count as a template
+  if (commonTemplate !== null && entry.template === commonTemplate && commonTemplate.includes(',')) {
+    entry.reasons.push({
+      id: 'docs.uniform-template',
+      contribution: UNIFORMITY_WEIGHT / 2,
+      message: `Same doc layout (${commonTemplate.split(',').join(', ')}) as other functions in the file`
+    });
+  }
+
+  entry.aiProbability = sigmoid(entry.reasons.reduce((sum, reason) => sum + reason.contribution, 0));
+}
+
+export function analyzeDocCompleteness(
+  lines: string[],
+  lineSpans: TokenSpan[][],
+  language: string,
+  units: CodeUnitRange[]
+): DocCompletenessScore | null {
+  const functionUnits = units.filter(unit => unit.kind !== 'class');
+  if (functionUnits.length === 0) return null;
+
+  const codeLines = lines.map((line, i) => maskLine(line, lineSpans[i] ?? [], ['code']));
+  const openers: string[] = [];
+  const functions = functionUnits.map((unit): FunctionDocumentation => {
+    const signature = signatureOf(codeLines, unit);
+    const parameters = [...new Set(
+      splitTopLevel(signature.parameters, language)
+        .map(part => parameterName(part, language))
+        .filter((name): name is string => name !== null)
+    )];
+    const doc = DOCSTRING_LANGUAGES.has(language)
+      ? docstringBelow(lines, lineSpans, signature.endIndex, unit.endLine - 1)
+      : docAbove(lines, lineSpans, unit.startLine - 1, language);
+    const hasReturn = returnsValue(codeLines, unit, language);
+    const documented = doc ? documentedParameters(doc, parameters) : [];
+    const returnDocumented = doc ? documentsReturn(doc) : false;
+    const items = parameters.length + (hasReturn ? 1 : 0);
+    if (doc) openers.push(...parameterOpeners(doc, parameters));
+
+    return {
+      name: unit.name,
+      startLine: unit.startLine,
+      endLine: unit.endLine,
+      docStartLine: doc?.startLine ?? null,
+      docEndLine: doc?.endLine ?? null,
+      style: doc?.style ?? null,
+      parameters,
+      documentedParameters: documented,
+      returnsValue: hasReturn,
+      documentsReturn: returnDocumented,
+      coverage: doc && items > 0 ? (documented.length + (hasReturn && returnDocumented ? 1 : 0)) / items : null,
+      template: doc ? templateOf(doc) : null,
+      aiProbability: 0.5,
+      reasons: []
+    };
+  });
+
+  const documented = functions.filter(entry => entry.style !== null);
+  const covered = documented.filter(entry => entry.coverage !== null);
+  const meanCoverage = covered.length > 0 ? covered.reduce((sum, entry) => sum + entry.coverage!, 0) / covered.length : null;
+
+  // Templates need three documented functions to call one common, phrasing needs three parameter descriptions
+  const templates = documented.map(entry => entry.template!);
+  const commonTemplate = templates.length >= 3 ? mostCommon(templates) : null;
+  const commonOpener = openers.length >= 3 ? mostCommon(openers) : null;
+  const uniformityParts = [commonTemplate, commonOpener].filter(part => part !== null).map(part => part!.share);
+  const uniformity = uniformityParts.length > 0 ? uniformityParts.reduce((sum, part) => sum + part, 0) / uniformityParts.length : null;
+
+  for (const entry of functions) {
+    scoreFunction(entry, commonTemplate && commonTemplate.share > 0.5 ? commonTemplate.value : null);
+  }
+
+  const reasons: string[] = [];
+  let logOdds = DOC_BIAS + DOCUMENTED_WEIGHT * (documented.length / functions.length);
+  if (documented.length > 0) reasons.push(`${documented.length} of ${functions.length} functions documented`);
+  if (meanCoverage !== null) {
+    logOdds += COVERAGE_WEIGHT * (meanCoverage - 0.5);
+    if (meanCoverage === 1) reasons.push("Every documented function covers all of its parameters and return value");
+    else if (meanCoverage < 0.5) reasons.push("Documents parameters selectively");
+  }
+  if (uniformity !== null) {
+    logOdds += UNIFORMITY_WEIGHT * (uniformity - 0.5);
+    if (uniformity >= 0.8) reasons.push(commonOpener && commonOpener.share >= 0.8
+      ? `Parameter descriptions share one phrasing ("${commonOpener.value} …")`
+      : "Doc comments follow one template");
+  }
+  const aiProbability = sigmoid(logOdds);
+
+  return {
+    aiProbability,
+    confidence: Math.max(aiProbability, 1 - aiProbability),
+    functionCount: functions.length,
+    documentedCount: documented.length,
+    meanCoverage,
+    uniformity,
+    reasons,
+    functions
+  };
+}
@@ -0,0 +1,134 @@
+import type { AnalysisResult } from './aiDetection';
+
+export type AuthorshipLabel = 'ai' | 'human';
+
+// 1-based, inclusive line range
+export type LineRange = [number, number];
+
+export interface CorpusEntry {
+  // Path relative to the corpus directory
+  path: string;
+  language: string;
+  label: AuthorshipLabel;
+  // Optional per-line labels; lines not covered by a range inherit the file label
+  lines?: Partial<Record<AuthorshipLabel, LineRange[]>>;
+}
+
+export interface CorpusManifest {
+  files: CorpusEntry[];
+}
+
+export interface ScoredSample {
+  // Predicted probability that the sample is AI-written
+  score: number;
+  label: AuthorshipLabel;
+}
+
+export interface ConfusionMatrix {
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+}
+
+export interface BinaryMetrics {
+  support: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  rocAuc: number;
+  confusionMatrix: ConfusionMatrix;
+}
+
+export interface EvaluationReport {
+  corpusSize: number;
+  line: BinaryMetrics;
+  file: BinaryMetrics;
+}
+
+export type MetricsDiff = Record<'precision' | 'recall' | 'f1' | 'rocAuc', { baseline: number; current: number; delta: number }>;
+
+export function lineLabelsFor(entry: CorpusEntry, lineCount: number): AuthorshipLabel[] {
+  const labels: AuthorshipLabel[] = Array(lineCount).fill(entry.label);
+  for (const label of ['ai', 'human'] as AuthorshipLabel[]) {
+    for (const [start, end] of entry.lines?.[label] ?? []) {
+      for (let line = Math.max(start, 1); line <= Math.min(end, lineCount); line++) {
+        labels[line - 1] = label;
+      }
+    }
+  }
+  return labels;
+}
+
+// Pairs every non-empty analyzed line with its ground-truth label
+export function lineSamples(entry: CorpusEntry, analysis: AnalysisResult): ScoredSample[] {
+  const labels = lineLabelsFor(entry, analysis.lineAnalysis.length);
+  return analysis.lineAnalysis
+    .map((line, i) => ({ line, label: labels[i] }))
+    .filter(({ line }) => line.content.trim())
+    .map(({ line, label }) => ({ score: line.aiProbability, label }));
+}
+
+export function fileSample(entry: CorpusEntry, analysis: AnalysisResult): ScoredSample {
+  return { score: analysis.aiPercentage / 100, label: entry.label };
+}
+
+// Scores must exceed the threshold to count as AI, so undecided lines (exactly 0.5) are not called AI
+export function confusionMatrix(samples: ScoredSample[], threshold: number): ConfusionMatrix {
+  const matrix: ConfusionMatrix = { truePositives: 0, falsePositives: 0, trueNegatives: 0, falseNegatives: 0 };
+  for (const { score, label } of samples) {
+    const predictedAI = score > threshold;
+    if (predictedAI && label === 'ai') matrix.truePositives++;
+    else if (predictedAI) matrix.falsePositives++;
+    else if (label === 'human') matrix.trueNegatives++;
+    else matrix.falseNegatives++;
+  }
+  return matrix;
+}
+
+// Mann-Whitney formulation: probability that a random AI sample outscores a random human one (ties count half)
+export function rocAuc(samples: ScoredSample[]): number {
+  const sorted = [...samples].sort((a, b) => a.score - b.score);
+  const positives = sorted.filter(sample => sample.label === 'ai').length;
+  const negatives = sorted.length - positives;
+  if (positives === 0 || negatives === 0) return 0.5;
+
+  let rankSum = 0;
+  let i = 0;
+  while (i < sorted.length) {
+    let j = i;
+    while (j + 1 < sorted.length && sorted[j + 1].score === sorted[i].score) j++;
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) {
+      if (sorted[k].label === 'ai') rankSum += averageRank;
+    }
+    i = j + 1;
+  }
+
+  return (rankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+}
+
+export function computeMetrics(samples: ScoredSample[], threshold = 0.5): BinaryMetrics {
+  const matrix = confusionMatrix(samples, threshold);
+  const predictedPositives = matrix.truePositives + matrix.falsePositives;
+  const actualPositives = matrix.truePositives + matrix.falseNegatives;
+  const precision = predictedPositives > 0 ? matrix.truePositives / predictedPositives : 0;
+  const recall = actualPositives > 0 ? matrix.truePositives / actualPositives : 0;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+
+  return {
+    support: samples.length,
+    precision,
+    recall,
+    f1,
+    rocAuc: rocAuc(samples),
+    confusionMatrix: matrix
+  };
+}
+
+export function diffMetrics(current: BinaryMetrics, baseline: BinaryMetrics): MetricsDiff {
+  const keys = ['precision', 'recall', 'f1', 'rocAuc'] as const;
+  return Object.fromEntries(
+    keys.map(key => [key, { baseline: baseline[key], current: current[key], delta: current[key] - baseline[key] }])
+  ) as MetricsDiff;
+}
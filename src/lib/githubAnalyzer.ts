@@ -1,9 +1,14 @@
-import { analyzeCode } from './aiDetection';
-import type { AnalysisResult, LineAnalysis } from './aiDetection';
+import { analyzeCode, attributeRepository, rankTools } from './aiDetection';
+import type { AnalysisOptions, AnalysisResult, LineAnalysis, ToolCandidate, ToolEvidence } from './aiDetection';
+import { detectLanguage, LANGUAGE_DETECTION_THRESHOLD } from './languageDetection';
+import type { LanguageDetection } from './languageDetection';
+import { getExtension, getLanguageFromPath, LANGUAGES } from './languages';
 
 export interface FileAnalysis {
   path: string;
   language: string;
+  // Set for extensionless files, whose language is detected from their content
+  languageDetection?: LanguageDetection;
   analysis: AnalysisResult;
   size: number;
 }
@@ -15,12 +20,16 @@ export interface RepositoryAnalysis {
   files: FileAnalysis[];
   isLovableGenerated: boolean;
   lovableIndicators: string[];
+  // Assistants ranked by signatures across all files plus commit and path evidence
+  attribution: ToolCandidate[];
   overallStats: {
     totalLines: number;
     aiLines: number;
     humanLines: number;
+    uncertainLines: number;
     aiPercentage: number;
     humanPercentage: number;
+    uncertainPercentage: number;
     overallConfidence: number;
   };
 }
@@ -33,51 +42,24 @@ interface GitHubFile {
   size: number;
 }
 
-// Language detection based on file extensions
-const LANGUAGE_MAP: Record<string, string> = {
-  '.js': 'javascript',
-  '.jsx': 'jsx',
-  '.ts': 'typescript',
-  '.tsx': 'tsx',
-  '.py': 'python',
-  '.java': 'java',
-  '.cpp': 'cpp',
-  '.cc': 'cpp',
-  '.cxx': 'cpp',
-  '.c++': 'cpp',
-  '.cs': 'csharp',
-  '.go': 'go',
-  '.rs': 'rust',
-  '.php': 'php',
-  '.rb': 'ruby',
-  '.swift': 'swift',
-  '.kt': 'kotlin',
-  '.scala': 'scala',
-  '.sh': 'bash',
-  '.sql': 'sql',
-  '.html': 'html',
-  '.css': 'css',
-  '.scss': 'scss',
-  '.sass': 'sass',
-  '.json': 'json',
-  '.yaml': 'yaml',
-  '.yml': 'yaml',
-  '.xml': 'xml',
-  '.md': 'markdown'
-};
+// Only analyze code files
+const CODE_EXTENSIONS = ['.js', '.jsx', '.ts', '.tsx', '.py', '.java', '.c', '.h', '.cpp', '.cc', '.cxx', '.c++', '.hpp', '.hh', '.hxx', '.cs', '.go', '.rs', '.php', '.rb', '.swift', '.kt', '.scala', '.sh', '.sql', '.vue', '.svelte'];
 
-function getLanguageFromPath(filePath: string): string {
-  const ext = filePath.toLowerCase().match(/\.[^.]*$/)?.[0];
-  return ext ? LANGUAGE_MAP[ext] || 'text' : 'text';
+// Extensionless files that are documentation or metadata rather than scripts
+const EXTENSIONLESS_NON_CODE = /(?:^|\/)(?:LICEN[CS]E|README|CHANGELOG|CHANGES|AUTHORS|CONTRIBUTORS|CONTRIBUTING|NOTICE|COPYING|CODEOWNERS|VERSION|Dockerfile|Makefile|Procfile)$/i;
+
+function isCodeLanguage(language: string): boolean {
+  return LANGUAGES[language]?.extensions.some(ext => CODE_EXTENSIONS.includes(ext)) ?? false;
 }
 
 function shouldAnalyzeFile(filePath: string): boolean {
-  const ext = filePath.toLowerCase().match(/\.[^.]*$/)?.[0];
-  if (!ext) return false;
-  
-  // Only analyze code files
-  const codeExtensions = ['.js', '.jsx', '.ts', '.tsx', '.py', '.java', '.cpp', '.cc', '.cxx', '.c++', '.cs', '.go', '.rs', '.php', '.rb', '.swift', '.kt', '.scala', '.vue', '.svelte'];
-  if (!codeExtensions.includes(ext)) return false;
+  const ext = getExtension(filePath);
+  // Extensionless files are kept until their content is seen; the language is detected then
+  if (!ext) {
+    if (EXTENSIONLESS_NON_CODE.test(filePath)) return false;
+  } else if (!CODE_EXTENSIONS.includes(ext)) {
+    return false;
+  }
   
   // Skip framework-provided and generated files
   const excludePatterns = [
@@ -384,7 +366,8 @@ async function getAllFiles(owner: string, repo: string, path: string = '', maxDe
 
 export async function analyzeGitHubRepository(
   repositoryUrl: string,
-  onProgress?: (current: number, total: number, currentFile: string) => void
+  onProgress?: (current: number, total: number, currentFile: string) => void,
+  options: AnalysisOptions = {}
 ): Promise<RepositoryAnalysis> {
   // Parse GitHub URL
   const urlMatch = repositoryUrl.match(/github\.com\/([^\/]+)\/([^\/]+)/);
@@ -428,6 +411,7 @@ export async function analyzeGitHubRepository(
   let totalLines = 0;
   let totalAiLines = 0;
   let totalHumanLines = 0;
+  let totalUncertainLines = 0;
   let totalConfidence = 0;
   let analyzedCount = 0;
   
@@ -438,16 +422,21 @@ export async function analyzeGitHubRepository(
     
     try {
       const content = await fetchFileContent(file.download_url!);
-      const language = getLanguageFromPath(file.path);
       
       // Skip empty files
       if (!content.trim()) continue;
       
-      const analysis = await analyzeCode(content, language);
+      // Extensionless files are analyzed only when their content identifies a code language
+      const languageDetection = getExtension(file.path) ? undefined : detectLanguage(content);
+      if (languageDetection && (!languageDetection.language || languageDetection.confidence < LANGUAGE_DETECTION_THRESHOLD || !isCodeLanguage(languageDetection.language))) continue;
+      const language = languageDetection?.language ?? getLanguageFromPath(file.path);
+      
+      const analysis = await analyzeCode(content, language, options);
       
       fileAnalyses.push({
         path: file.path,
         language,
+        ...(languageDetection ? { languageDetection } : {}),
         analysis,
         size: file.size || 0
       });
@@ -455,6 +444,7 @@ export async function analyzeGitHubRepository(
       totalLines += analysis.totalLines;
       totalAiLines += analysis.aiLines;
       totalHumanLines += analysis.humanLines;
+      totalUncertainLines += analysis.uncertainLines;
       totalConfidence += analysis.overallConfidence;
       analyzedCount++;
       
@@ -466,12 +456,36 @@ export async function analyzeGitHubRepository(
   // Detect if repository was generated by Lovable
   const lovableDetection = await detectLovableGeneration(metadata, commits, allFiles, owner, repo);
   
+  // Rank likely generators from every file's line evidence plus repository-level signals
+  const evidence: ToolEvidence[] = fileAnalyses.flatMap(file =>
+    file.analysis.lineAnalysis.flatMap(line => line.attribution.flatMap(candidate =>
+      candidate.evidence.map(entry => ({ ...entry, path: file.path }))
+    ))
+  );
+  evidence.push(...attributeRepository(
+    allFiles.map(file => file.path),
+    commits.map(commit => ({
+      author: commit.author?.login ?? commit.commit?.author?.name,
+      message: commit.commit?.message
+    }))
+  ));
+  if (lovableDetection.isLovable) {
+    evidence.push({
+      signatureId: 'lovable.repository-indicators',
+      tool: 'lovable',
+      weight: 2,
+      reason: lovableDetection.indicators.join('; ')
+    });
+  }
+  
   const overallStats = {
     totalLines,
     aiLines: totalAiLines,
     humanLines: totalHumanLines,
+    uncertainLines: totalUncertainLines,
     aiPercentage: totalLines > 0 ? (totalAiLines / totalLines) * 100 : 0,
     humanPercentage: totalLines > 0 ? (totalHumanLines / totalLines) * 100 : 0,
+    uncertainPercentage: totalLines > 0 ? (totalUncertainLines / totalLines) * 100 : 0,
     overallConfidence: analyzedCount > 0 ? totalConfidence / analyzedCount : 0
   };
   
@@ -482,6 +496,7 @@ export async function analyzeGitHubRepository(
     files: fileAnalyses,
     isLovableGenerated: lovableDetection.isLovable,
     lovableIndicators: lovableDetection.indicators,
+    attribution: rankTools(evidence),
     overallStats
   };
 }
\ No newline at end of file
@@ -0,0 +1,289 @@
+import { LANGUAGES } from './languages';
+
+export interface LanguageGuess {
+  language: string;
+  // Share of the evidence pointing to this language (0-1)
+  confidence: number;
+}
+
+export interface LanguageDetection {
+  // null when nothing identified the language
+  language: string | null;
+  confidence: number;
+  // How the language was identified: an editor modeline, the shebang or the code itself
+  source: 'modeline' | 'shebang' | 'content' | null;
+  // Best content-based guesses, most likely first
+  candidates: LanguageGuess[];
+}
+
+interface LanguageSignal {
+  pattern: RegExp;
+  weight: number;
+}
+
+// Below this the detection is reported but not acted on (pre-selection, repository files)
+export const LANGUAGE_DETECTION_THRESHOLD = 0.6;
+
+// Content evidence needed before a language is named at all
+const MIN_SCORE = 3;
+// Repeats of one signal stop adding evidence after this many matches
+const MAX_MATCHES = 3;
+
+// Names used by modelines and shebang interpreters, mapped to language ids
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript', node: 'javascript', nodejs: 'javascript', javascript: 'javascript',
+  ts: 'typescript', typescript: 'typescript', deno: 'typescript', 'ts-node': 'typescript', tsx: 'typescript',
+  py: 'python', python: 'python', python2: 'python', python3: 'python',
+  rb: 'ruby', ruby: 'ruby', php: 'php',
+  sh: 'bash', bash: 'bash', zsh: 'bash', ksh: 'bash', dash: 'bash', shell: 'bash',
+  c: 'c', 'c++': 'cpp', cpp: 'cpp', cs: 'csharp', csharp: 'csharp', go: 'go', rust: 'rust', rs: 'rust',
+  java: 'java', kotlin: 'kotlin', kt: 'kotlin', scala: 'scala', swift: 'swift', sql: 'sql',
+  html: 'html', css: 'css', scss: 'scss', sass: 'sass', json: 'json', yaml: 'yaml', yml: 'yaml',
+  xml: 'xml', markdown: 'markdown', md: 'markdown'
+};
+
+// Signals per language family; JavaScript, CSS and C variants are told apart afterwards
+const LANGUAGE_SIGNALS: Record<string, LanguageSignal[]> = {
+  javascript: [
+    { pattern: /\b(?:const|let|var)\s+[\w$]+\s*=/g, weight: 1 },
+    { pattern: /=>/g, weight: 0.75 },
+    { pattern: /\bfunction\s*\*?\s*[\w$]*\s*(?:<[^>]*>)?\s*\(/g, weight: 1.5 },
+    { pattern: /\bconsole\.\w+\(/g, weight: 2 },
+    { pattern: /^\s*(?:import\s+[^;]*?\s+from\s+['"]|export\s+(?:default|const|function|class|interface|type)\b)|\brequire\(['"]|\bmodule\.exports\b/gm, weight: 2.5 },
+    { pattern: /[!=]==/g, weight: 1.5 },
+    { pattern: /\b(?:document|window|JSON|Promise)\.\w+/g, weight: 1.5 },
+    { pattern: /\bawait\s+fetch\(|\.then\(/g, weight: 1 }
+  ],
+  python: [
+    { pattern: /^\s*(?:async\s+)?def\s+\w+\s*\(.*\)\s*(?:->\s*[^:]+)?:\s*$/gm, weight: 3 },
+    { pattern: /^\s*(?:from\s+[\w.]+\s+import\s+[\w*, ()]+|import\s+[\w.]+(?:\s+as\s+\w+)?)\s*$/gm, weight: 1.5 },
+    { pattern: /^\s*(?:if|elif|else|for|while|try|except|finally|with|class)\b[^{;]*:\s*$/gm, weight: 1.5 },
+    { pattern: /\bself\.\w+/g, weight: 1.5 },
+    { pattern: /\b(?:None|True|False)\b/g, weight: 1 },
+    { pattern: /__name__|__init__|\belif\b|\bexcept\b/g, weight: 3 },
+    { pattern: /^\s*"""|'''/gm, weight: 1 },
+    { pattern: /\bprint\(/g, weight: 0.5 },
+    { pattern: /\b(?:range|len|enumerate|isinstance|zip)\(/g, weight: 1.5 }
+  ],
+  java: [
+    { pattern: /\bpublic\s+(?:static\s+)?(?:final\s+)?(?:class|interface|enum|void|int|boolean|String)\b/g, weight: 2 },
+    { pattern: /\bSystem\.(?:out|err)\.print/g, weight: 3 },
+    { pattern: /^\s*import\s+(?:static\s+)?[\w.]+(?:\.\*)?;/gm, weight: 2 },
+    { pattern: /^\s*package\s+[\w.]+;/gm, weight: 3 },
+    { pattern: /\bString\[\]|@Override\b|\bthrows\s+\w+/g, weight: 2 },
+    { pattern: /\bprivate\s+(?:static\s+)?final\b/g, weight: 1.5 }
+  ],
+  csharp: [
+    { pattern: /^\s*using\s+System\b/gm, weight: 3 },
+    { pattern: /^\s*using\s+(?!namespace\b)[\w.]+;/gm, weight: 1.5 },
+    { pattern: /\{\s*get;\s*(?:private\s+)?set;\s*\}/g, weight: 3 },
+    { pattern: /\bConsole\.Write(?:Line)?\(/g, weight: 3 },
+    { pattern: /\basync\s+Task\b|\bstring\[\]\s+args\b/g, weight: 3 },
+    { pattern: /^\s*namespace\s+[\w.]+\s*[{;]?\s*$/gm, weight: 1 },
+    { pattern: /\bvar\s+\w+\s*=\s*new\b/g, weight: 1 }
+  ],
+  cpp: [
+    { pattern: /^\s*#include\s*[<"]/gm, weight: 3 },
+    { pattern: /\bstd::/g, weight: 3 },
+    { pattern: /\bcout\s*<<|\bcin\s*>>/g, weight: 3 },
+    { pattern: /\btemplate\s*</g, weight: 2 },
+    { pattern: /\bnullptr\b|^\s*using\s+namespace\b/gm, weight: 3 },
+    { pattern: /\bint\s+main\s*\(/g, weight: 2 },
+    { pattern: /\w::\w+\s*\(/g, weight: 1 },
+    { pattern: /\b(?:printf|fprintf|malloc|calloc|free|memcpy|strcmp)\s*\(|\bNULL\b/g, weight: 1.5 }
+  ],
+  go: [
+    { pattern: /^\s*package\s+\w+\s*$/gm, weight: 3 },
+    { pattern: /\bfunc\s+(?:\([^)]*\)\s*)?\w+\s*\(/g, weight: 3 },
+    { pattern: /:=/g, weight: 1.5 },
+    { pattern: /\bfmt\.\w+/g, weight: 3 },
+    { pattern: /\berr\s*!=\s*nil\b/g, weight: 3 },
+    { pattern: /^\s*import\s*\(\s*$/gm, weight: 2 },
+    { pattern: /\bchan\b|\bgo\s+func\b|\bdefer\b/g, weight: 1.5 }
+  ],
+  rust: [
+    { pattern: /\bfn\s+\w+\s*(?:<[^>]*>)?\s*\(/g, weight: 2.5 },
+    { pattern: /\blet\s+mut\b/g, weight: 3 },
+    { pattern: /^\s*impl\b/gm, weight: 1.5 },
+    { pattern: /\bpub\s+(?:fn|struct|enum|mod|trait|crate)\b/g, weight: 2.5 },
+    { pattern: /^\s*use\s+\w+(?:::[\w{}*, ]+)+;/gm, weight: 2 },
+    { pattern: /\b(?:println|format|vec|panic)!/g, weight: 3 },
+    { pattern: /&mut\b|&self\b|\bSome\(|\bOk\(/g, weight: 2 }
+  ],
+  php: [
+    { pattern: /<\?php/g, weight: 6 },
+    { pattern: /^\s*\$\w+\s*=/gm, weight: 1.5 },
+    { pattern: /\$this->/g, weight: 3 },
+    { pattern: /\bfunction\s+\w+\s*\(\s*(?:\??\w+\s+)?\$/g, weight: 3 },
+    { pattern: /^\s*(?:namespace|use)\s+[\w\\]+;/gm, weight: 2 }
+  ],
+  ruby: [
+    { pattern: /^\s*def\s+(?:self\.)?\w+[?!=]?(?:\(.*\))?\s*$/gm, weight: 2 },
+    { pattern: /^\s*end\s*$/gm, weight: 2 },
+    { pattern: /^\s*require(?:_relative)?\s+['"]/gm, weight: 3 },
+    { pattern: /^\s*puts\b|\battr_(?:accessor|reader|writer)\b/gm, weight: 3 },
+    { pattern: /\bdo\s*\|[\w,\s]+\|/g, weight: 2.5 },
+    { pattern: /\bnil\b|\bunless\b|\belsif\b/g, weight: 1.5 },
+    { pattern: /^\s*@\w+\s*=/gm, weight: 1 }
+  ],
+  swift: [
+    { pattern: /^\s*import\s+(?:UIKit|SwiftUI|Foundation|Combine)\s*$/gm, weight: 4 },
+    { pattern: /\b(?:guard|if)\s+let\b/g, weight: 3 },
+    { pattern: /\bfunc\s+\w+\s*(?:<[^>]*>)?\s*\([^)]*\)\s*(?:throws\s*)?(?:->\s*[\w[\]?<>]+\s*)?\{/g, weight: 1.5 },
+    { pattern: /@State\b|@Published\b|\bsome\s+View\b|\boverride\s+func\b/g, weight: 3 },
+    { pattern: /\bstruct\s+\w+\s*:\s*\w+/g, weight: 1.5 },
+    { pattern: /\blet\s+\w+\s*:\s*[\w[\]?]+\s*=/g, weight: 1 }
+  ],
+  kotlin: [
+    { pattern: /\bfun\s+(?:<[^>]*>\s*)?[\w.]+\s*\(/g, weight: 3 },
+    { pattern: /\bval\s+\w+/g, weight: 1.5 },
+    { pattern: /\bdata\s+class\b|\bcompanion\s+object\b/g, weight: 3 },
+    { pattern: /\bwhen\s*(?:\(.*\))?\s*\{/g, weight: 1.5 },
+    { pattern: /^\s*package\s+[\w.]+\s*$/gm, weight: 1 },
+    { pattern: /\bprintln\(/g, weight: 1 }
+  ],
+  scala: [
+    { pattern: /\bdef\s+\w+\s*(?:\[[^\]]*\])?\s*(?:\(.*\))?\s*(?::\s*[\w[\], ]+)?\s*=/g, weight: 3 },
+    { pattern: /\bobject\s+\w+|\bcase\s+class\b/g, weight: 2.5 },
+    { pattern: /\bextends\s+App\b|\bimplicit\b|\btrait\s+\w+/g, weight: 2 },
+    { pattern: /\bmatch\s*\{/g, weight: 1.5 },
+    { pattern: /\bval\s+\w+/g, weight: 1 }
+  ],
+  bash: [
+    { pattern: /^\s*(?:if|while|for|until)\b.*;\s*(?:then|do)\s*$/gm, weight: 3 },
+    { pattern: /^\s*(?:fi|done|esac|then|do)\s*$/gm, weight: 3 },
+    { pattern: /^\s*(?:export|local|readonly|declare)\s+\w+(?:=|\s*$)/gm, weight: 2.5 },
+    { pattern: /^\s*\w+=\S/gm, weight: 1.5 },
+    { pattern: /\$\(|\[\[.*\]\]|\$\{\w+/g, weight: 2 },
+    { pattern: /\|\s*(?:grep|awk|sed|xargs|sort|uniq|wc|cut|tr)\b|2>&1|>\s*\/dev\/null/g, weight: 2 },
+    { pattern: /^\s*echo\s+/gm, weight: 1 }
+  ],
+  sql: [
+    { pattern: /^\s*(?:SELECT|INSERT\s+INTO|UPDATE|DELETE\s+FROM|CREATE\s+(?:TABLE|INDEX|VIEW|OR\s+REPLACE)|ALTER\s+TABLE|DROP\s+TABLE|WITH\s+\w+\s+AS)\b/gim, weight: 3 },
+    { pattern: /\b(?:FROM|WHERE|JOIN|GROUP\s+BY|ORDER\s+BY|HAVING|LIMIT)\b/g, weight: 1.5 },
+    { pattern: /\b(?:VARCHAR|INTEGER|PRIMARY\s+KEY|NOT\s+NULL|FOREIGN\s+KEY|REFERENCES)\b/gi, weight: 3 }
+  ],
+  html: [
+    { pattern: /<!DOCTYPE\s+html/gi, weight: 6 },
+    { pattern: /<(?:html|head|body|div|span|p|a|ul|li|script|link|meta|title|section|nav|footer)\b[^>]*>/g, weight: 1.5 },
+    { pattern: /<\/\w+>/g, weight: 1 }
+  ],
+  xml: [
+    { pattern: /^\s*<\?xml\b/g, weight: 6 },
+    { pattern: /\bxmlns(?::\w+)?=/g, weight: 2 },
+    { pattern: /<\/?\w+:\w+/g, weight: 1.5 },
+    { pattern: /<\/[\w.-]+>/g, weight: 0.5 }
+  ],
+  css: [
+    { pattern: /^\s*[.#@:\w-][\w\s.#:,>+~()*-]*\{\s*$/gm, weight: 1.5 },
+    { pattern: /^\s*[a-z-]+\s*:\s*[^;{}]+;\s*$/gm, weight: 1 },
+    { pattern: /@media\b|@import\s+(?:url\()?['"]|@keyframes\b|@font-face\b/g, weight: 3 },
+    { pattern: /\b\d+(?:px|em|rem|vh|vw)\b|!important\b/g, weight: 1.5 },
+    { pattern: /#[0-9a-fA-F]{3,6}\b/g, weight: 1 }
+  ],
+  yaml: [
+    { pattern: /^---\s*$/gm, weight: 2 },
+    { pattern: /^\s*[\w-]+:\s+[^\s{;].*$/gm, weight: 0.75 },
+    { pattern: /^\s*-\s+[\w-]+:\s/gm, weight: 2 },
+    { pattern: /^[\w-]+:\s*$/gm, weight: 0.5 }
+  ],
+  markdown: [
+    { pattern: /^#{2,6}\s+\S/gm, weight: 2 },
+    { pattern: /^#\s+\S/gm, weight: 1 },
+    { pattern: /\[[^\]]+\]\([^)\s]+\)/g, weight: 3 },
+    { pattern: /^```/gm, weight: 2.5 },
+    { pattern: /\*\*[^*\n]+\*\*|^>\s/gm, weight: 1.5 }
+  ]
+};
+
+const TYPESCRIPT_SIGNAL = /^\s*(?:export\s+)?(?:interface|type|enum)\s+\w+|\b(?:[\w$)]\??|\))\s*:\s*(?:string|number|boolean|void|any|unknown|never|Promise<|Record<|[A-Z]\w*(?:<[^>]*>)?(?:\[\])?)\s*[,)=;{]|\bas\s+(?:const|[A-Z]\w*)\b|\b(?:private|public|readonly)\s+\w+\s*[:(]/m;
+// Tags must not follow an identifier, which would make them type arguments (`useState<T>()`)
+const JSX_SIGNAL = /(?<![\w$.])<(?:[A-Z][\w.]*|div|span|p|a|button|ul|li|section|main|header|footer|form|input|img|h[1-6])(?:\s+[\w-]+[=\s/>]|\s*\/?>)|<\/[\w.]+>|\bclassName=/m;
+const CPP_SIGNAL = /\bstd::|\b(?:class|namespace|template|nullptr|constexpr|virtual)\b|\bcout\s*<<|#include\s*<(?:iostream|vector|string|memory|map|algorithm)>/m;
+const SCSS_SIGNAL = /^\s*\$[\w-]+\s*:|@mixin\b|@include\b|@extend\b|&[:.-]/m;
+
+function countMatches(pattern: RegExp, code: string): number {
+  return Math.min((code.match(pattern) ?? []).length, MAX_MATCHES);
+}
+
+// Picks the TypeScript, JSX, Sass and C variants the signals for the family can't tell apart
+function refineVariant(family: string, code: string): string {
+  if (family === 'javascript') {
+    const typed = TYPESCRIPT_SIGNAL.test(code);
+    const jsx = JSX_SIGNAL.test(code);
+    return typed ? (jsx ? 'tsx' : 'typescript') : jsx ? 'jsx' : 'javascript';
+  }
+  if (family === 'cpp') {
+    return CPP_SIGNAL.test(code) ? 'cpp' : 'c';
+  }
+  if (family === 'css' && SCSS_SIGNAL.test(code)) {
+    return /\{/.test(code) ? 'scss' : 'sass';
+  }
+  return family;
+}
+
+function aliasFor(name: string): string | null {
+  const language = LANGUAGE_ALIASES[name.toLowerCase().replace(/\d+(?:\.\d+)*$/, '')] ?? LANGUAGE_ALIASES[name.toLowerCase()];
+  return language && LANGUAGES[language] ? language : null;
+}
+
+// Vim (`vim: set ft=python:`) and Emacs (`-*- mode: ruby -*-`) modelines in the first or last lines
+function modelineLanguage(lines: string[]): string | null {
+  for (const line of [...lines.slice(0, 5), ...lines.slice(-5)]) {
+    const match = line.match(/\bvim?:.*?\b(?:ft|filetype|syntax)=([\w+#-]+)/) ?? line.match(/-\*-.*?(?:mode:\s*)?([\w+#-]+)\s*(?:;.*)?-\*-/i);
+    const language = match ? aliasFor(match[1]) : null;
+    if (language) return language;
+  }
+  return null;
+}
+
+function shebangLanguage(firstLine: string): string | null {
+  const match = firstLine.match(/^#!\s*(?:\S*\/)?(?:env\s+(?:-\S+\s+)*)?([\w.+-]+)/);
+  return match ? aliasFor(match[1]) : null;
+}
+
+// JSON is checked by parsing rather than by signals
+function isJson(code: string): boolean {
+  const trimmed = code.trim();
+  if (!/^[[{]/.test(trimmed)) return false;
+  try {
+    JSON.parse(trimmed);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Identifies the language of a snippet from its modeline, shebang or content; local and synchronous
+export function detectLanguage(code: string): LanguageDetection {
+  const empty: LanguageDetection = { language: null, confidence: 0, source: null, candidates: [] };
+  // Binary content is not code
+  if (!code.trim() || code.includes('\u0000')) return empty;
+
+  const lines = code.split('\n');
+  const declared = modelineLanguage(lines);
+  if (declared) return { language: declared, confidence: 0.99, source: 'modeline', candidates: [{ language: declared, confidence: 0.99 }] };
+  const interpreter = shebangLanguage(lines[0]);
+  if (interpreter) {
+    const language = refineVariant(interpreter, code);
+    return { language, confidence: 0.95, source: 'shebang', candidates: [{ language, confidence: 0.95 }] };
+  }
+  if (isJson(code)) return { language: 'json', confidence: 0.95, source: 'content', candidates: [{ language: 'json', confidence: 0.95 }] };
+
+  const scores = Object.entries(LANGUAGE_SIGNALS).map(([language, signals]) => ({
+    language,
+    score: signals.reduce((sum, signal) => sum + signal.weight * countMatches(signal.pattern, code), 0)
+  }));
+  const best = Math.max(...scores.map(entry => entry.score));
+  if (best < MIN_SCORE) return empty;
+
+  // Softmax over the family scores
+  const total = scores.reduce((sum, entry) => sum + Math.exp(entry.score - best), 0);
+  const candidates = scores
+    .map(entry => ({ language: entry.language, confidence: Math.exp(entry.score - best) / total }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, 3)
+    .map(candidate => ({ ...candidate, language: refineVariant(candidate.language, code) }));
+
+  return { language: candidates[0].language, confidence: candidates[0].confidence, source: 'content', candidates };
+}
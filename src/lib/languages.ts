@@ -0,0 +1,113 @@
+export interface CommentSyntax {
+  // Markers that comment out the rest of the line
+  line: string[];
+  // Open and close delimiters of block comments
+  block: [string, string][];
+  // Doc-comment openers that are longer forms of the above (e.g. `///`, `/**`); listed so rules see them as openers
+  doc: string[];
+  // Triple-quoted strings that start a statement are docstrings and count as comments
+  docstrings: boolean;
+}
+
+export interface LanguageDefinition {
+  label: string;
+  extensions: string[];
+  comments: CommentSyntax;
+  // Languages whose rules also apply here (TSX is TypeScript plus JSX)
+  inherits?: string[];
+}
+
+const C_COMMENTS: CommentSyntax = { line: ['//'], block: [['/*', '*/']], doc: ['///', '/**'], docstrings: false };
+const HASH_COMMENTS: CommentSyntax = { line: ['#'], block: [], doc: [], docstrings: false };
+const MARKUP_COMMENTS: CommentSyntax = { line: [], block: [['<!--', '-->']], doc: [], docstrings: false };
+const NO_COMMENTS: CommentSyntax = { line: [], block: [], doc: [], docstrings: false };
+
+// Every language the analyzer knows by name; file extensions map onto these ids
+export const LANGUAGES: Record<string, LanguageDefinition> = {
+  javascript: { label: "JavaScript", extensions: ['.js'], comments: C_COMMENTS },
+  jsx: { label: "JSX", extensions: ['.jsx'], comments: C_COMMENTS, inherits: ['javascript'] },
+  typescript: { label: "TypeScript", extensions: ['.ts'], comments: C_COMMENTS, inherits: ['javascript'] },
+  tsx: { label: "TSX", extensions: ['.tsx'], comments: C_COMMENTS, inherits: ['typescript', 'jsx'] },
+  python: { label: "Python", extensions: ['.py'], comments: { ...HASH_COMMENTS, docstrings: true } },
+  java: { label: "Java", extensions: ['.java'], comments: C_COMMENTS },
+  c: { label: "C", extensions: ['.c', '.h'], comments: C_COMMENTS },
+  cpp: { label: "C++", extensions: ['.cpp', '.cc', '.cxx', '.c++', '.hpp', '.hh', '.hxx'], comments: C_COMMENTS },
+  csharp: { label: "C#", extensions: ['.cs'], comments: C_COMMENTS },
+  go: { label: "Go", extensions: ['.go'], comments: C_COMMENTS },
+  rust: { label: "Rust", extensions: ['.rs'], comments: { ...C_COMMENTS, doc: ['///', '//!', '/**', '/*!'] } },
+  php: { label: "PHP", extensions: ['.php'], comments: { ...C_COMMENTS, line: ['//', '#'] } },
+  ruby: { label: "Ruby", extensions: ['.rb'], comments: { ...HASH_COMMENTS, block: [['=begin', '=end']] } },
+  swift: { label: "Swift", extensions: ['.swift'], comments: C_COMMENTS },
+  kotlin: { label: "Kotlin", extensions: ['.kt'], comments: C_COMMENTS },
+  scala: { label: "Scala", extensions: ['.scala'], comments: C_COMMENTS },
+  bash: { label: "Shell", extensions: ['.sh'], comments: HASH_COMMENTS },
+  sql: { label: "SQL", extensions: ['.sql'], comments: { line: ['--'], block: [['/*', '*/']], doc: [], docstrings: false } },
+  html: { label: "HTML", extensions: ['.html'], comments: MARKUP_COMMENTS },
+  css: { label: "CSS", extensions: ['.css'], comments: { line: [], block: [['/*', '*/']], doc: ['/**'], docstrings: false } },
+  scss: { label: "SCSS", extensions: ['.scss'], comments: C_COMMENTS },
+  sass: { label: "Sass", extensions: ['.sass'], comments: C_COMMENTS },
+  json: { label: "JSON", extensions: ['.json'], comments: NO_COMMENTS },
+  yaml: { label: "YAML", extensions: ['.yaml', '.yml'], comments: HASH_COMMENTS },
+  xml: { label: "XML", extensions: ['.xml'], comments: MARKUP_COMMENTS },
+  markdown: { label: "Markdown", extensions: ['.md'], comments: MARKUP_COMMENTS }
+};
+
+// Language detection based on file extensions
+export const LANGUAGE_MAP: Record<string, string> = Object.fromEntries(
+  Object.entries(LANGUAGES).flatMap(([language, definition]) => definition.extensions.map(extension => [extension, language]))
+);
+
+// Extension of the file name, lowercased; undefined for extensionless files such as `bin/deploy`
+export function getExtension(filePath: string): string | undefined {
+  return filePath.toLowerCase().split('/').pop()?.match(/\.[^.]*$/)?.[0];
+}
+
+export function getLanguageFromPath(filePath: string): string {
+  const ext = getExtension(filePath);
+  return ext ? LANGUAGE_MAP[ext] || 'text' : 'text';
+}
+
+// The language followed by every language it inherits from, nearest first
+export function languageLineage(language: string): string[] {
+  const lineage = [language];
+  for (let i = 0; i < lineage.length; i++) {
+    for (const parent of LANGUAGES[lineage[i]]?.inherits ?? []) {
+      if (!lineage.includes(parent)) lineage.push(parent);
+    }
+  }
+  return lineage;
+}
+
+export function commentSyntaxFor(language: string): CommentSyntax {
+  return LANGUAGES[language]?.comments ?? NO_COMMENTS;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Regex source matching where a comment's text begins: any opener of the language, a `*` continuation
+// inside block comments, or the start of a line that is already inside a comment; null without comment syntax
+export function commentOpenerSource(language: string): string | null {
+  const syntax = commentSyntaxFor(language);
+  const openers = [...syntax.doc, ...syntax.line, ...syntax.block.map(([open]) => open)];
+  if (syntax.docstrings) openers.push('"""', "'''");
+  if (openers.length === 0) return null;
+
+  // Longest first, so `///` wins over `//`
+  const alternatives = [...new Set(openers)].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  if (syntax.block.some(([open]) => open.endsWith('*'))) alternatives.push('\\*(?!\\/)');
+  return `(?:${alternatives.join('|')}|^)`;
+}
+
+export const COMMENT_MARKER = '<comment>';
+
+// Rewrites `<comment>` in a rule or signature pattern into the language's comment openers;
+// null when the pattern needs a comment and the language has none
+export function expandCommentMarker<T extends { pattern: RegExp }>(entry: T, language: string): T | null {
+  const { source, flags } = entry.pattern;
+  if (!source.includes(COMMENT_MARKER)) return entry;
+  const opener = commentOpenerSource(language);
+  if (!opener) return null;
+  return { ...entry, pattern: new RegExp(source.split(COMMENT_MARKER).join(opener), flags) };
+}
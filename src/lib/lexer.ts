@@ -0,0 +1,206 @@
+import { commentSyntaxFor } from './languages';
+
+export type SpanKind = 'code' | 'comment' | 'string';
+
+export interface TokenSpan {
+  kind: SpanKind;
+  start: number;
+  end: number;
+}
+
+interface StringDelimiter {
+  open: string;
+  close: string;
+  multiline: boolean;
+  escapes: boolean;
+}
+
+interface LexerConfig {
+  lineComments: string[];
+  blockComments: [string, string][];
+  docstrings: boolean;
+  // Line comments only open at the start of a word, so `$#` and `${#name}` stay code
+  wordComments: boolean;
+  strings: StringDelimiter[];
+}
+
+type LexerState =
+  | { mode: 'code' }
+  | { mode: 'comment'; close: string }
+  | { mode: 'string'; delimiter: StringDelimiter };
+
+// Replaces characters outside the selected span kinds; not whitespace, so masking never fakes indentation or spacing
+export const MASK_CHAR = '\u0000';
+
+const DOUBLE_QUOTE: StringDelimiter = { open: '"', close: '"', multiline: false, escapes: true };
+const SINGLE_QUOTE: StringDelimiter = { open: "'", close: "'", multiline: false, escapes: true };
+const BACKTICK: StringDelimiter = { open: '`', close: '`', multiline: true, escapes: true };
+const RAW_BACKTICK: StringDelimiter = { open: '`', close: '`', multiline: true, escapes: false };
+const TRIPLE_DOUBLE: StringDelimiter = { open: '"""', close: '"""', multiline: true, escapes: true };
+const TRIPLE_SINGLE: StringDelimiter = { open: "'''", close: "'''", multiline: true, escapes: true };
+const MULTILINE_DOUBLE: StringDelimiter = { ...DOUBLE_QUOTE, multiline: true };
+
+const C_STRINGS = [DOUBLE_QUOTE, SINGLE_QUOTE];
+const JS_STRINGS = [DOUBLE_QUOTE, SINGLE_QUOTE, BACKTICK];
+const TEXT_BLOCK_STRINGS = [TRIPLE_DOUBLE, DOUBLE_QUOTE, SINGLE_QUOTE];
+
+// String syntax per language; comment syntax comes from the language table
+const STRING_DELIMITERS: Record<string, StringDelimiter[]> = {
+  javascript: JS_STRINGS,
+  jsx: JS_STRINGS,
+  typescript: JS_STRINGS,
+  tsx: JS_STRINGS,
+  java: TEXT_BLOCK_STRINGS,
+  kotlin: TEXT_BLOCK_STRINGS,
+  scala: TEXT_BLOCK_STRINGS,
+  swift: TEXT_BLOCK_STRINGS,
+  c: C_STRINGS,
+  cpp: C_STRINGS,
+  csharp: C_STRINGS,
+  go: [DOUBLE_QUOTE, SINGLE_QUOTE, RAW_BACKTICK],
+  // Single quotes are lifetimes as often as char literals, so only double-quoted strings are tracked
+  rust: [MULTILINE_DOUBLE],
+  php: C_STRINGS,
+  python: [TRIPLE_DOUBLE, TRIPLE_SINGLE, DOUBLE_QUOTE, SINGLE_QUOTE],
+  ruby: C_STRINGS,
+  bash: C_STRINGS,
+  yaml: C_STRINGS,
+  sql: [SINGLE_QUOTE, DOUBLE_QUOTE],
+  css: C_STRINGS,
+  scss: C_STRINGS,
+  sass: C_STRINGS,
+  json: [DOUBLE_QUOTE]
+};
+
+const DOCSTRING_QUOTES = ['"""', "'''"];
+
+const WORD_COMMENT_LANGUAGES = new Set(['bash']);
+
+function lexerConfigFor(language: string): LexerConfig {
+  const comments = commentSyntaxFor(language);
+  return {
+    lineComments: comments.line,
+    blockComments: comments.block,
+    docstrings: comments.docstrings,
+    wordComments: WORD_COMMENT_LANGUAGES.has(language),
+    strings: STRING_DELIMITERS[language] ?? []
+  };
+}
+
+function pushSpan(spans: TokenSpan[], kind: SpanKind, start: number, end: number): void {
+  if (end <= start) return;
+  const last = spans[spans.length - 1];
+  if (last && last.kind === kind && last.end === start) {
+    last.end = end;
+  } else {
+    spans.push({ kind, start, end });
+  }
+}
+
+function findStringEnd(line: string, from: number, delimiter: StringDelimiter): number {
+  let i = from;
+  while (i < line.length) {
+    if (delimiter.escapes && line[i] === '\\') {
+      i += 2;
+      continue;
+    }
+    if (line.startsWith(delimiter.close, i)) {
+      return i + delimiter.close.length;
+    }
+    i++;
+  }
+  return -1;
+}
+
+function tokenizeLine(line: string, config: LexerConfig, state: LexerState): { spans: TokenSpan[]; state: LexerState } {
+  const spans: TokenSpan[] = [];
+  let i = 0;
+
+  while (i < line.length) {
+    if (state.mode === 'comment') {
+      const closeIndex = line.indexOf(state.close, i);
+      if (closeIndex === -1) {
+        pushSpan(spans, 'comment', i, line.length);
+        return { spans, state };
+      }
+      pushSpan(spans, 'comment', i, closeIndex + state.close.length);
+      i = closeIndex + state.close.length;
+      state = { mode: 'code' };
+      continue;
+    }
+
+    if (state.mode === 'string') {
+      const end = findStringEnd(line, i, state.delimiter);
+      if (end === -1) {
+        pushSpan(spans, 'string', i, line.length);
+        // Unterminated single-line strings end with the line
+        return { spans, state: state.delimiter.multiline ? state : { mode: 'code' } };
+      }
+      pushSpan(spans, 'string', i, end);
+      i = end;
+      state = { mode: 'code' };
+      continue;
+    }
+
+    const atWordStart = !config.wordComments || i === 0 || /[\s;|&()]/.test(line[i - 1]);
+    if (atWordStart && config.lineComments.some(marker => line.startsWith(marker, i))) {
+      pushSpan(spans, 'comment', i, line.length);
+      return { spans, state };
+    }
+
+    // Word delimiters such as Ruby's =begin only open a comment at the start of a line
+    const block = config.blockComments.find(([open]) => line.startsWith(open, i) && (i === 0 || !/^=\w/.test(open)));
+    if (block) {
+      pushSpan(spans, 'comment', i, i + block[0].length);
+      i += block[0].length;
+      state = { mode: 'comment', close: block[1] };
+      continue;
+    }
+
+    // A triple-quoted string that starts a statement is a docstring, lexed as a comment
+    const docstring = config.docstrings && line.slice(0, i).trim() === ''
+      ? DOCSTRING_QUOTES.find(quote => line.startsWith(quote, i))
+      : undefined;
+    if (docstring) {
+      pushSpan(spans, 'comment', i, i + docstring.length);
+      i += docstring.length;
+      state = { mode: 'comment', close: docstring };
+      continue;
+    }
+
+    const delimiter = config.strings.find(candidate => line.startsWith(candidate.open, i));
+    if (delimiter) {
+      pushSpan(spans, 'string', i, i + delimiter.open.length);
+      i += delimiter.open.length;
+      state = { mode: 'string', delimiter };
+      continue;
+    }
+
+    pushSpan(spans, 'code', i, i + 1);
+    i++;
+  }
+
+  return { spans, state };
+}
+
+// Splits each line into code, comment and string spans, carrying block comments and multi-line strings across lines
+export function tokenizeLines(lines: string[], language: string): TokenSpan[][] {
+  const config = lexerConfigFor(language);
+  let state: LexerState = { mode: 'code' };
+
+  return lines.map(line => {
+    const result = tokenizeLine(line, config, state);
+    state = result.state;
+    return result.spans;
+  });
+}
+
+// Keeps only the characters that fall in the given span kinds, preserving column positions
+export function maskLine(line: string, spans: TokenSpan[], kinds: SpanKind[]): string {
+  let masked = '';
+  for (const span of spans) {
+    const text = line.slice(span.start, span.end);
+    masked += kinds.includes(span.kind) ? text : MASK_CHAR.repeat(text.length);
+  }
+  return masked;
+}
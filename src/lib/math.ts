@@ -0,0 +1,15 @@
+// Keeps log-odds and log-probabilities finite for scores of exactly 0 or 1
+export const PROBABILITY_FLOOR = 1e-4;
+
+export function clampProbability(p: number): number {
+  return Math.min(Math.max(p, PROBABILITY_FLOOR), 1 - PROBABILITY_FLOOR);
+}
+
+export function logit(p: number): number {
+  const clamped = clampProbability(p);
+  return Math.log(clamped / (1 - clamped));
+}
+
+export function sigmoid(value: number): number {
+  return 1 / (1 + Math.exp(-value));
+}
@@ -0,0 +1,110 @@
+import type { ReferenceCorpus } from './referenceCorpus';
+
+export interface NgramModel {
+  order: number;
+  // Counts of every n-gram of length 1..order, keyed by the tokens joined with a space
+  counts: Map<string, number>;
+  vocabularySize: number;
+  totalTokens: number;
+}
+
+// Token n-gram models for AI-written and human-written reference code
+export interface LikelihoodScorer {
+  ai: NgramModel;
+  human: NgramModel;
+}
+
+export interface LineLikelihood {
+  // Mean per-token log P(AI model) - log P(human model), in nats; positive points to AI
+  ratio: number;
+  tokens: number;
+}
+
+const BOUNDARY = '<s>';
+const TOKEN_PATTERN = /[A-Za-z_$][\w$]*|\d+(?:\.\d+)?|\S/g;
+// Higher values trust long contexts less when they have been seen only a few times
+const INTERPOLATION_STRENGTH = 2;
+
+// Identifiers are lowercased and numbers collapsed so the small reference sets generalize
+export function tokenizeCode(text: string): string[] {
+  return (text.match(TOKEN_PATTERN) ?? []).map(token => (/^\d/.test(token) ? '<num>' : token.toLowerCase()));
+}
+
+export function trainNgramModel(texts: string[], order = 3): NgramModel {
+  const counts = new Map<string, number>();
+  let totalTokens = 0;
+
+  for (const text of texts) {
+    for (const line of text.split('\n')) {
+      const tokens = tokenizeCode(line);
+      if (tokens.length === 0) continue;
+      const padded = [...Array(order - 1).fill(BOUNDARY), ...tokens];
+      totalTokens += tokens.length;
+      // Boundary-only histories, so the first tokens of a line have a context count too
+      for (let n = 1; n < order; n++) {
+        const key = Array(n).fill(BOUNDARY).join(' ');
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+      for (let i = order - 1; i < padded.length; i++) {
+        for (let n = 1; n <= order; n++) {
+          const key = padded.slice(i - n + 1, i + 1).join(' ');
+          counts.set(key, (counts.get(key) ?? 0) + 1);
+        }
+      }
+    }
+  }
+
+  const vocabularySize = [...counts.keys()].filter(key => !key.includes(' ') && key !== BOUNDARY).length;
+  return { order, counts, vocabularySize, totalTokens };
+}
+
+// Interpolates add-one unigram estimates with progressively longer contexts
+function tokenProbability(model: NgramModel, context: string[], token: string): number {
+  let probability = ((model.counts.get(token) ?? 0) + 1) / (model.totalTokens + model.vocabularySize + 1);
+
+  for (let n = 2; n <= model.order; n++) {
+    const history = context.slice(context.length - (n - 1)).join(' ');
+    const historyCount = model.counts.get(history) ?? 0;
+    if (historyCount === 0) break;
+    const lambda = historyCount / (historyCount + INTERPOLATION_STRENGTH);
+    probability = lambda * ((model.counts.get(`${history} ${token}`) ?? 0) / historyCount) + (1 - lambda) * probability;
+  }
+
+  return probability;
+}
+
+export function lineLogLikelihoodRatio(scorer: LikelihoodScorer, line: string): LineLikelihood {
+  const tokens = tokenizeCode(line);
+  if (tokens.length === 0) return { ratio: 0, tokens: 0 };
+
+  const order = Math.max(scorer.ai.order, scorer.human.order);
+  const context: string[] = Array(order - 1).fill(BOUNDARY);
+  let total = 0;
+  for (const token of tokens) {
+    total += Math.log(tokenProbability(scorer.ai, context, token)) - Math.log(tokenProbability(scorer.human, context, token));
+    context.push(token);
+  }
+
+  return { ratio: total / tokens.length, tokens: tokens.length };
+}
+
+// Token-weighted mean of the line ratios
+export function fileLogLikelihoodRatio(lines: LineLikelihood[]): number {
+  const tokens = lines.reduce((sum, line) => sum + line.tokens, 0);
+  return tokens > 0 ? lines.reduce((sum, line) => sum + line.ratio * line.tokens, 0) / tokens : 0;
+}
+
+const scorerCache = new WeakMap<ReferenceCorpus, LikelihoodScorer>();
+
+// Models are trained once per reference corpus and reused across analyses
+export function getLikelihoodScorer(corpus: ReferenceCorpus, order = 3): LikelihoodScorer {
+  let scorer = scorerCache.get(corpus);
+  if (!scorer || scorer.ai.order !== order) {
+    scorer = {
+      ai: trainNgramModel(corpus.ai.map(snippet => snippet.code), order),
+      human: trainNgramModel(corpus.human.map(snippet => snippet.code), order)
+    };
+    scorerCache.set(corpus, scorer);
+  }
+  return scorer;
+}
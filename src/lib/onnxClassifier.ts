@@ -0,0 +1,188 @@
+import type * as Ort from 'onnxruntime-web/wasm';
+import type { LineReason } from './aiDetection';
+import type { Detector, DetectorLineScore } from './detectors';
+import { logit, sigmoid } from './math';
+
+// Tokenization contract (see README, "Local ONNX classifier"):
+// - the code is split into chunks of `chunkLines` consecutive lines joined with '\n'; blank chunks are skipped
+// - each chunk is UTF-8 encoded and every byte b becomes token id b + BYTE_OFFSET
+// - the sequence is [BOS, ...bytes, EOS], truncated to `maxLength` (EOS is kept) and right-padded with PAD
+// - inputs are int64 tensors `input_ids` and `attention_mask` (1 for tokens, 0 for padding), both [batch, maxLength]
+// - the first output is [batch], [batch, 1] (AI probability or logit) or [batch, 2] (human/AI logits)
+export const PAD_TOKEN = 0;
+export const BOS_TOKEN = 1;
+export const EOS_TOKEN = 2;
+export const BYTE_OFFSET = 3;
+
+export interface OnnxModelConfig {
+  // Model bytes, or a same-origin URL / local path the runtime can read; nothing is sent to a server
+  model: Uint8Array | string;
+  // Lines per chunk; 1 gives the model one line at a time (default 1)
+  chunkLines?: number;
+  // Sequence length the model was exported with (default 256)
+  maxLength?: number;
+  // Whether single-value outputs are probabilities or logits (default 'probability')
+  output?: 'probability' | 'logit';
+  // Chunks per inference call (default 32)
+  batchSize?: number;
+  inputNames?: { ids: string; mask: string };
+  // Where the runtime's .wasm files are served from; defaults to the runtime's own lookup
+  wasmPaths?: string;
+  // Ensemble voting weight (default 1)
+  weight?: number;
+}
+
+export interface EncodedChunk {
+  ids: BigInt64Array;
+  mask: BigInt64Array;
+}
+
+interface Chunk {
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+const DEFAULT_MAX_LENGTH = 256;
+const DEFAULT_BATCH_SIZE = 32;
+// Chunk probabilities closer to 0.5 than this are scored but not worth a reason of their own
+const REASON_MIN_MARGIN = 0.15;
+
+export function encodeChunk(text: string, maxLength = DEFAULT_MAX_LENGTH): EncodedChunk {
+  const bytes = new TextEncoder().encode(text).slice(0, Math.max(maxLength - 2, 0));
+  const ids = new BigInt64Array(maxLength).fill(BigInt(PAD_TOKEN));
+  const mask = new BigInt64Array(maxLength);
+  const tokens = [BOS_TOKEN, ...Array.from(bytes, byte => byte + BYTE_OFFSET), EOS_TOKEN].slice(0, maxLength);
+  tokens.forEach((token, i) => {
+    ids[i] = BigInt(token);
+    mask[i] = 1n;
+  });
+  return { ids, mask };
+}
+
+function chunkLines(lines: string[], size: number): Chunk[] {
+  const chunks: Chunk[] = [];
+  for (let start = 0; start < lines.length; start += size) {
+    const text = lines.slice(start, start + size).join('\n');
+    if (text.trim()) chunks.push({ startLine: start, endLine: Math.min(start + size, lines.length) - 1, text });
+  }
+  return chunks;
+}
+
+// Reads one AI probability per batch row from the first output tensor
+function readProbabilities(tensor: Ort.Tensor, rows: number, output: OnnxModelConfig['output']): number[] {
+  const data = Array.from(tensor.data as ArrayLike<number | bigint>, Number);
+  if (data.some(value => !Number.isFinite(value))) {
+    throw new Error('ONNX classifier output contains NaN or infinite values');
+  }
+  const width = data.length / rows;
+  if (width === 2) {
+    // Softmax over (human, AI) reduces to the sigmoid of the logit difference
+    return Array.from({ length: rows }, (_, row) => sigmoid(data[row * 2 + 1] - data[row * 2]));
+  }
+  if (width !== 1) {
+    throw new Error(`ONNX classifier output has shape [${tensor.dims.join(', ')}]; expected [batch], [batch, 1] or [batch, 2]`);
+  }
+  if (output === 'logit') return data.map(sigmoid);
+  if (data.some(value => value < 0 || value > 1)) {
+    throw new Error('ONNX classifier output is outside [0, 1]; set output: "logit" if the model returns logits');
+  }
+  return data;
+}
+
+// Node resolves the package root to its own wasm-only build; the browser entry has no node condition.
+// The specifier is kept out of the bundler's sight so the WebGPU/WebNN wasm is never emitted
+const NODE_RUNTIME = 'onnxruntime-web';
+
+function loadRuntime(): Promise<typeof Ort> {
+  const isNode = Boolean((globalThis as { process?: { versions?: { node?: string } } }).process?.versions?.node);
+  return isNode ? import(/* @vite-ignore */ NODE_RUNTIME) : import('onnxruntime-web/wasm');
+}
+
+const sessionCache = new WeakMap<OnnxModelConfig, Promise<Ort.InferenceSession>>();
+
+// The runtime is only downloaded when a model is configured; the wasm build has no WebGPU/WebNN backends
+function loadSession(config: OnnxModelConfig): Promise<Ort.InferenceSession> {
+  let session = sessionCache.get(config);
+  if (!session) {
+    session = loadRuntime().then(ort => {
+      if (config.wasmPaths) ort.env.wasm.wasmPaths = config.wasmPaths;
+      const options: Ort.InferenceSession.SessionOptions = { executionProviders: ['wasm'] };
+      // One create() overload per model type; they only differ in how the model is read
+      const create: (model: OnnxModelConfig['model'], options: Ort.InferenceSession.SessionOptions) => Promise<Ort.InferenceSession> = ort.InferenceSession.create;
+      return create(config.model, options);
+    });
+    // Let a failed load be retried with the same config
+    session.catch(() => sessionCache.delete(config));
+    sessionCache.set(config, session);
+  }
+  return session;
+}
+
+async function classifyChunks(config: OnnxModelConfig, chunks: Chunk[]): Promise<number[]> {
+  const [ort, session] = await Promise.all([loadRuntime(), loadSession(config)]);
+  const maxLength = config.maxLength ?? DEFAULT_MAX_LENGTH;
+  const batchSize = config.batchSize ?? DEFAULT_BATCH_SIZE;
+  const names = config.inputNames ?? { ids: 'input_ids', mask: 'attention_mask' };
+  const probabilities: number[] = [];
+
+  for (let start = 0; start < chunks.length; start += batchSize) {
+    const batch = chunks.slice(start, start + batchSize).map(chunk => encodeChunk(chunk.text, maxLength));
+    const ids = new BigInt64Array(batch.length * maxLength);
+    const mask = new BigInt64Array(batch.length * maxLength);
+    batch.forEach((encoded, row) => {
+      ids.set(encoded.ids, row * maxLength);
+      mask.set(encoded.mask, row * maxLength);
+    });
+    const results = await session.run({
+      [names.ids]: new ort.Tensor('int64', ids, [batch.length, maxLength]),
+      [names.mask]: new ort.Tensor('int64', mask, [batch.length, maxLength])
+    });
+    probabilities.push(...readProbabilities(results[session.outputNames[0]], batch.length, config.output));
+  }
+
+  return probabilities;
+}
+
+function chunkReason(probability: number, chunk: Chunk): LineReason[] {
+  if (Math.abs(probability - 0.5) < REASON_MIN_MARGIN) return [];
+  const lines = chunk.startLine === chunk.endLine ? '' : ` (lines ${chunk.startLine + 1}-${chunk.endLine + 1})`;
+  return [{
+    ruleId: 'onnx.classifier',
+    direction: probability > 0.5 ? 'ai' : 'human',
+    contribution: logit(probability),
+    message: `Local classifier rates this ${chunk.startLine === chunk.endLine ? 'line' : 'chunk'} ${Math.round(probability * 100)}% AI${lines}`
+  }];
+}
+
+// Every line of a chunk takes the chunk's probability; the file vote is the mean over chunks.
+// A model that fails to load or run abstains, so the rest of the analysis still completes
+export function createOnnxDetector(config: OnnxModelConfig): Detector {
+  return {
+    id: 'onnx',
+    weight: config.weight ?? 1,
+    detect: async ({ lines }) => {
+      const chunks = chunkLines(lines, Math.max(1, Math.floor(config.chunkLines ?? 1)));
+      const scores: (DetectorLineScore | null)[] = lines.map(() => null);
+      if (chunks.length === 0) return { lines: scores, file: null };
+
+      let probabilities: number[];
+      try {
+        probabilities = await classifyChunks(config, chunks);
+      } catch (error) {
+        console.warn('ONNX classifier failed; continuing without it:', error);
+        return { lines: scores, file: null, error: error instanceof Error ? error.message : String(error) };
+      }
+      chunks.forEach((chunk, c) => {
+        const reasons = chunkReason(probabilities[c], chunk);
+        for (let i = chunk.startLine; i <= chunk.endLine; i++) {
+          if (lines[i].trim()) scores[i] = { aiProbability: probabilities[c], reasons };
+        }
+      });
+      return {
+        lines: scores,
+        file: probabilities.reduce((sum, probability) => sum + probability, 0) / probabilities.length
+      };
+    }
+  };
+}
@@ -0,0 +1,112 @@
+import type { Verdict } from './aiDetection';
+import type { RuleOverride } from './rules';
+import type { SegmentationOptions } from './segmentation';
+
+export type ProfileName = 'strict' | 'balanced' | 'lenient' | 'custom';
+
+export type UsageLevelId = 'strong' | 'high' | 'moderate' | 'little' | 'professional' | 'human';
+
+// File or repository verdict for a share of AI lines
+export interface UsageLevel {
+  id: UsageLevelId;
+  // Applies when the AI percentage is above this value; levels are checked from the highest threshold down
+  minAIPercentage: number;
+  label: string;
+  description: string;
+}
+
+export interface SensitivityProfile {
+  name: ProfileName;
+  // Multipliers for rule and heuristic weights pointing to AI and to human authorship
+  aiWeightScale: number;
+  humanWeightScale: number;
+  // Per-rule adjustments applied before AnalysisOptions.ruleOverrides
+  ruleOverrides?: Record<string, RuleOverride>;
+  // Range the rule-ratio probability is clamped to
+  clamp: { min: number; max: number };
+  // Transition costs for contextual smoothing; higher costs merge longer runs
+  smoothing: SegmentationOptions;
+  uncertaintyBand: number;
+  usageLevels: UsageLevel[];
+}
+
+const USAGE_LEVEL_TEXT: Record<UsageLevelId, { label: string; description: string }> = {
+  strong: { label: "Strong AI Usage", description: "Code likely AI-generated" },
+  high: { label: "High AI Usage", description: "Significant AI assistance" },
+  moderate: { label: "Moderate AI Usage", description: "Some AI help detected" },
+  little: { label: "Little AI Help", description: "Minor AI assistance" },
+  professional: { label: "Professional Code", description: "Well-written, minimal AI" },
+  human: { label: "Human Code", description: "Likely human-written" }
+};
+
+// Thresholds for strong, high, moderate, little and professional; anything lower is human
+function usageLevels(thresholds: [number, number, number, number, number]): UsageLevel[] {
+  const ids: UsageLevelId[] = ['strong', 'high', 'moderate', 'little', 'professional'];
+  return [
+    ...ids.map((id, i) => ({ id, minAIPercentage: thresholds[i], ...USAGE_LEVEL_TEXT[id] })),
+    { id: 'human', minAIPercentage: -Infinity, ...USAGE_LEVEL_TEXT.human }
+  ];
+}
+
+export const SENSITIVITY_PROFILES: Record<Exclude<ProfileName, 'custom'>, SensitivityProfile> = {
+  // Flags AI on weaker evidence and reports fewer lines as uncertain
+  strict: {
+    name: 'strict',
+    aiWeightScale: 1.25,
+    humanWeightScale: 0.8,
+    clamp: { min: 0.05, max: 0.97 },
+    smoothing: { humanToAICost: 1.5, aiToHumanCost: 2.5 },
+    uncertaintyBand: 0.05,
+    usageLevels: usageLevels([20, 12, 8, 5, 2])
+  },
+  balanced: {
+    name: 'balanced',
+    aiWeightScale: 1,
+    humanWeightScale: 1,
+    clamp: { min: 0.1, max: 0.95 },
+    smoothing: { humanToAICost: 2, aiToHumanCost: 2 },
+    uncertaintyBand: 0.1,
+    usageLevels: usageLevels([30, 20, 15, 10, 5])
+  },
+  // Needs more evidence before calling a line or file AI-written
+  lenient: {
+    name: 'lenient',
+    aiWeightScale: 0.8,
+    humanWeightScale: 1.25,
+    clamp: { min: 0.15, max: 0.9 },
+    // Mirror of strict: AI runs are harder to enter and easier to leave
+    smoothing: { humanToAICost: 2.5, aiToHumanCost: 1.5 },
+    uncertaintyBand: 0.15,
+    usageLevels: usageLevels([45, 35, 25, 15, 8])
+  }
+};
+
+export const DEFAULT_PROFILE = SENSITIVITY_PROFILES.balanced;
+
+// A custom profile starts from a named one and replaces only the given settings
+export function createCustomProfile(
+  overrides: Partial<Omit<SensitivityProfile, 'name'>>,
+  base: Exclude<ProfileName, 'custom'> = 'balanced'
+): SensitivityProfile {
+  return { ...SENSITIVITY_PROFILES[base], ...overrides, name: 'custom' };
+}
+
+export function resolveProfile(profile: Exclude<ProfileName, 'custom'> | SensitivityProfile = DEFAULT_PROFILE): SensitivityProfile {
+  if (typeof profile !== 'string') return profile;
+  const named = SENSITIVITY_PROFILES[profile];
+  if (!named) {
+    throw new Error(`Unknown sensitivity profile "${profile}"`);
+  }
+  return named;
+}
+
+export function getAIUsageLevel(aiPercentage: number, profile: SensitivityProfile = DEFAULT_PROFILE): UsageLevel {
+  const levels = [...profile.usageLevels].sort((a, b) => b.minAIPercentage - a.minAIPercentage);
+  return levels.find(level => aiPercentage > level.minAIPercentage) ?? levels[levels.length - 1];
+}
+
+// Probabilities within the band of 50%, or without any evidence behind them, are left undecided
+export function verdictFor(aiProbability: number, hasSignals: boolean, uncertaintyBand: number): Verdict {
+  if (!hasSignals || Math.abs(aiProbability - 0.5) <= uncertaintyBand) return 'uncertain';
+  return aiProbability > 0.5 ? 'ai' : 'human';
+}
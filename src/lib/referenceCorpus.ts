@@ -0,0 +1,352 @@
+// Small bundled reference sets for the statistical detectors. Keep them disjoint from benchmarks/corpus
+// so the benchmark keeps measuring generalization rather than memorization.
+
+export interface ReferenceSnippet {
+  language: string;
+  code: string;
+}
+
+export interface ReferenceCorpus {
+  ai: ReferenceSnippet[];
+  human: ReferenceSnippet[];
+}
+
+const AI_SNIPPETS: ReferenceSnippet[] = [
+  {
+    language: "javascript",
+    code: `/**
+ * Fetches a user profile from the API and returns the parsed data.
+ * @param {string} userId - The unique identifier of the user.
+ * @returns {Promise<Object>} The user profile object.
+ */
+async function fetchUserProfile(userId) {
+  // Validate the input parameter
+  if (!userId || typeof userId !== 'string') {
+    throw new Error('Invalid user ID provided. Please provide a valid string.');
+  }
+
+  try {
+    // Make the API request
+    const response = await fetch('/api/users/' + encodeURIComponent(userId));
+
+    // Check if the response is successful
+    if (!response.ok) {
+      throw new Error('Failed to fetch user profile: ' + response.statusText);
+    }
+
+    // Parse and return the JSON data
+    const userProfile = await response.json();
+    return userProfile;
+  } catch (error) {
+    console.error('Error fetching user profile:', error);
+    throw error;
+  }
+}`
+  },
+  {
+    language: "typescript",
+    code: `// Define the structure of a shopping cart item
+interface CartItem {
+  productId: string;
+  productName: string;
+  unitPrice: number;
+  quantity: number;
+}
+
+/**
+ * Calculates the total price of all items in the shopping cart.
+ * Applies the provided discount percentage if it is valid.
+ */
+export function calculateCartTotal(cartItems: CartItem[], discountPercentage: number = 0): number {
+  // Ensure the discount percentage is within a valid range
+  if (discountPercentage < 0 || discountPercentage > 100) {
+    throw new Error('Discount percentage must be between 0 and 100.');
+  }
+
+  // Calculate the subtotal by summing the price of each item
+  const subtotal = cartItems.reduce((accumulator, currentItem) => {
+    return accumulator + currentItem.unitPrice * currentItem.quantity;
+  }, 0);
+
+  // Apply the discount to the subtotal
+  const discountAmount = (subtotal * discountPercentage) / 100;
+  const totalPrice = subtotal - discountAmount;
+
+  // Round the result to two decimal places
+  return Math.round(totalPrice * 100) / 100;
+}`
+  },
+  {
+    language: "python",
+    code: `def validate_email_address(email_address: str) -> bool:
+    """
+    Validate an email address using a regular expression.
+
+    Args:
+        email_address (str): The email address to validate.
+
+    Returns:
+        bool: True if the email address is valid, False otherwise.
+    """
+    # Check that the input is a non-empty string
+    if not isinstance(email_address, str) or not email_address:
+        return False
+
+    # Define the regular expression pattern for a valid email address
+    email_pattern = r"^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\\.[a-zA-Z]{2,}$"
+
+    # Return whether the email address matches the pattern
+    return re.match(email_pattern, email_address) is not None
+
+
+def main():
+    """Main function to demonstrate email validation."""
+    test_email_addresses = ["user@example.com", "invalid-email", "another.user@domain.org"]
+
+    # Iterate over each email address and print the validation result
+    for email_address in test_email_addresses:
+        is_valid = validate_email_address(email_address)
+        print(f"Email: {email_address} - Valid: {is_valid}")
+
+
+if __name__ == "__main__":
+    main()`
+  },
+  {
+    language: "python",
+    code: `class InventoryManager:
+    """A class to manage the inventory of products in a store."""
+
+    def __init__(self):
+        """Initialize the inventory manager with an empty inventory."""
+        self.inventory = {}
+
+    def add_product(self, product_name: str, quantity: int) -> None:
+        """Add a product to the inventory or update its quantity."""
+        # Validate the quantity before updating the inventory
+        if quantity <= 0:
+            raise ValueError("Quantity must be a positive integer.")
+
+        # Update the quantity if the product already exists
+        if product_name in self.inventory:
+            self.inventory[product_name] += quantity
+        else:
+            self.inventory[product_name] = quantity
+
+    def remove_product(self, product_name: str, quantity: int) -> None:
+        """Remove a quantity of a product from the inventory."""
+        # Check if the product exists in the inventory
+        if product_name not in self.inventory:
+            raise KeyError(f"Product '{product_name}' not found in inventory.")
+
+        # Ensure there is enough stock to remove
+        if self.inventory[product_name] < quantity:
+            raise ValueError("Insufficient stock to remove the requested quantity.")
+
+        self.inventory[product_name] -= quantity`
+  },
+  {
+    language: "javascript",
+    code: `// Import the required modules
+const express = require('express');
+const app = express();
+
+// Middleware to parse JSON request bodies
+app.use(express.json());
+
+// In-memory storage for the list of tasks
+const tasks = [];
+
+// Route to retrieve all tasks
+app.get('/tasks', (request, response) => {
+  response.status(200).json(tasks);
+});
+
+// Route to create a new task
+app.post('/tasks', (request, response) => {
+  const { title, description } = request.body;
+
+  // Validate the request body
+  if (!title) {
+    return response.status(400).json({ error: 'Title is required.' });
+  }
+
+  // Create the new task object
+  const newTask = {
+    id: tasks.length + 1,
+    title: title,
+    description: description || '',
+    completed: false,
+  };
+
+  tasks.push(newTask);
+  response.status(201).json(newTask);
+});
+
+// Start the server on the specified port
+const PORT = process.env.PORT || 3000;
+app.listen(PORT, () => {
+  console.log('Server is running on port ' + PORT);
+});`
+  },
+  {
+    language: "go",
+    code: `// ReadConfiguration reads the configuration file from the specified path
+// and returns the parsed configuration structure.
+func ReadConfiguration(filePath string) (*Configuration, error) {
+	// Open the configuration file
+	file, err := os.Open(filePath)
+	if err != nil {
+		return nil, fmt.Errorf("failed to open configuration file: %w", err)
+	}
+	defer file.Close()
+
+	// Decode the JSON content into the configuration structure
+	var configuration Configuration
+	decoder := json.NewDecoder(file)
+	if err := decoder.Decode(&configuration); err != nil {
+		return nil, fmt.Errorf("failed to decode configuration file: %w", err)
+	}
+
+	// Validate the required fields
+	if configuration.ServerAddress == "" {
+		return nil, errors.New("server address is required in the configuration")
+	}
+
+	return &configuration, nil
+}`
+  }
+];
+
+const HUMAN_SNIPPETS: ReferenceSnippet[] = [
+  {
+    language: "javascript",
+    code: `function throttle(fn, ms) {
+  let last = 0, t;
+  return function (...a) {
+    const now = Date.now();
+    clearTimeout(t);
+    if (now - last >= ms) { last = now; fn.apply(this, a); }
+    else t = setTimeout(() => { last = Date.now(); fn.apply(this, a); }, ms - (now - last));
+  };
+}
+
+// hack: safari fires resize twice on rotate
+window.addEventListener('resize', throttle(relayout, 100));
+
+function relayout() {
+  const w = el.clientWidth;
+  if (w === prevW) return; // nothing to do
+  prevW = w;
+  cols = w > 900 ? 3 : w > 600 ? 2 : 1;
+  render();
+}`
+  },
+  {
+    language: "typescript",
+    code: `export const clamp = (n: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, n));
+
+type Pt = { x: number; y: number };
+
+export function lerp(a: Pt, b: Pt, t: number): Pt {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+}
+
+// TODO: handle the degenerate case properly, this is good enough for now
+export function bbox(pts: Pt[]) {
+  let x0 = Infinity, y0 = Infinity, x1 = -Infinity, y1 = -Infinity;
+  for (const p of pts) {
+    if (p.x < x0) x0 = p.x;
+    if (p.y < y0) y0 = p.y;
+    if (p.x > x1) x1 = p.x;
+    if (p.y > y1) y1 = p.y;
+  }
+  return { x0, y0, x1, y1 };
+}`
+  },
+  {
+    language: "python",
+    code: `import sys, os
+
+def walk(d):
+    for root, dirs, files in os.walk(d):
+        dirs[:] = [x for x in dirs if not x.startswith('.')]  # skip .git etc
+        for f in files:
+            if f.endswith('.log'):
+                yield os.path.join(root, f)
+
+tot = 0
+for p in walk(sys.argv[1] if len(sys.argv) > 1 else '.'):
+    n = os.path.getsize(p)
+    tot += n
+    if n > 1 << 20:
+        print(p, n // 1024, 'K')
+print('total', tot >> 20, 'M')`
+  },
+  {
+    language: "python",
+    code: `def parse(s):
+    out, cur, q = [], '', False
+    for ch in s:
+        if ch == '"':
+            q = not q
+        elif ch == ',' and not q:
+            out.append(cur); cur = ''
+        else:
+            cur += ch
+    out.append(cur)
+    return out
+
+# quick sanity check, not a real test
+assert parse('a,"b,c",d') == ['a', 'b,c', 'd']
+
+def rows(fn):
+    with open(fn) as fh:
+        hdr = parse(fh.readline().rstrip())
+        for ln in fh:
+            yield dict(zip(hdr, parse(ln.rstrip())))`
+  },
+  {
+    language: "javascript",
+    code: `module.exports = function (req, res, next) {
+  var tok = (req.headers.authorization || '').split(' ')[1];
+  if (!tok) return res.sendStatus(401);
+  jwt.verify(tok, process.env.SECRET, function (err, u) {
+    if (err) return res.sendStatus(403); // expired or garbage
+    req.user = u;
+    next();
+  });
+};
+
+// old clients still send ?token=, drop this once v2 is gone
+function legacy(req) {
+  return req.query.token && 'Bearer ' + req.query.token;
+}`
+  },
+  {
+    language: "go",
+    code: `func (s *srv) handle(w http.ResponseWriter, r *http.Request) {
+	id := r.URL.Query().Get("id")
+	s.mu.Lock()
+	v, ok := s.m[id]
+	s.mu.Unlock()
+	if !ok {
+		http.NotFound(w, r)
+		return
+	}
+	// FIXME: this blocks if the client is slow
+	json.NewEncoder(w).Encode(v)
+}
+
+func must(err error) {
+	if err != nil {
+		log.Fatal(err)
+	}
+}`
+  }
+];
+
+export const REFERENCE_CORPUS: ReferenceCorpus = {
+  ai: AI_SNIPPETS,
+  human: HUMAN_SNIPPETS
+};
@@ -0,0 +1,86 @@
+import { maskLine } from './lexer';
+import type { TokenSpan } from './lexer';
+import type { DetectionPattern } from './rules';
+
+export interface BlockMatch {
+  rule: DetectionPattern;
+  startLine: number;
+  endLine: number;
+  // Match starts at startColumn of startLine and ends (exclusive) at endColumn of endLine
+  startColumn: number;
+  endColumn: number;
+}
+
+function lineIndexAt(lineStarts: number[], offset: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (lineStarts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+// Runs block-scoped rules over the whole file and returns the matches that cover each line (0-based)
+export function findBlockMatches(lines: string[], lineSpans: TokenSpan[][], rules: DetectionPattern[]): BlockMatch[][] {
+  const matchesByLine: BlockMatch[][] = lines.map(() => []);
+  const blockRules = rules.filter(rule => rule.scope === 'block');
+  if (blockRules.length === 0) return matchesByLine;
+
+  const lineStarts: number[] = [];
+  let position = 0;
+  for (const line of lines) {
+    lineStarts.push(position);
+    position += line.length + 1;
+  }
+
+  const fileViews = new Map<string, string>();
+  const viewFor = (rule: DetectionPattern): string => {
+    const key = rule.appliesTo ? rule.appliesTo.join(',') : '*';
+    if (!fileViews.has(key)) {
+      const view = rule.appliesTo
+        ? lines.map((line, i) => maskLine(line, lineSpans[i], rule.appliesTo!)).join('\n')
+        : lines.join('\n');
+      fileViews.set(key, view);
+    }
+    return fileViews.get(key)!;
+  };
+
+  for (const rule of blockRules) {
+    // Work on a private global copy so the shared rule object keeps no match state
+    const flags = rule.pattern.flags.includes('g') ? rule.pattern.flags : rule.pattern.flags + 'g';
+    const pattern = new RegExp(rule.pattern.source, flags);
+    const text = viewFor(rule);
+
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        pattern.lastIndex++;
+        continue;
+      }
+
+      const matchEnd = match.index + match[0].length;
+      const startLine = lineIndexAt(lineStarts, match.index);
+      const endLine = lineIndexAt(lineStarts, matchEnd - 1);
+      const blockMatch: BlockMatch = {
+        rule,
+        startLine,
+        endLine,
+        startColumn: match.index - lineStarts[startLine],
+        endColumn: matchEnd - lineStarts[endLine]
+      };
+
+      for (let i = startLine; i <= endLine; i++) {
+        if (!matchesByLine[i].some(existing => existing.rule === rule)) {
+          matchesByLine[i].push(blockMatch);
+        }
+      }
+    }
+  }
+
+  return matchesByLine;
+}
@@ -0,0 +1,218 @@
+import { JVM_RULES } from './jvm';
+import { PYTHON_RULES } from './python';
+import { REACT_RULES } from './react';
+import { SCRIPTING_RULES } from './scripting';
+import { SYSTEMS_RULES } from './systems';
+import type { DetectionPattern } from './types';
+
+// AI detection patterns based on real AI vs human coding characteristics
+export const GENERIC_RULES: DetectionPattern[] = [
+  // ChatGPT signature: Sectioned comments with dashes
+  {
+    id: "generic.section-dash-comment",
+    pattern: /<comment>\s*---\s*.*\s*---\s*$/gm,
+    weight: 0.9,
+    reason: "Section-based comments with dashes — signature of AI structure",
+    aiIndicator: true,
+    appliesTo: ["comment"]
+  },
+  
+  // ChatGPT signature: Perfect formatting comment
+  {
+    id: "generic.ai-generation-comment",
+    pattern: /<comment>\s*Generated with.*ChatGPT|<comment>.*AI Code Style Guide/gi,
+    weight: 1.0,
+    reason: "Explicit AI generation comment",
+    aiIndicator: true,
+    appliesTo: ["comment"]
+  },
+  
+  // Step-by-step comments (very common in AI code)
+  {
+    id: "generic.step-comment",
+    pattern: /<comment>\s*Step\s*\d+:|<comment>\s*\d+\./gi,
+    weight: 0.8,
+    reason: "Contains step-by-step comments typical of AI explanations",
+    aiIndicator: true,
+    appliesTo: ["comment"]
+  },
+  
+  // Overly descriptive comments explaining obvious code
+  {
+    id: "generic.verbose-comment",
+    pattern: /<comment>\s*(Get|Parse|Check|Validate|Perform|Display|Calculate|Initialize|Handle|Process).*$/gm,
+    weight: 0.6,
+    reason: "Contains verbose explanatory comments typical of AI generation",
+    aiIndicator: true,
+    appliesTo: ["comment"]
+  },
+  
+  // Generic error messages with examples
+  {
+    id: "generic.structured-error-message",
+    pattern: /(Usage:|Example:|Error:).*$/gm,
+    weight: 0.7,
+    reason: "Contains structured error messages with examples",
+    aiIndicator: true,
+    appliesTo: ["string"]
+  },
+  
+  // ChatGPT signature: try/catch in CLI/sync contexts  
+  {
+    id: "generic.try-catch-console",
+    pattern: /try\s*{[\s\S]*?}\s*catch\s*(\([^)]*\))?\s*{[^}]*?(console\.(error|log)|process\.exit)[^}]*}/g,
+    weight: 0.6,
+    reason: "try/catch with console output in CLI context — typical ChatGPT pattern",
+    aiIndicator: true,
+    appliesTo: ["code"],
+    scope: "block"
+  },
+
+  // Perfect input validation patterns (enhanced)
+  {
+    id: "generic.input-validation",
+    pattern: /(process\.exit\(1\)|isNaN\(|\.length\s*[!=]=|args\.length|Missing\s+(argument|parameter))/g,
+    weight: 0.7,
+    reason: "Contains comprehensive input validation typical of AI first-draft code",
+    aiIndicator: true,
+    appliesTo: ["code", "string"]
+  },
+
+  // ChatGPT signature: Polite error handling with usage examples
+  {
+    id: "generic.polite-error-message",
+    pattern: /(Usage:\s*|Example:\s*|Please\s+(provide|ensure|check))/gi,
+    weight: 0.8,
+    reason: "Polite, structured error messages with usage examples",
+    aiIndicator: true,
+    appliesTo: ["string"]
+  },
+  
+  // Overly descriptive variable names
+  {
+    id: "generic.descriptive-names",
+    pattern: /\b(commandLineArguments|userInput|calculationResult|operatorSymbol)\b/gi,
+    weight: 0.6,
+    reason: "Uses overly descriptive variable names",
+    aiIndicator: true,
+    appliesTo: ["code"]
+  },
+  
+  // Perfect switch/case structure with all cases
+  {
+    id: "generic.exhaustive-switch",
+    pattern: /switch\s*\([^)]+\)\s*{(?:(?!switch\s*\()[\s\S])*?\bdefault\s*:[^}]*}/g,
+    weight: 0.4,
+    reason: "Contains comprehensive switch statement with default case",
+    aiIndicator: true,
+    appliesTo: ["code"],
+    scope: "block"
+  },
+  
+  // AI-style shebang and perfect formatting
+  {
+    id: "generic.shebang",
+    pattern: /^#!/,
+    weight: 0.3,
+    reason: "Includes shebang line typical of AI-generated scripts",
+    aiIndicator: true
+  },
+  
+  // Human indicators
+  
+  // Debug console logs left in code
+  {
+    id: "generic.debug-console-log",
+    pattern: /console\.log\((?!.*Result:|.*Error:|.*Usage:)/g,
+    weight: 0.6,
+    reason: "Contains debug console.log statements",
+    aiIndicator: false,
+    appliesTo: ["code"]
+  },
+  
+  // TODO/FIXME comments (humans leave these)
+  {
+    id: "generic.todo-comment",
+    pattern: /(TODO|FIXME|HACK|XXX):/gi,
+    weight: 0.7,
+    reason: "Contains TODO/FIXME comments indicating human planning",
+    aiIndicator: false,
+    appliesTo: ["comment"]
+  },
+  
+  // Terse or minimal comments
+  {
+    id: "generic.terse-comment",
+    pattern: /<comment>\s*[a-z][^.]*$/gm,
+    weight: 0.3,
+    reason: "Contains short, terse comments typical of human code",
+    aiIndicator: false,
+    appliesTo: ["comment"]
+  },
+  
+  // Abbreviated variable names
+  {
+    id: "generic.abbreviated-names",
+    pattern: /\b(btn|txt|img|nav|auth|cfg|opts|params|ctx|req|res|db|api|temp|tmp|val|str|num|arr|obj)\b/gi,
+    weight: 0.4,
+    reason: "Uses abbreviated variable names common in human code",
+    aiIndicator: false,
+    appliesTo: ["code"]
+  },
+  
+  // Inconsistent spacing or formatting
+  {
+    id: "generic.inconsistent-spacing",
+    pattern: /\s{3,}(?!\s*<comment>)|[;}]\s*[;}]|\t\s+|\s+\t/g,
+    weight: 0.5,
+    reason: "Has inconsistent spacing typical of human editing",
+    aiIndicator: false,
+    appliesTo: ["code", "comment"]
+  },
+  
+  // Quick and dirty solutions (missing error handling)
+  {
+    id: "generic.unvalidated-functional",
+    pattern: /\[[^\]]*\]\.map\(|\.filter\(|\.reduce\(/g,
+    weight: 0.2,
+    reason: "Uses functional programming without extensive validation",
+    aiIndicator: false,
+    appliesTo: ["code"]
+  }
+];
+
+// Language-specific patterns
+export const LANGUAGE_RULES: DetectionPattern[] = [
+  {
+    id: "javascript.console-log",
+    pattern: /console\.log\([^)]*\)/g,
+    weight: 0.2,
+    reason: "Contains debug console.log statements",
+    aiIndicator: false,
+    languages: ["javascript"],
+    appliesTo: ["code"]
+  },
+  {
+    id: "javascript.function-declaration",
+    pattern: /function\s+\w+\s*\([^)]*\)\s*{/g,
+    weight: 0.1,
+    reason: "Uses function declarations",
+    aiIndicator: true,
+    languages: ["javascript"],
+    appliesTo: ["code"]
+  },
+  {
+    id: "typescript.type-annotation",
+    pattern: /:\s*(string|number|boolean|any|unknown|void|never)\b/g,
+    weight: 0.2,
+    reason: "Contains explicit type annotations",
+    aiIndicator: true,
+    languages: ["typescript"],
+    appliesTo: ["code"]
+  },
+  ...PYTHON_RULES,
+  ...JVM_RULES,
+  ...SYSTEMS_RULES,
+  ...SCRIPTING_RULES,
+  ...REACT_RULES
+];
@@ -0,0 +1,58 @@
+import { expandCommentMarker, languageLineage } from '../languages';
+import { GENERIC_RULES, LANGUAGE_RULES } from './builtin';
+import type { DetectionPattern, RuleSetOptions } from './types';
+
+export { COMMENT_MARKER } from '../languages';
+export type { DetectionPattern, RuleOverride, RuleScope, RuleSetOptions } from './types';
+export { GENERIC_RULES, LANGUAGE_RULES } from './builtin';
+export { JVM_RULES } from './jvm';
+export { PYTHON_RULES } from './python';
+export { REACT_RULES } from './react';
+export { SCRIPTING_RULES } from './scripting';
+export { SYSTEMS_RULES } from './systems';
+
+// Every rule shipped with the detector, in evaluation order
+export const BUILTIN_RULES: DetectionPattern[] = [...GENERIC_RULES, ...LANGUAGE_RULES];
+
+// Rules scoped to a language also apply to the languages that inherit from it
+export function ruleAppliesToLanguage(rule: DetectionPattern, language: string): boolean {
+  return !rule.languages || languageLineage(language).some(ancestor => rule.languages!.includes(ancestor));
+}
+
+function baseRules(options: RuleSetOptions): DetectionPattern[] {
+  return [...(options.rules ?? BUILTIN_RULES), ...(options.extraRules ?? [])];
+}
+
+// Ids of every rule the options start from, before language filtering and overrides
+export function ruleSetIds(options: RuleSetOptions = {}): Set<string> {
+  return new Set(baseRules(options).map(rule => rule.id));
+}
+
+// Builds the rule set for a single analysis: base rules, house rules, then overrides
+export function resolveRules(language: string, options: RuleSetOptions = {}): DetectionPattern[] {
+  const rules = baseRules(options);
+  const overrides = options.ruleOverrides ?? {};
+  
+  const seenIds = new Set<string>();
+  for (const rule of rules) {
+    if (seenIds.has(rule.id)) {
+      throw new Error(`Duplicate detection rule id: ${rule.id}`);
+    }
+    seenIds.add(rule.id);
+  }
+  
+  const unknownIds = Object.keys(overrides).filter(id => !seenIds.has(id));
+  if (unknownIds.length > 0) {
+    throw new Error(`Rule overrides reference unknown rule ids: ${unknownIds.join(', ')}`);
+  }
+  
+  return rules
+    .filter(rule => ruleAppliesToLanguage(rule, language))
+    .filter(rule => overrides[rule.id]?.enabled !== false)
+    .map(rule => {
+      const override = overrides[rule.id];
+      return override?.weight !== undefined ? { ...rule, weight: override.weight } : rule;
+    })
+    .map(rule => expandCommentMarker(rule, language))
+    .filter((rule): rule is DetectionPattern => rule !== null);
+}
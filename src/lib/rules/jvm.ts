@@ -0,0 +1,179 @@
+import type { DetectionPattern } from './types';
+
+const JVM_LANGUAGES = ["java", "kotlin", "scala"];
+
+// A parenthesised argument list with at most one level of nesting
+const ARGUMENTS = '\\((?:[^()]|\\([^()]*\\))*\\)';
+
+// A brace-delimited body with at most one level of nested braces
+const BODY = '\\{(?:[^{}]|\\{[^{}]*\\})*';
+
+// Annotation lines (`@Override`, `@JsonProperty("id")`) that may sit between a doc comment and its declaration
+const ANNOTATION_LINES = '(?:[ \\t]*@\\w+(?:\\([^)\\n]*\\))?[ \\t]*\\n)*';
+
+const LOMBOK_ANNOTATIONS = 'Data|Value|Builder|Getter|Setter|ToString|EqualsAndHashCode|NoArgsConstructor|AllArgsConstructor|RequiredArgsConstructor|Slf4j|Log4j2';
+
+export const JVM_RULES: DetectionPattern[] = [
+  // Javadoc/KDoc/Scaladoc on everything, down to trivial accessors
+  {
+    id: "jvm.doc-tags",
+    pattern: /@(?:param|return|throws|exception)\b/g,
+    weight: 0.4,
+    reason: "@param/@return tags filled in on every member",
+    aiIndicator: true,
+    languages: JVM_LANGUAGES,
+    appliesTo: ["comment"]
+  },
+  {
+    id: "jvm.restating-doc",
+    pattern: /^(?:\/\*\*|\*)?[ \t]*(?:Gets|Sets|Returns|Constructs|Creates)[ \t]+(?:a[ \t]+new[ \t]+|an?[ \t]+|the[ \t]+)\w+/g,
+    weight: 0.5,
+    reason: "Doc comment that restates the member it documents",
+    aiIndicator: true,
+    languages: JVM_LANGUAGES,
+    appliesTo: ["comment"]
+  },
+  {
+    id: "java.javadoc-on-accessor",
+    pattern: new RegExp(
+      `\\/\\*\\*(?:[^*]|\\*(?!\\/))*\\*\\/[ \\t]*\\n${ANNOTATION_LINES}[ \\t]*(?:public[ \\t]+)?(?:final[ \\t]+)?[\\w<>\\[\\],?]+(?:[ \\t]+[\\w<>\\[\\],?]+)*?[ \\t]+(?:get|set|is)[A-Z]\\w*\\(`,
+      'g'
+    ),
+    weight: 0.7,
+    reason: "Javadoc written for a plain getter or setter",
+    aiIndicator: true,
+    languages: ["java"],
+    scope: "block"
+  },
+
+  // Builder and getter/setter scaffolding
+  {
+    id: "java.accessor-scaffolding",
+    pattern: /public[ \t]+[\w<>[\],? ]+?[ \t]+(?:get|is)[A-Z]\w*\(\)[ \t]*\{\s*return[ \t]+(?:this\.)?\w+;\s*\}|public[ \t]+void[ \t]+set[A-Z]\w*\([\w<>[\],? ]+?[ \t]+\w+\)[ \t]*\{\s*this\.\w+[ \t]*=[ \t]*\w+;\s*\}/g,
+    weight: 0.4,
+    reason: "Hand-written getter/setter boilerplate",
+    aiIndicator: true,
+    languages: ["java"],
+    appliesTo: ["code"],
+    scope: "block"
+  },
+  {
+    id: "jvm.builder-scaffolding",
+    pattern: /public[ \t]+(?:static[ \t]+)?\w*Builder[ \t]+\w+\([^)]*\)[ \t]*\{\s*(?:this\.\w+[ \t]*=[ \t]*\w+;\s*return[ \t]+this;|return[ \t]+new[ \t]+\w*Builder\(\);)\s*\}|fun[ \t]+\w+\([^)]*\)[ \t]*=[ \t]*apply[ \t]*\{[^}\n]*\}/g,
+    weight: 0.6,
+    reason: "Hand-rolled builder methods",
+    aiIndicator: true,
+    languages: ["java", "kotlin"],
+    appliesTo: ["code"],
+    scope: "block"
+  },
+
+  // Optional chains
+  {
+    id: "java.optional-chain",
+    pattern: new RegExp(`Optional\\.(?:ofNullable|of|empty)${ARGUMENTS}(?:\\s*\\.(?:map|flatMap|filter|or|orElse|orElseGet|orElseThrow|ifPresent|ifPresentOrElse)${ARGUMENTS}){2,}`, 'g'),
+    weight: 0.6,
+    reason: "Optional.ofNullable(...).map(...).orElse(...) chain in place of a null check",
+    aiIndicator: true,
+    languages: ["java"],
+    appliesTo: ["code"],
+    scope: "block"
+  },
+
+  // Exhaustive `when` / `match` / switch expressions with a catch-all arm
+  {
+    id: "jvm.exhaustive-match",
+    pattern: new RegExp(`\\bwhen[ \\t]*(?:\\([^)\\n]*\\))?[ \\t]*${BODY}\\belse[ \\t]*->|\\bmatch[ \\t]*${BODY}\\bcase[ \\t]+_[ \\t]*=>|\\bswitch[ \\t]*\\([^)\\n]*\\)[ \\t]*${BODY}\\bdefault[ \\t]*->`, 'g'),
+    weight: 0.4,
+    reason: "Exhaustive when/match/switch with a catch-all branch",
+    aiIndicator: true,
+    languages: JVM_LANGUAGES,
+    appliesTo: ["code"],
+    scope: "block"
+  },
+
+  // Null-check ladders
+  {
+    id: "jvm.null-check-ladder",
+    pattern: /(?:^[ \t]*if[ \t]*\([^)\n]*[!=]=[ \t]*null[^)\n]*\)[ \t]*\{?\s*throw[ \t]+new[ \t]+\w+\([^\n]*\n(?:[ \t]*\}[ \t]*\n)?(?:[ \t]*\n)*){2,}|(?:^[ \t]*(?:this\.\w+[ \t]*=[ \t]*)?Objects\.requireNonNull\([^\n]*\n){2,}|(?:^[ \t]*(?:val[ \t]+\w+[ \t]*=[ \t]*)?(?:requireNotNull|checkNotNull|require|check)[ \t]*\([^\n]*\n){2,}/gm,
+    weight: 0.6,
+    reason: "Ladder of null checks guarding every argument",
+    aiIndicator: true,
+    languages: ["java", "kotlin"],
+    appliesTo: ["code"],
+    scope: "block"
+  },
+
+  // Stacks of Lombok annotations
+  {
+    id: "java.lombok-stack",
+    pattern: new RegExp(`(?:^[ \\t]*@(?:${LOMBOK_ANNOTATIONS})\\b[^\\n]*\\n){3,}`, 'gm'),
+    weight: 0.6,
+    reason: "Stack of Lombok annotations (@Data, @Builder, @NoArgsConstructor…) on one class",
+    aiIndicator: true,
+    languages: ["java"],
+    appliesTo: ["code"],
+    scope: "block"
+  },
+
+  // Textbook exception wrapping: optionally log, then rethrow with the cause attached
+  {
+    id: "jvm.exception-wrapping",
+    pattern: /catch[ \t]*\([^)]*\)[ \t]*\{\s*(?:(?:log|logger|LOG|LOGGER)\.\w+\([^;\n]*\);?\s*)?throw[ \t]+(?:new[ \t]+)?\w+\([^;\n]*,[ \t]*\w+[ \t]*\);?\s*\}/g,
+    weight: 0.6,
+    reason: "Catches an exception only to wrap and rethrow it with the cause",
+    aiIndicator: true,
+    languages: ["java", "kotlin"],
+    appliesTo: ["code"],
+    scope: "block"
+  },
+
+  // Human indicators
+
+  {
+    id: "jvm.print-debugging",
+    pattern: /System\.(?:out|err)\.print(?:ln)?\(|\.printStackTrace\(\)|^println\(/g,
+    weight: 0.4,
+    reason: "Print debugging or printStackTrace()",
+    aiIndicator: false,
+    languages: JVM_LANGUAGES,
+    appliesTo: ["code"]
+  },
+  {
+    id: "jvm.swallowed-exception",
+    pattern: /catch[ \t]*\([^)]*\)[ \t]*\{\s*\}/g,
+    weight: 0.6,
+    reason: "Empty catch block swallows the exception",
+    aiIndicator: false,
+    languages: JVM_LANGUAGES,
+    appliesTo: ["code"],
+    scope: "block"
+  },
+  {
+    id: "jvm.wildcard-import",
+    pattern: /^import[ \t]+[\w.]+\.(?:\*|_(?!\w))/g,
+    weight: 0.3,
+    reason: "Wildcard import",
+    aiIndicator: false,
+    languages: JVM_LANGUAGES,
+    appliesTo: ["code"]
+  },
+  {
+    id: "jvm.suppress-warnings",
+    pattern: /@SuppressWarnings\(|@Suppress\(/g,
+    weight: 0.3,
+    reason: "Silences compiler warnings instead of fixing them",
+    aiIndicator: false,
+    languages: JVM_LANGUAGES,
+    appliesTo: ["code"]
+  },
+  {
+    id: "jvm.commented-out-code",
+    pattern: /^<comment>[ \t]*(?:System\.out|return\b|\w+(?:\.\w+)*\([^)]*\);|(?:final[ \t]+)?\w+(?:<[^>]*>)?[ \t]+\w+[ \t]*=[^=].*;|\w+(?:\.\w+)*[ \t]*=[^=].*;)/g,
+    weight: 0.5,
+    reason: "Commented-out code left behind",
+    aiIndicator: false,
+    languages: JVM_LANGUAGES,
+    appliesTo: ["comment"]
+  }
+];
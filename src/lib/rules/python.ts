@@ -0,0 +1,243 @@
+import type { DetectionPattern } from './types';
+
+// Blank lines inside a suite don't end it
+const BLANK_LINES = '(?:\\n[ \\t]*(?=\\n))*';
+
+// Source for a header line (`if …:`, `def …:`) followed by its indented suite, where every suite line matches `body`.
+// Group 1 holds the header's indentation, so use one per pattern (repeating it is fine)
+function suite(header: string, body = '\\S[^\\n]*'): string {
+  return `^([ \\t]*)${header}[ \\t]*(?:${BLANK_LINES}\\n\\1[ \\t]+${body})+`;
+}
+
+// A call line plus its deeper-indented continuation lines, at the indentation captured in group 1
+function statementAtIndent(call: string): string {
+  return `\\n\\1${call}[^\\n]*(?:\\n\\1[ \\t]+\\S[^\\n]*)*`;
+}
+
+const LOGGER_CALL = '\\b(?:logging|logger|log|_logger|LOGGER)\\.(?:debug|info|warning|error|exception|critical)\\(';
+
+export const PYTHON_RULES: DetectionPattern[] = [
+  {
+    id: "python.print",
+    pattern: /print\([^)]*\)/g,
+    weight: 0.2,
+    reason: "Contains debug print statements",
+    aiIndicator: false,
+    languages: ["python"],
+    appliesTo: ["code"]
+  },
+  {
+    id: "python.function-definition",
+    pattern: /def\s+\w+\s*\([^)]*\):/g,
+    weight: 0.1,
+    reason: "Uses function definitions",
+    aiIndicator: true,
+    languages: ["python"],
+    appliesTo: ["code"]
+  },
+
+  // Docstring templates: Google, Sphinx and NumPy styles filled in for every function
+  {
+    id: "python.docstring-sections",
+    pattern: /^[ \t]*(?:Args|Arguments|Parameters|Returns|Yields|Raises|Attributes|Examples?|Note):[ \t]*$/gm,
+    weight: 0.6,
+    reason: "Google-style docstring sections (Args/Returns/Raises) — templated AI documentation",
+    aiIndicator: true,
+    languages: ["python"],
+    appliesTo: ["comment"]
+  },
+  {
+    id: "python.docstring-typed-argument",
+    pattern: /^[ \t]*\*{0,2}\w+ \([\w[\], .|]+\):[ \t]+\S/gm,
+    weight: 0.5,
+    reason: "Docstring repeats each parameter's type next to its name",
+    aiIndicator: true,
+    languages: ["python"],
+    appliesTo: ["comment"]
+  },
+  {
+    id: "python.sphinx-fields",
+    pattern: /:(?:param|type|returns?|rtype|raises?)\b[^:\n]*:/g,
+    weight: 0.5,
+    reason: "Sphinx :param:/:returns: fields in docstrings",
+    aiIndicator: true,
+    languages: ["python"],
+    appliesTo: ["comment"]
+  },
+  {
+    id: "python.numpy-docstring-sections",
+    pattern: /^[ \t]*(?:Parameters|Returns|Yields|Raises|See Also|Notes|Examples)[ \t]*\n[ \t]*-{3,}[ \t]*$/gm,
+    weight: 0.5,
+    reason: "NumPy-style underlined docstring sections",
+    aiIndicator: true,
+    languages: ["python"],
+    appliesTo: ["comment"],
+    scope: "block"
+  },
+
+  // Type hints on every parameter and the return value
+  {
+    id: "python.exhaustive-type-hints",
+    pattern: /^[ \t]*(?:async[ \t]+)?def[ \t]+\w+[ \t]*(?![^)\n]*[(,][ \t]*\*{0,2}(?!self\b|cls\b)\w+[ \t]*[,)=])\([^)\n]*\)[ \t]*->[^:\n]+:/gm,
+    weight: 0.5,
+    reason: "Every parameter and the return value carry type hints",
+    aiIndicator: true,
+    languages: ["python"],
+    appliesTo: ["code"]
+  },
+  {
+    id: "python.typing-imports",
+    pattern: /^from[ \t]+typing[ \t]+import[ \t]+\(?[ \t]*\w+(?:[ \t]*,[ \t]*\w+)+/gm,
+    weight: 0.3,
+    reason: "Imports several generic aliases from typing up front",
+    aiIndicator: true,
+    languages: ["python"],
+    appliesTo: ["code"]
+  },
+
+  // `if __name__ == "__main__":` whose only job is to call main()
+  {
+    id: "python.main-guard-scaffolding",
+    pattern: new RegExp(suite(`if __name__ == (?:"__main__"|'__main__'):`, '(?:sys\\.exit\\(|raise SystemExit\\()?main\\(\\)\\)?[ \\t]*$'), 'gm'),
+    weight: 0.5,
+    reason: "if __name__ == \"__main__\": main() scaffolding",
+    aiIndicator: true,
+    languages: ["python"],
+    appliesTo: ["code", "string"],
+    scope: "block"
+  },
+
+  // ArgumentParser followed by a run of add_argument calls
+  {
+    id: "python.argparse-boilerplate",
+    pattern: new RegExp(
+      `^([ \\t]*)\\w+[ \\t]*=[ \\t]*argparse\\.ArgumentParser\\([^\\n]*(?:\\n\\1[ \\t]+\\S[^\\n]*)*(?:${BLANK_LINES}${statementAtIndent('\\w+\\.add_argument\\(')}){3,}`,
+      'gm'
+    ),
+    weight: 0.6,
+    reason: "argparse boilerplate with a help string for every argument",
+    aiIndicator: true,
+    languages: ["python"],
+    appliesTo: ["code"],
+    scope: "block"
+  },
+
+  // f-strings everywhere, including where they don't belong
+  {
+    id: "python.fstring-logging",
+    pattern: new RegExp(`${LOGGER_CALL}[ \\t]*[fF]["']`, 'g'),
+    weight: 0.6,
+    reason: "f-strings passed straight to logging calls",
+    aiIndicator: true,
+    languages: ["python"],
+    appliesTo: ["code", "string"]
+  },
+  {
+    id: "python.fstring-without-placeholder",
+    pattern: /\b[fF](?:"[^"{\n]*"|'[^'{\n]*')/g,
+    weight: 0.4,
+    reason: "f-string prefix on a string with no placeholders",
+    aiIndicator: true,
+    languages: ["python"],
+    appliesTo: ["code", "string"]
+  },
+
+  // Validation ladders: `if …: raise ValueError(f"…")` guard after guard
+  {
+    id: "python.raise-fstring",
+    pattern: /\braise[ \t]+\w*(?:Error|Exception)\([ \t]*[fF]["']/g,
+    weight: 0.5,
+    reason: "Raises exceptions with formatted f-string messages",
+    aiIndicator: true,
+    languages: ["python"],
+    appliesTo: ["code", "string"]
+  },
+  {
+    id: "python.validation-ladder",
+    pattern: new RegExp(`(?:${suite('(?:el)?if\\b[^\\n]*:', 'raise\\b[^\\n]*')}\\n(?:[ \\t]*\\n)*){2,}`, 'gm'),
+    weight: 0.7,
+    reason: "Ladder of if/raise guards validating every argument",
+    aiIndicator: true,
+    languages: ["python"],
+    appliesTo: ["code"],
+    scope: "block"
+  },
+
+  // logging.basicConfig with a format string, or handler/formatter wiring
+  {
+    id: "python.logging-setup",
+    pattern: /logging\.basicConfig\([^)]*\bformat[ \t]*=[^)]*\)|(?:^[ \t]*[\w.]+\.(?:setLevel|setFormatter|addHandler)\([^\n]*\n){2,}/gm,
+    weight: 0.6,
+    reason: "Boilerplate logging configuration block",
+    aiIndicator: true,
+    languages: ["python"],
+    appliesTo: ["code"],
+    scope: "block"
+  },
+
+  // Human indicators
+
+  {
+    id: "python.debugger",
+    pattern: /\bpdb\.set_trace\(|\bbreakpoint\(\)|^[ \t]*import[ \t]+i?pdb\b/gm,
+    weight: 0.8,
+    reason: "Leftover debugger breakpoint",
+    aiIndicator: false,
+    languages: ["python"],
+    appliesTo: ["code"]
+  },
+  {
+    id: "python.bare-except",
+    pattern: /^[ \t]*except[ \t]*:/gm,
+    weight: 0.5,
+    reason: "Bare except: clause",
+    aiIndicator: false,
+    languages: ["python"],
+    appliesTo: ["code"]
+  },
+  {
+    id: "python.one-line-suite",
+    pattern: /^[ \t]*(?:if|elif|else|for|while|try|except|with)\b[^\n]*:[ \t]*(?:return|continue|break|pass|raise|\w+(?:\.\w+)*[ \t]*(?:[-+*/|&^]?=|>>=|<<=|\())/gm,
+    weight: 0.5,
+    reason: "Compound statement squeezed onto one line",
+    aiIndicator: false,
+    languages: ["python"],
+    appliesTo: ["code"]
+  },
+  {
+    id: "python.multiple-imports",
+    pattern: /^import[ \t]+[\w.]+(?:[ \t]*,[ \t]*[\w.]+)+/gm,
+    weight: 0.5,
+    reason: "Several modules imported on one line",
+    aiIndicator: false,
+    languages: ["python"],
+    appliesTo: ["code"]
+  },
+  {
+    id: "python.legacy-string-format",
+    pattern: /(["'])[^"'\n]*%[-#0 +]*\d*(?:\.\d+)?[sdrfx][^"'\n]*\1[ \t]*%[ \t]*[\w(]|(["'])[^"'\n]*\{\d*\}[^"'\n]*\2\.format\(/g,
+    weight: 0.4,
+    reason: "%-formatting or str.format() instead of f-strings",
+    aiIndicator: false,
+    languages: ["python"],
+    appliesTo: ["code", "string"]
+  },
+  {
+    id: "python.commented-out-code",
+    pattern: /#[ \t]*(?:print\(|import |from [\w.]+ import |return\b|\w+(?:\.\w+)*[ \t]*=[^=]|\w+(?:\.\w+)*\([^)]*\)[ \t]*$)/gm,
+    weight: 0.5,
+    reason: "Commented-out code left behind",
+    aiIndicator: false,
+    languages: ["python"],
+    appliesTo: ["comment"]
+  },
+  {
+    id: "python.lint-pragma",
+    pattern: /#[ \t]*(?:noqa\b|type:[ \t]*ignore\b|pylint:[ \t]*disable|pragma:[ \t]*no cover)/g,
+    weight: 0.3,
+    reason: "Linter or type-checker suppression comment",
+    aiIndicator: false,
+    languages: ["python"],
+    appliesTo: ["comment"]
+  }
+];
@@ -0,0 +1,137 @@
+import type { DetectionPattern } from './types';
+
+// JSX rules; TSX inherits them
+const REACT_LANGUAGES = ["jsx"];
+
+// A brace-delimited type body with at most one level of nested braces, closing brace included
+const TYPE_BODY = '\\{(?:[^{}]|\\{[^{}]*\\})*\\}';
+
+// Whitespace and masked-out comments between a declaration and what follows it
+const GAP = '[\\s\\u0000]*';
+
+export const REACT_RULES: DetectionPattern[] = [
+  // A `FooProps` interface or type declared for the `Foo` component right below it
+  {
+    id: "react.props-interface",
+    pattern: new RegExp(
+      `\\b(?:interface|type)[ \\t]+(\\w+)Props\\b[^{;\\n]*${TYPE_BODY}[ \\t]*;?${GAP}(?:export[ \\t]+)?(?:default[ \\t]+)?(?:function[ \\t]+\\1[ \\t]*[<(]|const[ \\t]+\\1[ \\t]*(?::[^=\\n]*)?=)`,
+      'g'
+    ),
+    weight: 0.5,
+    reason: "Dedicated Props interface declared for every component",
+    aiIndicator: true,
+    languages: ["tsx"],
+    appliesTo: ["code"],
+    scope: "block"
+  },
+
+  // useCallback/useMemo everywhere, down to trivial setters
+  {
+    id: "react.memoization",
+    pattern: /\buse(?:Callback|Memo)\(/g,
+    weight: 0.3,
+    reason: "useCallback/useMemo applied everywhere",
+    aiIndicator: true,
+    languages: REACT_LANGUAGES,
+    appliesTo: ["code"]
+  },
+  {
+    id: "react.trivial-callback",
+    pattern: /\buseCallback\([ \t]*\([^)]*\)[ \t]*=>[ \t]*\{?[ \t]*set[A-Z]\w*\(/g,
+    weight: 0.5,
+    reason: "useCallback around a plain state setter",
+    aiIndicator: true,
+    languages: REACT_LANGUAGES,
+    appliesTo: ["code"]
+  },
+
+  // aria-* on every element
+  {
+    id: "react.aria-attributes",
+    pattern: /\baria-[\w-]+=/g,
+    weight: 0.3,
+    reason: "aria-* attributes spelled out on every element",
+    aiIndicator: true,
+    languages: REACT_LANGUAGES,
+    appliesTo: ["code"]
+  },
+
+  // Tailwind class soup: eight or more utility classes in one className
+  {
+    id: "react.tailwind-class-soup",
+    pattern: /\bclassName=\{?[ \t]*(?:(?:cn|clsx|twMerge)\([ \t]*)?["'`][ \t]*(?:[^ \t"'`\n]+[ \t]+){7,}[^ \t"'`\n]+/g,
+    weight: 0.5,
+    reason: "Long Tailwind utility class string",
+    aiIndicator: true,
+    languages: REACT_LANGUAGES,
+    appliesTo: ["code", "string"]
+  },
+
+  // shadcn-style component scaffolding
+  {
+    id: "react.forwarded-props-signature",
+    pattern: /\(\{[ \t]*className(?:,[ \t]*\w+(?:[ \t]*=[ \t]*[^,}]+)?)*,[ \t]*\.\.\.props[ \t]*\}(?:[ \t]*:[^)]*)?(?:,[ \t]*ref)?\)/g,
+    weight: 0.6,
+    reason: "shadcn-style ({ className, ...props }, ref) component signature",
+    aiIndicator: true,
+    languages: REACT_LANGUAGES,
+    appliesTo: ["code"]
+  },
+  {
+    id: "react.display-name",
+    pattern: /^\w+\.displayName[ \t]*=/g,
+    weight: 0.5,
+    reason: "displayName assigned after a forwardRef component",
+    aiIndicator: true,
+    languages: REACT_LANGUAGES,
+    appliesTo: ["code"]
+  },
+  {
+    id: "react.variant-scaffolding",
+    pattern: /\bcva\(|\bVariantProps<typeof[ \t]+\w+>/g,
+    weight: 0.5,
+    reason: "class-variance-authority variant scaffolding",
+    aiIndicator: true,
+    languages: REACT_LANGUAGES,
+    appliesTo: ["code"]
+  },
+
+  // Human indicators
+
+  {
+    id: "react.inline-style",
+    pattern: /\bstyle=\{\{/g,
+    weight: 0.4,
+    reason: "Inline style object",
+    aiIndicator: false,
+    languages: REACT_LANGUAGES,
+    appliesTo: ["code"]
+  },
+  {
+    id: "react.index-key",
+    pattern: /\bkey=\{(?:i|idx|index)\}/g,
+    weight: 0.5,
+    reason: "Array index used as the key",
+    aiIndicator: false,
+    languages: REACT_LANGUAGES,
+    appliesTo: ["code"]
+  },
+  {
+    id: "react.exhaustive-deps-disabled",
+    pattern: /eslint-disable(?:-next)?-line[ \t]+react-hooks\/exhaustive-deps/g,
+    weight: 0.6,
+    reason: "Silences the exhaustive-deps lint instead of fixing the dependencies",
+    aiIndicator: false,
+    languages: REACT_LANGUAGES,
+    appliesTo: ["comment"]
+  },
+  {
+    id: "react.untyped-props",
+    pattern: /\(props:[ \t]*any\)|\bReact\.FC<any>/g,
+    weight: 0.5,
+    reason: "Props typed as any",
+    aiIndicator: false,
+    languages: ["tsx"],
+    appliesTo: ["code"]
+  }
+];
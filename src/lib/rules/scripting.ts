@@ -0,0 +1,220 @@
+import type { DetectionPattern } from './types';
+
+// ANSI colour escapes as they appear in shell variable definitions (`\033[0;31m`, `\e[1m`, `\x1b[0m`)
+const ANSI_ESCAPE = '\\\\(?:033|e|x1[bB])\\[[0-9;]*m';
+
+const SQL_STATEMENT = 'SELECT|INSERT[ \\t]+INTO|UPDATE|DELETE[ \\t]+FROM|CREATE[ \\t]+(?:TABLE|INDEX|VIEW|OR[ \\t]+REPLACE)|ALTER[ \\t]+TABLE|WITH';
+
+export const SCRIPTING_RULES: DetectionPattern[] = [
+  // Shell: strict-mode boilerplate, colour helpers, usage() functions
+
+  {
+    id: "shell.strict-mode",
+    pattern: /^set[ \t]+-(?:euo[ \t]+pipefail|eu[ \t]+-o[ \t]+pipefail|e[ \t]+-u[ \t]+-o[ \t]+pipefail|Eeuo[ \t]+pipefail)\b|^set[ \t]+-o[ \t]+(?:errexit|nounset|pipefail)\b|^IFS=\$'\\n\\t'/g,
+    weight: 0.5,
+    reason: "set -euo pipefail strict-mode boilerplate",
+    aiIndicator: true,
+    languages: ["bash"],
+    appliesTo: ["code", "string"]
+  },
+  {
+    id: "shell.color-variables",
+    pattern: new RegExp(`(?:^[ \\t]*(?:readonly[ \\t]+|declare[ \\t]+-r[ \\t]+)?[A-Z_]+=["']?${ANSI_ESCAPE}["']?[ \\t]*\\n){3,}`, 'gm'),
+    weight: 0.6,
+    reason: "Block of ANSI colour variables (RED, GREEN, NC…)",
+    aiIndicator: true,
+    languages: ["bash"],
+    appliesTo: ["code", "string"],
+    scope: "block"
+  },
+  {
+    id: "shell.log-helpers",
+    pattern: /^(?:function[ \t]+)?(?:log_?(?:info|warn|warning|error|success|debug)|info|warn|error|success|die|print_(?:info|error|success|warning))[ \t]*(?:\(\))?[ \t]*\{/g,
+    weight: 0.5,
+    reason: "Coloured echo helpers (log_info, log_error, success…)",
+    aiIndicator: true,
+    languages: ["bash"],
+    appliesTo: ["code"]
+  },
+  {
+    id: "shell.usage-function",
+    pattern: /^(?:function[ \t]+)?usage[ \t]*(?:\(\))?[ \t]*\{/g,
+    weight: 0.5,
+    reason: "Dedicated usage() function",
+    aiIndicator: true,
+    languages: ["bash"],
+    appliesTo: ["code"]
+  },
+  {
+    id: "shell.argument-loop",
+    pattern: /^while[ \t]+(?:getopts\b|\[\[?[ \t]+(?:"?\$#"?[ \t]+-gt[ \t]+0|-n[ \t]+"?\$\{?1)\b)/g,
+    weight: 0.4,
+    reason: "Textbook while/case argument-parsing loop",
+    aiIndicator: true,
+    languages: ["bash"],
+    appliesTo: ["code", "string"]
+  },
+  {
+    id: "shell.trap-cleanup",
+    pattern: /^trap[ \t]+['"]?\w+['"]?[ \t]+(?:EXIT|ERR|INT|TERM)\b/g,
+    weight: 0.4,
+    reason: "trap cleanup EXIT scaffolding",
+    aiIndicator: true,
+    languages: ["bash"],
+    appliesTo: ["code", "string"]
+  },
+  {
+    id: "shell.backtick-substitution",
+    pattern: /`[^`\n]+`/g,
+    weight: 0.5,
+    reason: "Old-style `backtick` command substitution",
+    aiIndicator: false,
+    languages: ["bash"],
+    appliesTo: ["code"]
+  },
+  {
+    id: "shell.trace-mode",
+    pattern: /^set[ \t]+-x\b/g,
+    weight: 0.6,
+    reason: "set -x tracing left switched on",
+    aiIndicator: false,
+    languages: ["bash"],
+    appliesTo: ["code"]
+  },
+  {
+    id: "shell.unquoted-variable",
+    pattern: /(?:^|[ \t;])(?:rm|cp|mv|cd|cat|mkdir|ls|source)[ \t]+(?:-\w+[ \t]+)*\$\{?\w+/g,
+    weight: 0.4,
+    reason: "Unquoted variable passed to a command",
+    aiIndicator: false,
+    languages: ["bash"],
+    appliesTo: ["code"]
+  },
+
+  // SQL: keyword casing and commented sections
+
+  {
+    id: "sql.uppercase-keywords",
+    pattern: new RegExp(`^(?:${SQL_STATEMENT})\\b(?!.*\\b(?:select|from|where|join|and|or|into|values|set|group|order|by|limit)\\b)`, 'g'),
+    weight: 0.3,
+    reason: "Uniformly upper-cased SQL keywords",
+    aiIndicator: true,
+    languages: ["sql"],
+    appliesTo: ["code"]
+  },
+  {
+    id: "sql.section-comment",
+    pattern: /^--[ \t]*(?:[=#*-]{3,}|(?:Create|Insert|Add|Drop|Update|Seed)[ \t]+(?:the[ \t]+|some[ \t]+)?\w+(?:[ \t]+\w+)?[ \t]+(?:tables?|indexes|index|views?|data|records|rows|triggers?|constraints?)\b)/gi,
+    weight: 0.5,
+    reason: "Commented section headers between statements",
+    aiIndicator: true,
+    languages: ["sql"],
+    appliesTo: ["comment"]
+  },
+  {
+    id: "sql.lowercase-keywords",
+    pattern: /^(?:select|insert[ \t]+into|update|delete[ \t]+from|create[ \t]+table|alter[ \t]+table|with)\b|\b(?:from|where|join|group[ \t]+by|order[ \t]+by)[ \t]/g,
+    weight: 0.4,
+    reason: "Lower-case or mixed-case SQL keywords",
+    aiIndicator: false,
+    languages: ["sql"],
+    appliesTo: ["code"]
+  },
+
+  // PHP: docblocks and strict types
+
+  {
+    id: "php.docblock-tags",
+    pattern: /@(?:param|return|throws|var)\b/g,
+    weight: 0.4,
+    reason: "@param/@return docblock on every function",
+    aiIndicator: true,
+    languages: ["php"],
+    appliesTo: ["comment"]
+  },
+  {
+    id: "php.strict-types",
+    pattern: /declare\([ \t]*strict_types[ \t]*=[ \t]*1[ \t]*\)/g,
+    weight: 0.4,
+    reason: "declare(strict_types=1) header",
+    aiIndicator: true,
+    languages: ["php"],
+    appliesTo: ["code"]
+  },
+  {
+    id: "php.typed-signature",
+    pattern: /function[ \t]+\w+[ \t]*(?![^)\n]*[(,][ \t]*&?\$)\([^)\n]*\)[ \t]*:[ \t]*\??[\w\\|]+/g,
+    weight: 0.4,
+    reason: "Every parameter and the return value are type-declared",
+    aiIndicator: true,
+    languages: ["php"],
+    appliesTo: ["code"]
+  },
+  {
+    id: "php.debug-output",
+    pattern: /\b(?:var_dump|print_r|dd|die)[ \t]*\(/g,
+    weight: 0.6,
+    reason: "var_dump/print_r/die debugging left in",
+    aiIndicator: false,
+    languages: ["php"],
+    appliesTo: ["code"]
+  },
+  {
+    id: "php.error-suppression",
+    pattern: /(?<![\w)])@\$?\w+[ \t]*\(/g,
+    weight: 0.5,
+    reason: "Errors silenced with the @ operator",
+    aiIndicator: false,
+    languages: ["php"],
+    appliesTo: ["code"]
+  },
+
+  // Ruby: YARD docs and guard clauses
+
+  {
+    id: "ruby.yard-tags",
+    pattern: /^#[ \t]*@(?:param|return|raise|yield(?:param|return)?|option|example)\b/g,
+    weight: 0.5,
+    reason: "YARD @param/@return tags on every method",
+    aiIndicator: true,
+    languages: ["ruby"],
+    appliesTo: ["comment"]
+  },
+  {
+    id: "ruby.guard-clause-ladder",
+    pattern: /(?:^[ \t]*(?:raise|return)\b[^\n]*[ \t](?:if|unless)[ \t][^\n]*\n){2,}/gm,
+    weight: 0.6,
+    reason: "Ladder of raise/return guard clauses validating every argument",
+    aiIndicator: true,
+    languages: ["ruby"],
+    appliesTo: ["code"],
+    scope: "block"
+  },
+  {
+    id: "ruby.frozen-string-literal",
+    pattern: /^#[ \t]*frozen_string_literal:[ \t]*true/g,
+    weight: 0.3,
+    reason: "frozen_string_literal magic comment",
+    aiIndicator: true,
+    languages: ["ruby"],
+    appliesTo: ["comment"]
+  },
+  {
+    id: "ruby.debugging",
+    pattern: /\bbinding\.(?:pry|irb)\b|\bbyebug\b|^p[ \t]+\w|\bputs[ \t][^\n]*\.inspect\b/g,
+    weight: 0.7,
+    reason: "Debugging leftovers (binding.pry, byebug, p)",
+    aiIndicator: false,
+    languages: ["ruby"],
+    appliesTo: ["code"]
+  },
+  {
+    id: "ruby.rescue-nil",
+    pattern: /\brescue[ \t]+nil\b|^rescue[ \t]*$/g,
+    weight: 0.5,
+    reason: "Blanket rescue that swallows errors",
+    aiIndicator: false,
+    languages: ["ruby"],
+    appliesTo: ["code"]
+  }
+];
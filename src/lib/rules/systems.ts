@@ -0,0 +1,230 @@
+import type { DetectionPattern } from './types';
+
+const C_FAMILY = ["c", "cpp"];
+
+// Standard library names that only appear unqualified after `using namespace std`
+const UNQUALIFIED_STD = '(?<![\\w:])(?:string|vector|cout|cerr|cin|endl|unordered_map|unique_ptr|shared_ptr|make_unique|make_shared)\\b';
+
+export const SYSTEMS_RULES: DetectionPattern[] = [
+  // Go: error wrapping and table tests
+
+  {
+    id: "go.errorf-wrap",
+    pattern: /fmt\.Errorf\([ \t]*["`][^"`\n]*:[ \t]*%w["`]/g,
+    weight: 0.5,
+    reason: "Wraps the error with fmt.Errorf(\"...: %w\") at every return",
+    aiIndicator: true,
+    languages: ["go"],
+    appliesTo: ["code", "string"]
+  },
+  {
+    id: "go.err-check-wrap",
+    pattern: /if[ \t]+err[ \t]*!=[ \t]*nil[ \t]*\{[ \t]*\n[ \t]*return[ \t]+(?:[\w.&{}]+,[ \t]*)*fmt\.Errorf\([^\n]*%w[^\n]*\n[ \t]*\}/g,
+    weight: 0.4,
+    reason: "if err != nil { return fmt.Errorf(...%w...) } block",
+    aiIndicator: true,
+    languages: ["go"],
+    appliesTo: ["code", "string"],
+    scope: "block"
+  },
+  {
+    id: "go.table-test",
+    pattern: /\[\]struct[ \t]*\{[^}]*\bname[ \t]+string\b[\s\S]*?for[ \t]+_,[ \t]*(\w+)[ \t]*:=[ \t]*range[ \t]+\w+[ \t]*\{\s*t\.Run\([ \t]*\1\.name\b/g,
+    weight: 0.6,
+    reason: "Exhaustive table-driven test with a t.Run per case",
+    aiIndicator: true,
+    languages: ["go"],
+    appliesTo: ["code"],
+    scope: "block"
+  },
+  {
+    id: "go.bare-err-return",
+    pattern: /if[ \t]+err[ \t]*!=[ \t]*nil[ \t]*\{\s*return[ \t]+(?:nil,[ \t]*)*err[ \t]*\n[ \t]*\}/g,
+    weight: 0.4,
+    reason: "Returns the error as is, without wrapping it",
+    aiIndicator: false,
+    languages: ["go"],
+    appliesTo: ["code"],
+    scope: "block"
+  },
+  {
+    id: "go.ignored-error",
+    pattern: /^(?:\w+,[ \t]*)?_[ \t]*:?=[ \t]*[\w.]+\(|^\w+,[ \t]*_[ \t]*:?=[ \t]*[\w.]+\(/g,
+    weight: 0.5,
+    reason: "Discards a returned error with _",
+    aiIndicator: false,
+    languages: ["go"],
+    appliesTo: ["code"]
+  },
+  {
+    id: "go.panic-on-error",
+    pattern: /if[ \t]+err[ \t]*!=[ \t]*nil[ \t]*\{\s*(?:panic\(err\)|log\.Fatal(?:ln|f)?\([^\n]*\))[ \t]*\n[ \t]*\}/g,
+    weight: 0.5,
+    reason: "Panics or exits on error instead of handling it",
+    aiIndicator: false,
+    languages: ["go"],
+    appliesTo: ["code"],
+    scope: "block"
+  },
+
+  // Rust: `?` vs unwrap, derive lists, doc coverage, trait boilerplate
+
+  {
+    id: "rust.question-mark",
+    pattern: /\)\?(?:;|\.|[ \t]*\)|$)/g,
+    weight: 0.3,
+    reason: "Propagates errors with ? throughout",
+    aiIndicator: true,
+    languages: ["rust"],
+    appliesTo: ["code"]
+  },
+  {
+    id: "rust.expect-message",
+    pattern: /\.expect\([ \t]*"(?:Failed to|Unable to|Could not|Should)\b/g,
+    weight: 0.4,
+    reason: "expect() with a polished \"Failed to ...\" message",
+    aiIndicator: true,
+    languages: ["rust"],
+    appliesTo: ["code", "string"]
+  },
+  {
+    id: "rust.long-derive",
+    pattern: /#\[derive\((?:[ \t]*[\w:]+[ \t]*,){3,}/g,
+    weight: 0.5,
+    reason: "Long derive list covering every common trait",
+    aiIndicator: true,
+    languages: ["rust"],
+    appliesTo: ["code"]
+  },
+  {
+    id: "rust.doc-sections",
+    pattern: /^\/\/[/!][ \t]*#[ \t]+(?:Arguments|Returns|Errors|Examples|Panics|Safety)\b/g,
+    weight: 0.6,
+    reason: "/// doc comment with # Arguments/# Returns/# Errors sections",
+    aiIndicator: true,
+    languages: ["rust"],
+    appliesTo: ["comment"]
+  },
+  {
+    id: "rust.restating-doc",
+    pattern: /^\/\/\/[ \t]*(?:Creates|Returns|Gets|Sets|Constructs)[ \t]+(?:a[ \t]+new|an?|the)\b/g,
+    weight: 0.5,
+    reason: "/// doc comment that restates the item it documents",
+    aiIndicator: true,
+    languages: ["rust"],
+    appliesTo: ["comment"]
+  },
+  {
+    id: "rust.display-boilerplate",
+    pattern: /impl\b[^{\n]*\bDisplay[ \t]+for[ \t]+\w+[^{\n]*\{\s*fn[ \t]+fmt[ \t]*\([^)]*\)[^{]*\{|impl\b[^{\n]*\bError[ \t]+for[ \t]+\w+[^{\n]*\{[ \t]*\}/g,
+    weight: 0.5,
+    reason: "impl Display / impl Error boilerplate for a custom type",
+    aiIndicator: true,
+    languages: ["rust"],
+    appliesTo: ["code"],
+    scope: "block"
+  },
+  {
+    id: "rust.unwrap",
+    pattern: /\.unwrap\(\)/g,
+    weight: 0.5,
+    reason: "unwrap() where a human skipped error handling",
+    aiIndicator: false,
+    languages: ["rust"],
+    appliesTo: ["code"]
+  },
+  {
+    id: "rust.debug-macro",
+    pattern: /\bdbg!\(|\b(?:todo|unimplemented)!\(/g,
+    weight: 0.7,
+    reason: "dbg!/todo! left in the code",
+    aiIndicator: false,
+    languages: ["rust"],
+    appliesTo: ["code"]
+  },
+  {
+    id: "rust.allow-lint",
+    pattern: /#!?\[allow\((?:dead_code|unused\w*|clippy::\w+)/g,
+    weight: 0.4,
+    reason: "Silences compiler or clippy warnings",
+    aiIndicator: false,
+    languages: ["rust"],
+    appliesTo: ["code"]
+  },
+
+  // C and C++: include guards, RAII scaffolding, std:: qualification
+
+  {
+    id: "c.guard-and-pragma-once",
+    pattern: /^#pragma[ \t]+once[ \t]*\n(?:[ \t]*\n)*#ifndef[ \t]+\w+[ \t]*\n#define[ \t]+\w+/gm,
+    weight: 0.6,
+    reason: "Both #pragma once and an include guard on the same header",
+    aiIndicator: true,
+    languages: C_FAMILY,
+    appliesTo: ["code"],
+    scope: "block"
+  },
+  {
+    id: "c.include-guard-endif-comment",
+    pattern: /^#endif[ \t]*\/[/*][ \t]*\w+_H(?:PP|H)?_?\b/g,
+    weight: 0.3,
+    reason: "Include guard closed with a comment naming the macro",
+    aiIndicator: true,
+    languages: C_FAMILY
+  },
+  {
+    id: "c.doxygen-tags",
+    pattern: /[@\\](?:brief|param(?:\[(?:in|out|in,out)\])?|return|retval|throws)\b/g,
+    weight: 0.5,
+    reason: "Doxygen @brief/@param tags on every function",
+    aiIndicator: true,
+    languages: C_FAMILY,
+    appliesTo: ["comment"]
+  },
+  {
+    id: "cpp.rule-of-five",
+    pattern: /(?:^[ \t]*(?:~?\w+\((?:const[ \t]+\w+[ \t]*&|\w+[ \t]*&&)?[ \t]*\w*\)|\w+[ \t]*&[ \t]*operator=\((?:const[ \t]+\w+[ \t]*&|\w+[ \t]*&&)[ \t]*\w*\))(?:[ \t]*noexcept)?[ \t]*=[ \t]*(?:delete|default);[^\n]*\n){3,}/gm,
+    weight: 0.6,
+    reason: "Rule-of-five scaffolding with every special member spelled out",
+    aiIndicator: true,
+    languages: ["cpp"],
+    appliesTo: ["code"],
+    scope: "block"
+  },
+  {
+    id: "cpp.raw-new-delete",
+    pattern: /\bdelete[ \t]*(?:\[\][ \t]*)?\w+;|=[ \t]*new[ \t]+\w+(?:[[(]|;)/g,
+    weight: 0.4,
+    reason: "Manual new/delete instead of RAII",
+    aiIndicator: false,
+    languages: ["cpp"],
+    appliesTo: ["code"]
+  },
+  {
+    id: "cpp.using-namespace-std",
+    pattern: /^using[ \t]+namespace[ \t]+std[ \t]*;/g,
+    weight: 0.4,
+    reason: "using namespace std at file scope",
+    aiIndicator: false,
+    languages: ["cpp"],
+    appliesTo: ["code"]
+  },
+  {
+    id: "cpp.mixed-std-qualification",
+    pattern: new RegExp(`\\bstd::\\w+[^;\\n]*${UNQUALIFIED_STD}|${UNQUALIFIED_STD}[^;\\n]*\\bstd::\\w+`, 'g'),
+    weight: 0.5,
+    reason: "Mixes std::-qualified and unqualified standard library names",
+    aiIndicator: false,
+    languages: ["cpp"],
+    appliesTo: ["code"]
+  },
+  {
+    id: "c.disabled-block",
+    pattern: /^#if[ \t]+0\b/g,
+    weight: 0.6,
+    reason: "Code disabled with #if 0",
+    aiIndicator: false,
+    languages: C_FAMILY,
+    appliesTo: ["code"]
+  }
+];
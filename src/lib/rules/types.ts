@@ -0,0 +1,33 @@
+import type { SpanKind } from '../lexer';
+
+export type RuleScope = 'line' | 'block';
+
+export interface DetectionPattern {
+  // Stable identifier used for overrides, filtering and reporting
+  id: string;
+  // `<comment>` in the pattern stands for wherever a comment starts in the target language (`//`, `#`, `--`, `/*`, `"""`…)
+  pattern: RegExp;
+  weight: number;
+  reason: string;
+  aiIndicator: boolean;
+  // Languages the rule applies to, including languages that inherit from them (tsx from typescript and jsx); omit to apply it to every language
+  languages?: string[];
+  // Span kinds the pattern is tested against; omit to test the whole line
+  appliesTo?: SpanKind[];
+  // 'block' patterns run over the whole file and mark every line of each match; defaults to 'line'
+  scope?: RuleScope;
+}
+
+export interface RuleOverride {
+  weight?: number;
+  enabled?: boolean;
+}
+
+export interface RuleSetOptions {
+  // Replaces the built-in rule set entirely
+  rules?: DetectionPattern[];
+  // Appended to the active rule set (e.g. house rules next to the built-ins)
+  extraRules?: DetectionPattern[];
+  // Per-rule adjustments keyed by rule id
+  ruleOverrides?: Record<string, RuleOverride>;
+}
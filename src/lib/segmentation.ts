@@ -0,0 +1,154 @@
+import { clampProbability } from './math';
+
+export type SegmentLabel = 'ai' | 'human';
+
+export interface AuthorshipSegment {
+  label: SegmentLabel;
+  // 1-based, inclusive; spans from the first to the last non-empty line of the run
+  startLine: number;
+  endLine: number;
+  // Non-empty lines in the segment
+  lineCount: number;
+  // Mean posterior probability of the segment's label over its lines
+  confidence: number;
+}
+
+export interface SegmentationOptions {
+  // Penalties (in nats) for changing authorship between consecutive non-empty lines; higher merges longer runs
+  humanToAICost?: number;
+  aiToHumanCost?: number;
+  // Probability that the first line is AI-written
+  initialAIProbability?: number;
+}
+
+export interface Segmentation {
+  segments: AuthorshipSegment[];
+  // Smoothed AI probability per input line (null where the input was null)
+  posteriors: (number | null)[];
+}
+
+export const DEFAULT_SEGMENTATION: Required<SegmentationOptions> = {
+  humanToAICost: 2,
+  aiToHumanCost: 2,
+  initialAIProbability: 0.5
+};
+
+// State 0 = human, state 1 = AI
+type Pair = [number, number];
+
+function transitionMatrix(options: Required<SegmentationOptions>): [Pair, Pair] {
+  const toAI = Math.exp(-options.humanToAICost);
+  const toHuman = Math.exp(-options.aiToHumanCost);
+  return [
+    [1 - toAI, toAI],
+    [toHuman, 1 - toHuman]
+  ];
+}
+
+// Most likely label sequence under a two-state HMM whose emissions are the per-line AI probabilities
+function viterbi(probabilities: number[], transitions: [Pair, Pair], initial: Pair): SegmentLabel[] {
+  const logT = transitions.map(row => row.map(Math.log));
+  const backPointers: Pair[] = [];
+  let scores: Pair = [0, 0];
+
+  probabilities.forEach((p, i) => {
+    const emissions: Pair = [Math.log(1 - p), Math.log(p)];
+    if (i === 0) {
+      scores = [Math.log(initial[0]) + emissions[0], Math.log(initial[1]) + emissions[1]];
+      backPointers.push([0, 1]);
+      return;
+    }
+
+    const next: Pair = [0, 0];
+    const pointers: Pair = [0, 0];
+    for (const state of [0, 1]) {
+      const fromHuman = scores[0] + logT[0][state];
+      const fromAI = scores[1] + logT[1][state];
+      pointers[state] = fromAI > fromHuman ? 1 : 0;
+      next[state] = Math.max(fromHuman, fromAI) + emissions[state];
+    }
+    scores = next;
+    backPointers.push(pointers);
+  });
+
+  const states: number[] = [];
+  let state = scores[1] > scores[0] ? 1 : 0;
+  for (let i = probabilities.length - 1; i >= 0; i--) {
+    states.unshift(state);
+    state = backPointers[i][state];
+  }
+  return states.map(s => (s === 1 ? 'ai' : 'human'));
+}
+
+// Forward-backward with per-step normalization; returns P(AI) for every line given the whole file
+function posteriorsFor(probabilities: number[], transitions: [Pair, Pair], initial: Pair): number[] {
+  const normalize = ([a, b]: Pair): Pair => [a / (a + b), b / (a + b)];
+  const emit = (p: number): Pair => [1 - p, p];
+
+  const forward: Pair[] = [];
+  probabilities.forEach((p, i) => {
+    const [e0, e1] = emit(p);
+    if (i === 0) {
+      forward.push(normalize([initial[0] * e0, initial[1] * e1]));
+      return;
+    }
+    const [f0, f1] = forward[i - 1];
+    forward.push(normalize([
+      (f0 * transitions[0][0] + f1 * transitions[1][0]) * e0,
+      (f0 * transitions[0][1] + f1 * transitions[1][1]) * e1
+    ]));
+  });
+
+  const backward: Pair[] = Array(probabilities.length);
+  for (let i = probabilities.length - 1; i >= 0; i--) {
+    if (i === probabilities.length - 1) {
+      backward[i] = [0.5, 0.5];
+      continue;
+    }
+    const [e0, e1] = emit(probabilities[i + 1]);
+    const [b0, b1] = backward[i + 1];
+    backward[i] = normalize([
+      transitions[0][0] * e0 * b0 + transitions[0][1] * e1 * b1,
+      transitions[1][0] * e0 * b0 + transitions[1][1] * e1 * b1
+    ]);
+  }
+
+  return forward.map(([f0, f1], i) => {
+    const [b0, b1] = backward[i];
+    return normalize([f0 * b0, f1 * b1])[1];
+  });
+}
+
+// Smooths per-line AI probabilities and groups lines into contiguous authorship segments.
+// Null entries (empty lines) carry no evidence and are skipped.
+export function segmentLines(probabilities: (number | null)[], options: SegmentationOptions = {}): Segmentation {
+  const settings = { ...DEFAULT_SEGMENTATION, ...options };
+  const indexes = probabilities.flatMap((p, i) => (p === null ? [] : [i]));
+  const observed = indexes.map(i => clampProbability(probabilities[i]!));
+  const posteriors: (number | null)[] = probabilities.map(() => null);
+  if (observed.length === 0) return { segments: [], posteriors };
+
+  const transitions = transitionMatrix(settings);
+  const initial: Pair = [1 - settings.initialAIProbability, settings.initialAIProbability];
+  const labels = viterbi(observed, transitions, initial);
+  const smoothed = posteriorsFor(observed, transitions, initial);
+  indexes.forEach((lineIndex, i) => {
+    posteriors[lineIndex] = smoothed[i];
+  });
+
+  const segments: AuthorshipSegment[] = [];
+  labels.forEach((label, i) => {
+    const lineNumber = indexes[i] + 1;
+    const support = label === 'ai' ? smoothed[i] : 1 - smoothed[i];
+    const current = segments[segments.length - 1];
+    if (current && current.label === label) {
+      current.confidence = (current.confidence * current.lineCount + support) / (current.lineCount + 1);
+      current.lineCount++;
+      current.endLine = lineNumber;
+    } else {
+      segments.push({ label, startLine: lineNumber, endLine: lineNumber, lineCount: 1, confidence: support });
+    }
+  });
+
+  return { segments, posteriors };
+}
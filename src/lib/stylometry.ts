@@ -0,0 +1,175 @@
+import { maskLine } from './lexer';
+import type { TokenSpan } from './lexer';
+
+export type NamingConvention = 'camelCase' | 'PascalCase' | 'snake_case' | 'SCREAMING_SNAKE_CASE';
+
+// Named per-file style measurements; every field is a plain number (or label) so rows export cleanly
+export interface StylometryFeatures {
+  nonBlankLines: number;
+  identifierCount: number;
+  uniqueIdentifiers: number;
+  meanIdentifierLength: number;
+  // Shannon entropy of the identifier frequency distribution, in bits
+  identifierEntropy: number;
+  // Most common convention among multi-word identifiers; null when there are none
+  dominantNamingConvention: NamingConvention | null;
+  // Share of multi-word identifiers that follow the dominant convention (1 when there are none)
+  namingConsistency: number;
+  // Lines containing a comment, per non-blank line
+  commentDensity: number;
+  // Indentation levels, measured in the file's smallest indent step
+  maxNestingDepth: number;
+  meanNestingDepth: number;
+  meanLineLength: number;
+  lineLengthVariance: number;
+  // Blank lines per line
+  blankLineRatio: number;
+  // Runs of non-blank lines between blank lines
+  meanParagraphLength: number;
+  paragraphLengthVariance: number;
+}
+
+export const STYLOMETRY_FEATURES: (keyof StylometryFeatures)[] = [
+  'nonBlankLines',
+  'identifierCount',
+  'uniqueIdentifiers',
+  'meanIdentifierLength',
+  'identifierEntropy',
+  'dominantNamingConvention',
+  'namingConsistency',
+  'commentDensity',
+  'maxNestingDepth',
+  'meanNestingDepth',
+  'meanLineLength',
+  'lineLengthVariance',
+  'blankLineRatio',
+  'meanParagraphLength',
+  'paragraphLengthVariance'
+];
+
+const IDENTIFIER_PATTERN = /[A-Za-z_$][\w$]*/g;
+// Keywords shared by the supported languages; they say nothing about the author's naming
+const KEYWORDS = new Set([
+  'abstract', 'and', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'def', 'default',
+  'defer', 'del', 'delete', 'do', 'elif', 'else', 'enum', 'except', 'export', 'extends', 'false', 'final', 'finally',
+  'fn', 'for', 'from', 'func', 'function', 'go', 'if', 'impl', 'implements', 'import', 'in', 'instanceof', 'interface',
+  'is', 'lambda', 'let', 'match', 'mut', 'new', 'nil', 'none', 'None', 'not', 'null', 'or', 'package', 'pass',
+  'private', 'protected', 'pub', 'public', 'raise', 'return', 'self', 'static', 'struct', 'super', 'switch', 'this',
+  'throw', 'throws', 'true', 'True', 'False', 'try', 'type', 'typeof', 'undefined', 'use', 'var', 'void', 'while',
+  'with', 'yield'
+]);
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function variance(values: number[]): number {
+  const average = mean(values);
+  return mean(values.map(value => (value - average) ** 2));
+}
+
+// Single-word identifiers fit every convention, so they are not classified
+function namingConvention(identifier: string): NamingConvention | null {
+  const name = identifier.replace(/^[_$]+|[_$]+$/g, '');
+  if (/^[a-z][a-z\d]*(?:[A-Z][a-z\d]*)+$/.test(name)) return 'camelCase';
+  if (/^[A-Z][a-z\d]+(?:[A-Z][a-z\d]*)+$/.test(name)) return 'PascalCase';
+  if (/^[a-z][a-z\d]*(?:_[a-z\d]+)+$/.test(name)) return 'snake_case';
+  if (/^[A-Z][A-Z\d]*(?:_[A-Z\d]+)+$/.test(name)) return 'SCREAMING_SNAKE_CASE';
+  return null;
+}
+
+function indentWidth(line: string): number {
+  const indent = line.match(/^[ \t]*/)?.[0] ?? '';
+  return indent.replace(/\t/g, '    ').length;
+}
+
+export function extractStylometry(lines: string[], lineSpans: TokenSpan[][]): StylometryFeatures {
+  const nonBlank = lines.map((line, i) => ({ line, spans: lineSpans[i] ?? [] })).filter(({ line }) => line.trim());
+
+  // Identifiers come from code only, so names in strings and comments don't count
+  const identifiers = nonBlank.flatMap(({ line, spans }) =>
+    (maskLine(line, spans, ['code']).match(IDENTIFIER_PATTERN) ?? []).filter(token => !KEYWORDS.has(token))
+  );
+  const frequencies = new Map<string, number>();
+  identifiers.forEach(identifier => frequencies.set(identifier, (frequencies.get(identifier) ?? 0) + 1));
+  const identifierEntropy = [...frequencies.values()].reduce((sum, count) => {
+    const p = count / identifiers.length;
+    return sum - p * Math.log2(p);
+  }, 0);
+
+  const conventions = new Map<NamingConvention, number>();
+  for (const identifier of frequencies.keys()) {
+    const convention = namingConvention(identifier);
+    if (convention) conventions.set(convention, (conventions.get(convention) ?? 0) + 1);
+  }
+  const ranked = [...conventions.entries()].sort((a, b) => b[1] - a[1]);
+  const classified = ranked.reduce((sum, [, count]) => sum + count, 0);
+
+  // The smallest non-zero indent is taken as one nesting level
+  const indents = nonBlank.map(({ line }) => indentWidth(line));
+  const step = Math.min(...indents.filter(width => width > 0), Infinity);
+  const depths = indents.map(width => (Number.isFinite(step) ? Math.round(width / step) : 0));
+
+  const paragraphs: number[] = [];
+  let run = 0;
+  for (const line of lines) {
+    if (line.trim()) {
+      run++;
+    } else if (run > 0) {
+      paragraphs.push(run);
+      run = 0;
+    }
+  }
+  if (run > 0) paragraphs.push(run);
+
+  const lengths = nonBlank.map(({ line }) => line.trimEnd().length);
+  return {
+    nonBlankLines: nonBlank.length,
+    identifierCount: identifiers.length,
+    uniqueIdentifiers: frequencies.size,
+    meanIdentifierLength: mean(identifiers.map(identifier => identifier.length)),
+    identifierEntropy,
+    dominantNamingConvention: ranked[0]?.[0] ?? null,
+    namingConsistency: classified > 0 ? ranked[0][1] / classified : 1,
+    commentDensity: nonBlank.length > 0
+      ? nonBlank.filter(({ spans }) => spans.some(span => span.kind === 'comment')).length / nonBlank.length
+      : 0,
+    maxNestingDepth: Math.max(0, ...depths),
+    meanNestingDepth: mean(depths),
+    meanLineLength: mean(lengths),
+    lineLengthVariance: variance(lengths),
+    blankLineRatio: lines.length > 0 ? (lines.length - nonBlank.length) / lines.length : 0,
+    meanParagraphLength: mean(paragraphs),
+    paragraphLengthVariance: variance(paragraphs)
+  };
+}
+
+export interface StylometryRecord {
+  // File path or another name identifying the sample
+  path: string;
+  language: string;
+  // Ground truth such as a corpus label; left empty when unknown
+  label?: string;
+  features: StylometryFeatures;
+}
+
+// One JSON object per line, with the features flattened next to path, language and label
+export function stylometryToJsonl(records: StylometryRecord[]): string {
+  return records
+    .map(({ path, language, label, features }) => JSON.stringify({ path, language, label: label ?? null, ...features }))
+    .join('\n');
+}
+
+function csvField(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function stylometryToCsv(records: StylometryRecord[]): string {
+  const header = ['path', 'language', 'label', ...STYLOMETRY_FEATURES].join(',');
+  const rows = records.map(({ path, language, label, features }) =>
+    [path, language, label ?? null, ...STYLOMETRY_FEATURES.map(feature => features[feature])].map(csvField).join(',')
+  );
+  return [header, ...rows].join('\n');
+}
@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { analyzeCode, SENSITIVITY_PROFILES } from '../src/lib/aiDetection';
+import type { DetectionModel, Detector } from '../src/lib/aiDetection';
+
+const SOURCE = [
+  '// Step 1: Initialize the configuration',
+  'const config = loadConfig();',
+  '',
+  'function main() {',
+  '  return run(config);',
+  '}'
+].join('\n');
+
+const MODEL: DetectionModel = {
+  version: 1,
+  trainedAt: '2024-01-01T00:00:00.000Z',
+  weights: {},
+  bias: 0,
+  calibration: { method: 'logistic', slope: 1, intercept: 0 }
+};
+
+// Votes 90% AI on every non-empty line
+const confident: Detector = {
+  id: 'test.confident',
+  weight: 1,
+  detect: ({ lines }) => ({ lines: lines.map(line => (line.trim() ? { aiProbability: 0.9 } : null)), file: 0.9 })
+};
+
+describe('analyzeCode with a trained model', () => {
+  it('adds the other detectors’ log-odds to the calibrated rules vote', async () => {
+    const base = { simulateLatency: false, model: MODEL, perplexity: false, compression: false, docCompleteness: false } as const;
+    const without = await analyzeCode(SOURCE, 'javascript', base);
+    const withDetector = await analyzeCode(SOURCE, 'javascript', { ...base, detectors: [confident] });
+    const line = withDetector.lineAnalysis[0];
+    const rules = line.detectors.find(entry => entry.detectorId === 'rules')!;
+    const logit = rules.contribution + Math.log(0.9 / 0.1);
+
+    assert.ok(Math.abs(line.aiProbability - 1 / (1 + Math.exp(-logit))) < 1e-9);
+    assert.ok(line.aiProbability > without.lineAnalysis[0].aiProbability);
+  });
+
+  it('rejects disabling the rules detector', async () => {
+    await assert.rejects(
+      analyzeCode(SOURCE, 'javascript', { simulateLatency: false, model: MODEL, detectorWeights: { rules: 0 } }),
+      /rules detector cannot be disabled/
+    );
+  });
+});
+
+describe('analyzeCode without a model', () => {
+  it('keeps smoothed line probabilities inside the profile clamp', async () => {
+    const source = Array.from({ length: 12 }, (_, i) => `// Step ${i + 1}: Initialize the configuration for the module`).join('\n');
+    for (const profile of ['strict', 'balanced', 'lenient'] as const) {
+      const result = await analyzeCode(source, 'javascript', { simulateLatency: false, profile, detectors: [confident] });
+      const { min, max } = SENSITIVITY_PROFILES[profile].clamp;
+      for (const line of result.lineAnalysis) {
+        assert.ok(line.aiProbability >= min && line.aiProbability <= max, `${profile}: ${line.aiProbability}`);
+      }
+      assert.ok(result.lineAnalysis.some(line => line.aiProbability === max), `${profile} should reach its maximum`);
+    }
+  });
+});
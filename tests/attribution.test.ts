@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { attributeLines, attributeRepository, rankTools, resolveSignatures, TOOL_SIGNATURES } from '../src/lib/attribution';
+import type { RepositorySignature, ToolEvidence, ToolId, ToolSignature } from '../src/lib/attribution';
+import { tokenizeLines } from '../src/lib/lexer';
+
+function evidence(signatureId: string, tool: ToolId, weight: number, line?: number): ToolEvidence {
+  return { signatureId, tool, weight, reason: signatureId, ...(line ? { line } : {}) };
+}
+
+function signature(id: string, tool: ToolId, pattern: RegExp, extra: Partial<ToolSignature> = {}): ToolSignature {
+  return { id, tool, pattern, weight: 1, reason: id, ...extra };
+}
+
+describe('rankTools', () => {
+  it('damps repeats of one signature logarithmically and orders tools by weight', () => {
+    const ranked = rankTools([
+      evidence('claude.habit', 'claude', 0.5, 1),
+      evidence('claude.habit', 'claude', 0.5, 2),
+      evidence('claude.habit', 'claude', 0.5, 3),
+      evidence('chatgpt.marker', 'chatgpt', 3, 4)
+    ]);
+    assert.deepEqual(ranked.map(({ tool, name }) => [tool, name]), [['chatgpt', 'ChatGPT'], ['claude', 'Claude']]);
+    assert.equal(ranked[0].weight, 3);
+    assert.ok(Math.abs(ranked[1].weight - 0.5 * (1 + Math.log(3))) < 1e-9);
+  });
+
+  it('adds up distinct signatures of one tool and reports shares that sum to 1', () => {
+    const ranked = rankTools([evidence('v0.a', 'v0', 1), evidence('v0.b', 'v0', 2), evidence('bolt.a', 'bolt', 1)]);
+    assert.deepEqual(ranked.map(({ tool, weight, share }) => [tool, weight, share]), [['v0', 3, 0.75], ['bolt', 1, 0.25]]);
+  });
+
+  it('keeps the strongest evidence first, capped at five entries', () => {
+    const entries = [0.1, 0.9, 0.3, 0.7, 0.5, 0.2].map((weight, i) => evidence(`gemini.s${i}`, 'gemini', weight));
+    const [candidate] = rankTools(entries);
+    assert.deepEqual(candidate.evidence.map(({ weight }) => weight), [0.9, 0.7, 0.5, 0.3, 0.2]);
+    assert.ok(Math.abs(candidate.weight - 2.7) < 1e-9);
+  });
+
+  it('returns no candidates without evidence', () => {
+    assert.deepEqual(rankTools([]), []);
+  });
+});
+
+describe('resolveSignatures', () => {
+  it('keeps signatures for the language and its ancestors and appends extra signatures', () => {
+    const signatures = [
+      signature('claude.any', 'claude', /x/),
+      signature('v0.tsx', 'v0', /x/, { languages: ['typescript'] }),
+      signature('chatgpt.py', 'chatgpt', /x/, { languages: ['python'] })
+    ];
+    const resolved = resolveSignatures('tsx', { toolSignatures: signatures, extraToolSignatures: [signature('bolt.extra', 'bolt', /x/)] });
+    assert.deepEqual(resolved.map(({ id }) => id), ['claude.any', 'v0.tsx', 'bolt.extra']);
+  });
+
+  it('expands <comment> into the comment openers of the language and drops comment signatures without them', () => {
+    const signatures = [signature('gemini.imports', 'gemini', /<comment>\s*Import necessary/i), signature('claude.any', 'claude', /x/)];
+    assert.equal(resolveSignatures('sql', { toolSignatures: signatures })[0].pattern.test('-- import necessary libraries'), true);
+    assert.deepEqual(resolveSignatures('json', { toolSignatures: signatures }).map(({ id }) => id), ['claude.any']);
+    assert.equal(signatures[0].pattern.source, '<comment>\\s*Import necessary');
+  });
+
+  it('rejects duplicate ids', () => {
+    assert.throws(() => resolveSignatures('python', { extraToolSignatures: [{ ...TOOL_SIGNATURES[0] }] }), /Duplicate tool signature id/);
+  });
+});
+
+describe('attributeLines', () => {
+  it('tests each signature against the span kinds it applies to and reports 1-based lines', () => {
+    const lines = ['const note = "made by bot";', '// made by bot', ''];
+    const signatures = [signature('copilot.comment', 'copilot', /made by bot/, { appliesTo: ['comment'] }), signature('copilot.any', 'copilot', /bot/)];
+    const found = attributeLines(lines, tokenizeLines(lines, 'javascript'), signatures);
+    assert.deepEqual(found.map(entries => entries.map(({ signatureId, line, span }) => [signatureId, line, span])), [
+      [['copilot.any', 1, { start: 22, end: 25 }]],
+      [['copilot.comment', 2, { start: 3, end: 14 }], ['copilot.any', 2, { start: 11, end: 14 }]],
+      []
+    ]);
+  });
+});
+
+describe('built-in comment signatures', () => {
+  function signatureIds(language: string, ...lines: string[]): string[] {
+    return attributeLines(lines, tokenizeLines(lines, language), resolveSignatures(language)).flat().map(({ signatureId }) => signatureId);
+  }
+
+  it('match indented, SQL, block and docstring comments', () => {
+    assert.deepEqual(signatureIds('javascript', 'function run() {', '  // Example usage:', '}'), ['chatgpt.example-usage']);
+    assert.deepEqual(signatureIds('sql', '-- Example usage:'), ['chatgpt.example-usage']);
+    assert.deepEqual(signatureIds('java', '/*', ' * TODO: implement this', ' */'), ['copilot.todo-stub']);
+    assert.deepEqual(signatureIds('python', '"""', 'Import the necessary libraries', '"""'), ['gemini.necessary-imports']);
+  });
+
+  it('ignore the same text outside comments', () => {
+    assert.deepEqual(signatureIds('javascript', 'const label = "Example usage:";'), []);
+  });
+});
+
+describe('attributeRepository', () => {
+  const signatures: RepositorySignature[] = [
+    { id: 'lovable.path', tool: 'lovable', target: 'path', pattern: /^\.lovable\//, weight: 2, reason: 'Lovable config' },
+    { id: 'claude.author', tool: 'claude', target: 'commit-author', pattern: /claude/i, weight: 1, reason: 'Commits by Claude' },
+    { id: 'copilot.message', tool: 'copilot', target: 'commit-message', pattern: /copilot/i, weight: 1, reason: 'Copilot in commits' }
+  ];
+
+  it('names the first matching path and counts matching commits', () => {
+    const found = attributeRepository(
+      ['src/app.ts', '.lovable/config.json', '.lovable/other.json'],
+      [{ author: 'Claude', message: 'fix' }, { author: 'claude-bot' }, { author: 'Ann', message: 'tidy up' }],
+      signatures
+    );
+    assert.deepEqual(found, [
+      { signatureId: 'lovable.path', tool: 'lovable', weight: 2, reason: 'Lovable config', path: '.lovable/config.json' },
+      { signatureId: 'claude.author', tool: 'claude', weight: 1, reason: 'Commits by Claude (2)' }
+    ]);
+  });
+});
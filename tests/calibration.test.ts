@@ -0,0 +1,115 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  applyCalibration,
+  fitIsotonicCalibration,
+  fitLogisticCalibration,
+  parseDetectionModel,
+  rawScore,
+  trainWeights
+} from '../src/lib/calibration';
+import type { CalibrationSample } from '../src/lib/calibration';
+
+// Deterministic scores in [-3, 3] whose labels mostly, but not always, follow the sign
+function noisySamples(): CalibrationSample[] {
+  return Array.from({ length: 60 }, (_, i) => {
+    const score = -3 + i * 0.1;
+    const flipped = i % 7 === 0;
+    return { score, label: (score > 0) !== flipped ? 1 : 0 };
+  });
+}
+
+describe('fitIsotonicCalibration', () => {
+  it('fits a non-decreasing step function', () => {
+    const curve = fitIsotonicCalibration(noisySamples());
+    assert.equal(curve.method, 'isotonic');
+    if (curve.method !== 'isotonic') return;
+    for (let i = 1; i < curve.values.length; i++) {
+      assert.ok(curve.values[i] > curve.values[i - 1], `values[${i}] should rise`);
+      assert.ok(curve.thresholds[i] > curve.thresholds[i - 1], `thresholds[${i}] should rise`);
+    }
+  });
+
+  it('gives calibrated probabilities that never fall as the score rises', () => {
+    const curve = fitIsotonicCalibration(noisySamples());
+    let previous = -Infinity;
+    for (let score = -4; score <= 4; score += 0.05) {
+      const probability = applyCalibration(curve, score);
+      assert.ok(probability >= previous, `probability dropped at ${score.toFixed(2)}`);
+      previous = probability;
+    }
+  });
+
+  it('pools adjacent violators into their mean', () => {
+    const curve = fitIsotonicCalibration([
+      { score: 0, label: 0 },
+      { score: 1, label: 1 },
+      { score: 2, label: 0 },
+      { score: 3, label: 1 }
+    ]);
+    assert.deepEqual(curve, { method: 'isotonic', thresholds: [0, 1, 3], values: [0, 0.5, 1] });
+  });
+
+  it('maps scores below the first threshold to the lowest value', () => {
+    const curve = fitIsotonicCalibration([{ score: 1, label: 0 }, { score: 2, label: 1 }]);
+    assert.equal(applyCalibration(curve, -10), 0);
+    assert.equal(applyCalibration(curve, 10), 1);
+  });
+});
+
+describe('fitLogisticCalibration', () => {
+  it('learns a rising curve centred near the class boundary', () => {
+    const curve = fitLogisticCalibration(noisySamples(), 2000, 0.5);
+    assert.equal(curve.method, 'logistic');
+    if (curve.method !== 'logistic') return;
+    assert.ok(curve.slope > 0);
+    assert.ok(Math.abs(applyCalibration(curve, 0) - 0.5) < 0.1);
+    assert.ok(applyCalibration(curve, 3) > 0.8);
+    assert.ok(applyCalibration(curve, -3) < 0.2);
+  });
+
+  it('applies sigmoid(slope * score + intercept)', () => {
+    const probability = applyCalibration({ method: 'logistic', slope: 2, intercept: -1 }, 1);
+    assert.equal(probability, 1 / (1 + Math.exp(-1)));
+  });
+
+  it('keeps the identity curve when there are no samples', () => {
+    assert.deepEqual(fitLogisticCalibration([]), { method: 'logistic', slope: 1, intercept: 0 });
+  });
+});
+
+describe('rawScore', () => {
+  it('falls back to hand-set weights for features the model never saw', () => {
+    const model = { weights: { known: 2 }, bias: -1 };
+    assert.equal(rawScore(model, { known: 1, house: 1, ignored: 1 }, { house: 0.5 }), 1.5);
+  });
+});
+
+describe('trainWeights', () => {
+  it('gives AI-only features positive and human-only features negative weights', () => {
+    const samples = [
+      ...Array.from({ length: 10 }, () => ({ features: { ai: 1 }, label: 1 })),
+      ...Array.from({ length: 10 }, () => ({ features: { human: 1 }, label: 0 }))
+    ];
+    const { weights } = trainWeights(samples);
+    assert.ok(weights.ai > 0);
+    assert.ok(weights.human < 0);
+  });
+});
+
+describe('parseDetectionModel', () => {
+  const model = { version: 1, trainedAt: '2024-01-01T00:00:00.000Z', weights: { a: 1 }, bias: 0, calibration: { method: 'logistic', slope: 1, intercept: 0 } };
+
+  it('accepts JSON text and parsed objects', () => {
+    assert.deepEqual(parseDetectionModel(JSON.stringify(model)), model);
+    assert.equal(parseDetectionModel(model), model);
+  });
+
+  it('rejects unknown versions and malformed calibration curves', () => {
+    assert.throws(() => parseDetectionModel({ ...model, version: 2 }), /Unsupported detection model/);
+    assert.throws(
+      () => parseDetectionModel({ ...model, calibration: { method: 'isotonic', thresholds: [0], values: [] } }),
+      /calibration must be/
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { detectCodeUnits, scoreCodeUnits } from '../src/lib/codeUnits';
+import type { CodeUnitRange } from '../src/lib/codeUnits';
+import { tokenizeLines } from '../src/lib/lexer';
+import type { Verdict } from '../src/lib/aiDetection';
+
+function units(language: string, ...lines: string[]): [string, string, number, number][] {
+  return detectCodeUnits(lines, tokenizeLines(lines, language), language).map(unit => [unit.kind, unit.name, unit.startLine, unit.endLine]);
+}
+
+describe('detectCodeUnits', () => {
+  it('finds JavaScript functions, arrow functions, classes and their methods', () => {
+    assert.deepEqual(units('typescript',
+      'export async function load(path: string) {',
+      '  const text = "}";',
+      '  return text; // }',
+      '}',
+      'const double = (n: number): number => n * 2;',
+      'export class Store {',
+      '  private items = [];',
+      '  get(id: string) {',
+      '    if (id) {',
+      '      return this.items[0];',
+      '    }',
+      '  }',
+      '}'
+    ), [
+      ['function', 'load', 1, 4],
+      ['function', 'double', 5, 5],
+      ['class', 'Store', 6, 13],
+      ['method', 'get', 8, 12]
+    ]);
+  });
+
+  it('does not mistake calls and control flow for methods', () => {
+    assert.deepEqual(units('javascript', 'run(config);', 'if (ready) {', '  start();', '}'), []);
+  });
+
+  it('keeps braces in parameter lists out of the body', () => {
+    assert.deepEqual(units('javascript', 'function draw({ x, y } = {}) {', '  plot(x, y);', '}'), [['function', 'draw', 1, 3]]);
+  });
+
+  it('ends Python units where the indentation does, skipping comments and docstrings', () => {
+    assert.deepEqual(units('python',
+      'class Parser:',
+      '    def parse(self, text):',
+      '        """Parse the text.',
+      '',
+      'Continues at column zero.',
+      '        """',
+      '        return text',
+      '',
+      '# module comment',
+      'def main():',
+      '    pass'
+    ), [
+      ['class', 'Parser', 1, 7],
+      ['method', 'parse', 2, 7],
+      ['function', 'main', 10, 11]
+    ]);
+  });
+
+  it("includes Ruby's closing end line", () => {
+    assert.deepEqual(units('ruby', 'def greet(name)', '  puts name', 'end', 'greet("x")'), [['function', 'greet', 1, 3]]);
+  });
+
+  it('treats Go functions with a receiver as methods', () => {
+    assert.deepEqual(units('go', 'func (s *Server) Start() error {', '\treturn nil', '}', 'func main() {', '}'), [
+      ['method', 'Start', 1, 3],
+      ['function', 'main', 4, 5]
+    ]);
+  });
+
+  it('finds typed signatures in Java classes but not statements or declarations', () => {
+    assert.deepEqual(units('java',
+      'public class Greeter {',
+      '  private final String name;',
+      '  public String greet(String other) {',
+      '    return name + other;',
+      '  }',
+      '  abstract void reset();',
+      '}'
+    ), [
+      ['class', 'Greeter', 1, 7],
+      ['method', 'greet', 3, 5]
+    ]);
+  });
+
+  it('returns nothing for languages without unit syntax', () => {
+    assert.deepEqual(units('yaml', 'name: detector'), []);
+  });
+});
+
+function line(aiProbability: number, verdict: Verdict, reasons: [string, 'ai' | 'human'][] = [], content = 'code();') {
+  return { content, verdict, aiProbability, reasons: reasons.map(([ruleId, direction]) => ({ ruleId, direction, message: ruleId })) };
+}
+
+const RANGE: CodeUnitRange = { kind: 'function', name: 'run', startLine: 1, endLine: 4 };
+
+describe('scoreCodeUnits', () => {
+  it('averages the non-empty lines and counts their verdicts', () => {
+    const [unit] = scoreCodeUnits([RANGE], [line(0.9, 'ai'), line(0.5, 'uncertain'), line(0.5, 'uncertain', [], '  '), line(0.7, 'ai')], 0.1);
+    assert.ok(Math.abs(unit.aiScore - 0.7) < 1e-9);
+    assert.equal(unit.verdict, 'ai');
+    assert.equal(unit.isAI, true);
+    assert.ok(Math.abs(unit.confidence - 0.7) < 1e-9);
+    assert.deepEqual([unit.aiLines, unit.uncertainLines, unit.totalLines], [2, 1, 3]);
+  });
+
+  it('calls units inside the uncertainty band uncertain and empty units neutral', () => {
+    const [uncertain] = scoreCodeUnits([RANGE], [line(0.55, 'uncertain'), line(0.45, 'uncertain')], 0.1);
+    assert.equal(uncertain.verdict, 'uncertain');
+    const [empty] = scoreCodeUnits([RANGE], [line(0.9, 'ai', [], '')], 0.1);
+    assert.equal(empty.aiScore, 0.5);
+    assert.equal(empty.totalLines, 0);
+  });
+
+  it('ranks reasons agreeing with the verdict by how decisive their lines were', () => {
+    const [unit] = scoreCodeUnits([RANGE], [
+      line(0.95, 'ai', [['strong', 'ai'], ['counter', 'human']]),
+      line(0.6, 'ai', [['weak', 'ai']]),
+      line(0.4, 'human', [['ignored', 'ai']]),
+      line(0.8, 'ai', [['weak', 'ai'], ['other', 'ai']])
+    ], 0.1);
+    assert.deepEqual(unit.reasons, ['strong', 'weak', 'other']);
+  });
+});
@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { analyzeCommentProse, extractComments } from '../src/lib/commentProse';
+import { tokenizeLines } from '../src/lib/lexer';
+
+function comments(language: string, ...lines: string[]) {
+  return extractComments(lines, tokenizeLines(lines, language)).map(({ kind, startLine, endLine, text, code }) => [kind, startLine, endLine, text, code]);
+}
+
+function prose(language: string, ...lines: string[]) {
+  return analyzeCommentProse(lines, tokenizeLines(lines, language));
+}
+
+describe('extractComments', () => {
+  it('joins consecutive comment lines and pairs them with the next code line', () => {
+    assert.deepEqual(comments('javascript',
+      '// Load the user',
+      '// from the cache.',
+      '',
+      'const user = cache.get(id);'
+    ), [['comment', 1, 2, 'Load the user from the cache.', 'const user = cache.get(id);']]);
+  });
+
+  it('strips block comment delimiters and decorative rules', () => {
+    assert.deepEqual(comments('javascript', '/* ------', ' * Retry the request.', ' */', 'retry();'), [
+      ['comment', 1, 3, 'Retry the request.', 'retry();']
+    ]);
+  });
+
+  it('keeps trailing comments as one-line blocks about their own line', () => {
+    assert.deepEqual(comments('python', '# Totals', 'total = sum(items)  # add them up', 'print(total)'), [
+      ['comment', 1, 1, 'Totals', 'total = sum(items)  # add them up'],
+      ['comment', 2, 2, 'add them up', 'total = sum(items)  ']
+    ]);
+  });
+
+  it('reads Python docstrings as one block about the signature above', () => {
+    assert.deepEqual(comments('python', 'def load(path):', '    """Load the file.', '', '    Returns the rows."""', '    return read(path)'), [
+      ['docstring', 2, 4, 'Load the file. Returns the rows.', 'def load(path):']
+    ]);
+    assert.deepEqual(comments('python', 'def load(path):', '    """Load the file."""', '    # Read it', '    return read(path)').map(([kind, start]) => [kind, start]), [
+      ['docstring', 2],
+      ['comment', 3]
+    ]);
+  });
+});
+
+describe('analyzeCommentProse', () => {
+  it('skips comments too short to be prose', () => {
+    assert.equal(prose('javascript', '// TODO: later', 'run();', '// @ts-ignore', 'run();'), null);
+  });
+
+  it('scores templated, formal comments as AI and terse informal ones as human', () => {
+    const ai = prose('javascript',
+      '// This function ensures that the user data is loaded efficiently and handled gracefully.',
+      'function loadUserData(userId) {'
+    )!;
+    const human = prose('javascript', '// hack: cache is stale sometimes, not sure why', 'function loadUserData(userId) {')!;
+
+    assert.ok(ai.aiProbability > 0.9, `${ai.aiProbability}`);
+    assert.ok(human.aiProbability < 0.2, `${human.aiProbability}`);
+    assert.ok(ai.comments[0].reasons.includes("Opens with \"This function/class…\""));
+    assert.ok(ai.comments[0].reasons.includes("Every sentence is capitalized and punctuated"));
+    assert.ok(human.comments[0].reasons.some(reason => reason.startsWith('Informal markers')));
+    assert.ok(human.comments[0].reasons.includes("Lowercase fragments"));
+  });
+
+  it('flags comments that restate the identifiers of the code below', () => {
+    const score = prose('javascript', '// Load user data.', 'function loadUserData(userId) {')!;
+    assert.equal(score.features.redundancy, 1);
+    assert.ok(score.comments[0].reasons.includes("Restates the identifiers of the code it describes"));
+  });
+
+  it('weights the file score by words and reports rates per sentence and per 100 words', () => {
+    const score = prose('python',
+      '# This module loads data. Keep in mind the cache.',
+      'import cache',
+      '',
+      '# maybe retry here later',
+      'retry()'
+    )!;
+    const [first, second] = score.comments;
+    assert.equal(score.commentCount, 2);
+    assert.equal(score.wordCount, 13);
+    assert.ok(Math.abs(score.aiProbability - (first.aiProbability * 9 + second.aiProbability * 4) / 13) < 1e-9);
+    assert.equal(score.confidence, Math.max(score.aiProbability, 1 - score.aiProbability));
+    assert.equal(score.features.templateRate, 1);
+    assert.equal(score.features.capitalizationRate, 2 / 3);
+    assert.equal(score.features.punctuationRate, 2 / 3);
+    assert.equal(score.features.informalMarkerRate, 100 / 13);
+  });
+});
@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { combineDetectors, resolveDetectors } from '../src/lib/detectors';
+import type { Detector, DetectorOutput, WeightedOutput } from '../src/lib/detectors';
+
+const logit = (p: number) => Math.log(p / (1 - p));
+const sigmoid = (value: number) => 1 / (1 + Math.exp(-value));
+
+function detector(id: string, weight = 1): Detector {
+  return { id, weight, detect: () => ({ lines: [], file: null }) };
+}
+
+function vote(id: string, weight: number, output: DetectorOutput): WeightedOutput {
+  return { detector: detector(id, weight), weight, output };
+}
+
+function assertClose(actual: number | null, expected: number): void {
+  assert.ok(actual !== null && Math.abs(actual - expected) < 1e-9, `${actual} vs ${expected}`);
+}
+
+describe('resolveDetectors', () => {
+  it('applies weight overrides and drops disabled detectors', () => {
+    const resolved = resolveDetectors([detector('a'), detector('b', 0.5), detector('c')], { b: 2, c: 0 });
+    assert.deepEqual(resolved.map(({ detector, weight }) => [detector.id, weight]), [['a', 1], ['b', 2]]);
+  });
+
+  it('rejects duplicate ids and weights for unknown ids', () => {
+    assert.throws(() => resolveDetectors([detector('a'), detector('a')]), /Duplicate detector id "a"/);
+    assert.throws(() => resolveDetectors([detector('a')], { missing: 1 }), /unknown detector ids: missing/);
+  });
+});
+
+describe('combineDetectors', () => {
+  it('adds weighted log-odds across the detectors that voted on a line', () => {
+    const { lines } = combineDetectors([
+      vote('a', 1, { lines: [{ aiProbability: 0.8 }, { aiProbability: 0.7 }, null], file: null }),
+      vote('b', 0.5, { lines: [{ aiProbability: 0.3 }, null, null], file: null })
+    ], 3);
+
+    assertClose(lines[0].aiProbability, sigmoid(logit(0.8) + 0.5 * logit(0.3)));
+    assertClose(lines[1].aiProbability, 0.7);
+    assert.equal(lines[2].aiProbability, null);
+    assert.deepEqual(lines[0].contributions.map(entry => entry.detectorId), ['a', 'b']);
+    assertClose(lines[0].contributions[1].contribution, 0.5 * logit(0.3));
+  });
+
+  it('keeps probabilities of exactly 0 or 1 finite', () => {
+    const { lines } = combineDetectors([
+      vote('a', 1, { lines: [{ aiProbability: 1 }], file: null }),
+      vote('b', 1, { lines: [{ aiProbability: 0 }], file: null })
+    ], 1);
+    assertClose(lines[0].aiProbability, 0.5);
+  });
+
+  it('collects every reason and the first score breakdown', () => {
+    const score = { method: 'ratio' as const, aiWeight: 1, humanWeight: 0, bias: 0, baseProbability: 1 };
+    const reason = (ruleId: string) => ({ ruleId, direction: 'ai' as const, contribution: 1, message: ruleId });
+    const { lines } = combineDetectors([
+      vote('a', 1, { lines: [{ aiProbability: 0.6, reasons: [reason('a.rule')], score }], file: null }),
+      vote('b', 1, { lines: [{ aiProbability: 0.6, reasons: [reason('b.rule')] }], file: null })
+    ], 1);
+    assert.deepEqual(lines[0].reasons.map(entry => entry.ruleId), ['a.rule', 'b.rule']);
+    assert.equal(lines[0].score, score);
+  });
+
+  it('pools file votes and reports each detector’s share of the line evidence', () => {
+    const { fileProbability, reports } = combineDetectors([
+      vote('a', 1, { lines: [{ aiProbability: sigmoid(3) }], file: 0.9 }),
+      vote('b', 1, { lines: [{ aiProbability: sigmoid(-1) }], file: null }),
+      vote('c', 1, { lines: [null], file: 0.2 })
+    ], 1);
+    assertClose(fileProbability, sigmoid(logit(0.9) + logit(0.2)));
+    assert.deepEqual(reports.map(report => report.detectorId), ['a', 'b', 'c']);
+    assertClose(reports[0].lineShare, 0.75);
+    assertClose(reports[1].lineShare, 0.25);
+    assert.equal(reports[1].fileContribution, 0);
+    assert.equal(reports[2].lineShare, 0);
+  });
+
+  it('has no file probability when no detector votes on the file', () => {
+    assert.equal(combineDetectors([vote('a', 1, { lines: [], file: null })], 0).fileProbability, null);
+  });
+
+  it('clamps pooled line probabilities to the given range', () => {
+    const { lines } = combineDetectors([
+      vote('a', 1, { lines: [{ aiProbability: 0.99 }, { aiProbability: 0.01 }, { aiProbability: 0.6 }], file: null })
+    ], 3, { clamp: { min: 0.1, max: 0.95 } });
+    assert.equal(lines[0].aiProbability, 0.95);
+    assert.equal(lines[1].aiProbability, 0.1);
+    assertClose(lines[2].aiProbability, 0.6);
+  });
+
+  it('passes a detector’s error through to its report', () => {
+    const { reports } = combineDetectors([vote('onnx', 1, { lines: [null], file: null, error: 'model failed' })], 1);
+    assert.equal(reports[0].error, 'model failed');
+  });
+});
@@ -0,0 +1,193 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { detectCodeUnits } from '../src/lib/codeUnits';
+import { analyzeDocCompleteness } from '../src/lib/docCompleteness';
+import type { FunctionDocumentation } from '../src/lib/docCompleteness';
+import { tokenizeLines } from '../src/lib/lexer';
+
+function analyze(language: string, ...lines: string[]) {
+  const lineSpans = tokenizeLines(lines, language);
+  return analyzeDocCompleteness(lines, lineSpans, language, detectCodeUnits(lines, lineSpans, language));
+}
+
+function only(language: string, ...lines: string[]): FunctionDocumentation {
+  const functions = analyze(language, ...lines)!.functions;
+  assert.equal(functions.length, 1);
+  return functions[0];
+}
+
+const ADD_JSDOC = [
+  '/**',
+  ' * Adds two numbers.',
+  ' * @param {number} a - The first number',
+  ' * @param {number} b - The second number',
+  ' * @returns {number} The sum',
+  ' */',
+  'function add(a, b) {',
+  '  return a + b;',
+  '}'
+];
+
+describe('analyzeDocCompleteness', () => {
+  it('returns null without functions', () => {
+    assert.equal(analyze('javascript', 'const x = 1;'), null);
+  });
+
+  it('reads JSDoc tags, the return value and the section layout', () => {
+    const entry = only('javascript', ...ADD_JSDOC);
+    assert.equal(entry.style, 'jsdoc');
+    assert.deepEqual([entry.docStartLine, entry.docEndLine], [1, 6]);
+    assert.deepEqual(entry.parameters, ['a', 'b']);
+    assert.deepEqual(entry.documentedParameters, ['a', 'b']);
+    assert.equal(entry.returnsValue, true);
+    assert.equal(entry.documentsReturn, true);
+    assert.equal(entry.coverage, 1);
+    assert.equal(entry.template, 'summary,param,returns');
+    assert.deepEqual(entry.reasons.map(({ id }) => id), ['docs.full-coverage']);
+    assert.ok(entry.aiProbability > 0.5);
+  });
+
+  it('reads Google-style docstring sections and reports partial coverage', () => {
+    const entry = only('python',
+      'def scale(self, values, factor, offset=0):',
+      '    """Scale the values.',
+      '',
+      '    Args:',
+      '        values (list): Numbers to scale.',
+      '',
+      '    Returns:',
+      '        The scaled numbers.',
+      '    """',
+      '    return [v * factor + offset for v in values]'
+    );
+    assert.equal(entry.style, 'docstring');
+    assert.deepEqual([entry.docStartLine, entry.docEndLine], [2, 9]);
+    assert.deepEqual(entry.parameters, ['values', 'factor', 'offset']);
+    assert.deepEqual(entry.documentedParameters, ['values']);
+    assert.equal(entry.coverage, 2 / 4);
+    assert.equal(entry.template, 'summary,param,returns');
+    assert.equal(entry.reasons[0].message, 'Documents 1 of 3 parameters');
+    assert.ok(entry.aiProbability < 0.5);
+  });
+
+  it('reads Sphinx fields', () => {
+    const entry = only('python',
+      'def load(path):',
+      '    """Load a file.',
+      '',
+      '    :param path: Where to read from.',
+      '    :returns: The rows.',
+      '    """',
+      '    yield from read(path)'
+    );
+    assert.deepEqual(entry.documentedParameters, ['path']);
+    assert.equal(entry.returnsValue, true);
+    assert.equal(entry.coverage, 1);
+  });
+
+  it('reads Javadoc with type-first parameters', () => {
+    const entry = only('java',
+      'public class Greeter {',
+      '  /**',
+      '   * Greets someone.',
+      '   * @param name who to greet',
+      '   */',
+      '  public void greet(final String name, int[] times) {',
+      '    System.out.println(name);',
+      '  }',
+      '}'
+    );
+    assert.equal(entry.style, 'javadoc');
+    assert.deepEqual(entry.parameters, ['name', 'times']);
+    assert.deepEqual(entry.documentedParameters, ['name']);
+    assert.equal(entry.returnsValue, false);
+    assert.equal(entry.reasons[0].message, 'Documents 1 of 2 parameters');
+  });
+
+  it('accepts parameters and results named in prose for rustdoc, godoc and Ruby comments', () => {
+    const rust = only('rust', '/// Returns `count` doubled.', 'fn double(count: u32) -> u32 {', '    count * 2', '}');
+    assert.equal(rust.style, 'rustdoc');
+    assert.deepEqual(rust.documentedParameters, ['count']);
+    assert.deepEqual([rust.returnsValue, rust.documentsReturn, rust.coverage], [true, true, 1]);
+
+    const go = only('go', '// Double returns n doubled.', 'func Double(n int) int {', '\treturn n * 2', '}');
+    assert.equal(go.style, 'godoc');
+    assert.equal(go.coverage, 1);
+
+    const ruby = only('ruby', '# Greets the user by name.', 'def greet(name)', '  puts name', 'end');
+    assert.equal(ruby.style, 'line');
+    assert.deepEqual(ruby.documentedParameters, ['name']);
+  });
+
+  it('does not take plain line comments for docs where the convention is a doc comment', () => {
+    const entry = only('javascript', '// Adds a to b', 'function add(a, b) {', '  return a + b;', '}');
+    assert.equal(entry.style, null);
+    assert.equal(entry.coverage, null);
+    assert.equal(entry.template, null);
+  });
+
+  it('skips decorators between the doc and the function', () => {
+    const entry = only('typescript', '/** Saves the record. */', '@Transactional()', 'function save(record: Row): void {', '  store(record);', '}');
+    assert.equal(entry.style, 'jsdoc');
+    assert.equal(entry.returnsValue, false);
+  });
+
+  it('leaves receivers and destructured parameters out', () => {
+    assert.deepEqual(only('javascript', 'function draw({ x, y }, ...rest) {', '  plot(x, y);', '}').parameters, ['rest']);
+    assert.deepEqual(only('go', 'func (s *Server) Start(ctx context.Context) {', '}').parameters, ['ctx']);
+  });
+
+  it('names defaulted and annotated parameters', () => {
+    assert.deepEqual(only('javascript', 'function on(cb = () => a > b, next) {', '}').parameters, ['cb', 'next']);
+    assert.deepEqual(only('typescript', 'function on(cb: (v: number) => boolean = v => v > 0, seen: Map<string, number> = new Map()) {', '}').parameters, ['cb', 'seen']);
+    assert.deepEqual(only('kotlin', 'fun pick(x: Int = if (a > b) 1 else 2, y: Int) {', '}').parameters, ['x', 'y']);
+    assert.deepEqual(only('python', 'def count(x: Dict[str, int] = {}, y: int = 0):', '    pass').parameters, ['x', 'y']);
+    assert.deepEqual(only('java', 'void index(Map<String, List<Integer>> byName, int size) {', '}').parameters, ['byName', 'size']);
+  });
+
+  it('only counts a return with a value', () => {
+    assert.equal(only('javascript', 'function stop() {', '  if (done) return;', '  halt();', '}').returnsValue, false);
+    assert.equal(only('go', 'func Stop() {', '\thalt()', '}').returnsValue, false);
+    assert.equal(only('rust', 'fn stop() -> () {', '    halt();', '}').returnsValue, false);
+  });
+});
+
+describe('doc template uniformity', () => {
+  const FILE = [
+    ...ADD_JSDOC,
+    ...ADD_JSDOC.map(line => line.replace('add', 'subtract').replace('a + b', 'a - b')),
+    ...ADD_JSDOC.map(line => line.replace('add', 'multiply').replace('a + b', 'a * b'))
+  ];
+
+  it('rewards a layout and parameter phrasing shared across functions', () => {
+    const score = analyze('javascript', ...FILE)!;
+    assert.equal(score.functionCount, 3);
+    assert.equal(score.documentedCount, 3);
+    assert.equal(score.meanCoverage, 1);
+    assert.equal(score.uniformity, 1);
+    assert.ok(score.reasons.includes('Parameter descriptions share one phrasing ("the …")'));
+    assert.ok(score.functions.every(entry => entry.reasons.some(({ id }) => id === 'docs.uniform-template')));
+    assert.ok(score.aiProbability > 0.8);
+  });
+
+  it('does not treat summary-only docs as a template', () => {
+    const summaries = [0, 1, 2].flatMap(i => ['/** Runs a step. */', `function step${i}() {`, '  run();', '}']);
+    const score = analyze('javascript', ...summaries)!;
+    assert.equal(score.uniformity, 1);
+    assert.ok(score.functions.every(entry => entry.reasons.length === 0 && entry.aiProbability === 0.5));
+  });
+
+  it('needs three documented functions to call a layout common', () => {
+    const score = analyze('javascript', ...ADD_JSDOC, ...ADD_JSDOC.map(line => line.replace('add', 'plus')))!;
+    assert.equal(score.uniformity, 1);
+    assert.ok(score.functions.every(entry => entry.reasons.every(({ id }) => id !== 'docs.uniform-template')));
+  });
+
+  it('scores undocumented files as human', () => {
+    const score = analyze('javascript', 'function add(a, b) {', '  return a + b;', '}')!;
+    assert.equal(score.documentedCount, 0);
+    assert.equal(score.meanCoverage, null);
+    assert.equal(score.uniformity, null);
+    assert.ok(score.aiProbability < 0.5);
+  });
+});
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { computeMetrics, confusionMatrix, diffMetrics, lineLabelsFor, rocAuc } from '../src/lib/evaluation';
+import type { AuthorshipLabel, ScoredSample } from '../src/lib/evaluation';
+
+const sample = (score: number, label: AuthorshipLabel): ScoredSample => ({ score, label });
+
+describe('confusionMatrix', () => {
+  it('does not call a score exactly at the threshold AI', () => {
+    assert.deepEqual(confusionMatrix([sample(0.5, 'ai'), sample(0.5, 'human')], 0.5), {
+      truePositives: 0,
+      falsePositives: 0,
+      trueNegatives: 1,
+      falseNegatives: 1
+    });
+  });
+
+  it('counts every cell', () => {
+    const samples = [sample(0.9, 'ai'), sample(0.51, 'ai'), sample(0.2, 'ai'), sample(0.8, 'human'), sample(0.1, 'human')];
+    assert.deepEqual(confusionMatrix(samples, 0.5), { truePositives: 2, falsePositives: 1, trueNegatives: 1, falseNegatives: 1 });
+  });
+});
+
+describe('rocAuc', () => {
+  it('is 1 for a perfect ranking and 0 for an inverted one', () => {
+    assert.equal(rocAuc([sample(0.9, 'ai'), sample(0.8, 'ai'), sample(0.1, 'human')]), 1);
+    assert.equal(rocAuc([sample(0.1, 'ai'), sample(0.9, 'human')]), 0);
+  });
+
+  it('counts ties between classes as half', () => {
+    assert.equal(rocAuc([sample(0.5, 'ai'), sample(0.5, 'human')]), 0.5);
+    // Pairs: (0.7 vs 0.7) ties, (0.7 vs 0.2) wins, (0.4 vs 0.7) loses, (0.4 vs 0.2) wins
+    assert.equal(rocAuc([sample(0.7, 'ai'), sample(0.4, 'ai'), sample(0.7, 'human'), sample(0.2, 'human')]), 2.5 / 4);
+  });
+
+  it('ignores ties within a class and does not depend on input order', () => {
+    const samples = [sample(0.6, 'ai'), sample(0.6, 'ai'), sample(0.6, 'human'), sample(0.3, 'human'), sample(0.3, 'human')];
+    assert.equal(rocAuc(samples), 5 / 6);
+    assert.equal(rocAuc([...samples].reverse()), 5 / 6);
+  });
+
+  it('is 0.5 when a class is missing', () => {
+    assert.equal(rocAuc([sample(0.9, 'ai')]), 0.5);
+    assert.equal(rocAuc([]), 0.5);
+  });
+});
+
+describe('computeMetrics', () => {
+  it('derives precision, recall and F1 from the matrix', () => {
+    const metrics = computeMetrics([sample(0.9, 'ai'), sample(0.2, 'ai'), sample(0.8, 'human'), sample(0.1, 'human')]);
+    assert.equal(metrics.support, 4);
+    assert.equal(metrics.precision, 0.5);
+    assert.equal(metrics.recall, 0.5);
+    assert.equal(metrics.f1, 0.5);
+    assert.equal(metrics.rocAuc, 0.75);
+  });
+
+  it('reports zeros instead of NaN when nothing is predicted AI', () => {
+    const metrics = computeMetrics([sample(0.5, 'ai'), sample(0.1, 'human')]);
+    assert.deepEqual([metrics.precision, metrics.recall, metrics.f1], [0, 0, 0]);
+  });
+
+  it('diffs against a baseline', () => {
+    const baseline = computeMetrics([sample(0.9, 'ai'), sample(0.2, 'ai'), sample(0.1, 'human')]);
+    const current = computeMetrics([sample(0.9, 'ai'), sample(0.7, 'ai'), sample(0.1, 'human')]);
+    assert.deepEqual(diffMetrics(current, baseline).recall, { baseline: 0.5, current: 1, delta: 0.5 });
+  });
+});
+
+describe('lineLabelsFor', () => {
+  it('applies 1-based inclusive ranges over the file label and clips them to the file', () => {
+    const labels = lineLabelsFor({ path: 'a.py', language: 'python', label: 'human', lines: { ai: [[2, 3], [5, 99]] } }, 5);
+    assert.deepEqual(labels, ['human', 'ai', 'ai', 'human', 'ai']);
+  });
+});
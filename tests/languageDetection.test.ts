@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { detectLanguage, LANGUAGE_DETECTION_THRESHOLD } from '../src/lib/languageDetection';
+
+const lines = (...source: string[]) => source.join('\n');
+
+describe('detectLanguage', () => {
+  it('reads the interpreter from the shebang', () => {
+    assert.deepEqual(detectLanguage(lines('#!/usr/bin/python3', 'x = 1')), {
+      language: 'python',
+      confidence: 0.95,
+      source: 'shebang',
+      candidates: [{ language: 'python', confidence: 0.95 }]
+    });
+    assert.equal(detectLanguage(lines('#!/usr/bin/env bash', 'x=1')).language, 'bash');
+    assert.equal(detectLanguage(lines('#!/usr/bin/env -S deno run', 'x = 1')).language, 'typescript');
+    assert.equal(detectLanguage(lines('#!/usr/bin/env python3.12', 'x = 1')).language, 'python');
+  });
+
+  it('refines a shebang language into its variant', () => {
+    assert.equal(detectLanguage(lines('#!/usr/bin/env node', 'const app = <App name="x" />;')).language, 'jsx');
+  });
+
+  it('falls back to the content for unknown interpreters', () => {
+    const detection = detectLanguage(lines('#!/usr/bin/env perl', 'SELECT id FROM users WHERE id = 1;'));
+    assert.equal(detection.source, 'content');
+    assert.equal(detection.language, 'sql');
+  });
+
+  it('prefers a modeline over the shebang and finds it at either end', () => {
+    assert.deepEqual(detectLanguage(lines('#!/bin/sh', '# vim: set ft=ruby:', 'puts 1')), {
+      language: 'ruby',
+      confidence: 0.99,
+      source: 'modeline',
+      candidates: [{ language: 'ruby', confidence: 0.99 }]
+    });
+    const emacs = lines('x = 1', ...Array(10).fill('y = 2'), '# -*- mode: python -*-');
+    assert.equal(detectLanguage(emacs).language, 'python');
+    assert.equal(detectLanguage(lines('// vim: ft=klingon', 'x = 1')).language, null);
+  });
+
+  it('ignores modelines in the middle of long files', () => {
+    const source = lines(...Array(6).fill('x = 1'), '# vim: ft=ruby', ...Array(6).fill('x = 1'));
+    assert.notEqual(detectLanguage(source).source, 'modeline');
+  });
+
+  it('scores the content and tells variants apart', () => {
+    const cases: [string, string][] = [
+      [lines('def greet(name):', '    if name is None:', '        return "hi"', '    return name'), 'python'],
+      [lines('package main', '', 'import "fmt"', '', 'func main() {', '\tfmt.Println("hi")', '}'), 'go'],
+      [lines('#include <stdio.h>', 'int main(void) {', '  printf("hi");', '  return 0;', '}'), 'c'],
+      [lines('#include <iostream>', 'int main() {', '  std::cout << "hi";', '}'), 'cpp'],
+      [lines('export function add(a: number, b: number): number {', '  return a + b;', '}'), 'typescript'],
+      [lines('const App = () => <div className="app">Hi</div>;', 'export default App;'), 'jsx'],
+      [lines('interface Props { name: string }', 'export const Greeting = ({ name }: Props) => <div className="x">{name}</div>;'), 'tsx'],
+      ['SELECT id FROM users WHERE id = 1;', 'sql'],
+      ['{"name": "detector", "version": 1}', 'json']
+    ];
+    for (const [code, language] of cases) {
+      const detection = detectLanguage(code);
+      assert.equal(detection.language, language, code);
+      assert.equal(detection.source, 'content');
+      assert.ok(detection.confidence >= LANGUAGE_DETECTION_THRESHOLD, `${language}: ${detection.confidence}`);
+    }
+  });
+
+  it('lists up to three candidates, most likely first', () => {
+    const { candidates, confidence } = detectLanguage(lines('val name = "x"', 'val count = 2'));
+    assert.ok(candidates.length <= 3);
+    assert.deepEqual(candidates.slice(0, 2).map(({ language }) => language), ['kotlin', 'scala']);
+    assert.equal(candidates[0].confidence, confidence);
+    assert.ok(candidates.every((candidate, i) => i === 0 || candidate.confidence <= candidates[i - 1].confidence));
+  });
+
+  it('names ambiguous snippets without reaching the confidence threshold', () => {
+    const detection = detectLanguage(lines('val name = "x"', 'val count = 2'));
+    assert.equal(detection.language, 'kotlin');
+    assert.ok(detection.confidence < LANGUAGE_DETECTION_THRESHOLD);
+  });
+
+  it('names nothing without enough evidence, for empty input or for binary content', () => {
+    const empty = { language: null, confidence: 0, source: null, candidates: [] };
+    assert.deepEqual(detectLanguage('x = 1'), empty);
+    assert.deepEqual(detectLanguage('  \n\t'), empty);
+    assert.deepEqual(detectLanguage('def f():\u0000\n    return 1'), empty);
+    assert.equal(detectLanguage('{"unterminated": ').language, null);
+  });
+});
@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  commentOpenerSource,
+  commentSyntaxFor,
+  getExtension,
+  getLanguageFromPath,
+  LANGUAGE_MAP,
+  LANGUAGES,
+  languageLineage
+} from '../src/lib/languages';
+
+// Same shape the `<comment>` rule marker expands into
+function commentPrefix(language: string): RegExp {
+  const source = commentOpenerSource(language);
+  assert.ok(source, `${language} should have comment openers`);
+  return new RegExp(`^${source}[ \\t]*TODO`);
+}
+
+describe('getExtension and getLanguageFromPath', () => {
+  it('maps extensions case-insensitively', () => {
+    assert.equal(getExtension('src/App.TSX'), '.tsx');
+    assert.equal(getLanguageFromPath('src/App.TSX'), 'tsx');
+    assert.equal(getLanguageFromPath('include/vector.hpp'), 'cpp');
+    assert.equal(getLanguageFromPath('include/list.h'), 'c');
+  });
+
+  it('falls back to text for unknown and missing extensions', () => {
+    assert.equal(getExtension('bin/deploy'), undefined);
+    assert.equal(getLanguageFromPath('bin/deploy'), 'text');
+    assert.equal(getLanguageFromPath('notes.unknown'), 'text');
+  });
+
+  it('only looks at the file name, not dotted directories', () => {
+    assert.equal(getExtension('config.d/deploy'), undefined);
+  });
+
+  it('assigns every extension to exactly one language', () => {
+    const extensions = Object.values(LANGUAGES).flatMap(definition => definition.extensions);
+    assert.equal(new Set(extensions).size, extensions.length);
+    assert.equal(Object.keys(LANGUAGE_MAP).length, extensions.length);
+  });
+});
+
+describe('languageLineage', () => {
+  it('lists the language and its ancestors, nearest first', () => {
+    assert.deepEqual(languageLineage('tsx'), ['tsx', 'typescript', 'jsx', 'javascript']);
+    assert.deepEqual(languageLineage('typescript'), ['typescript', 'javascript']);
+  });
+
+  it('returns unknown languages and languages without parents on their own', () => {
+    assert.deepEqual(languageLineage('python'), ['python']);
+    assert.deepEqual(languageLineage('brainfuck'), ['brainfuck']);
+  });
+
+  it('only inherits from languages in the table', () => {
+    for (const [language, definition] of Object.entries(LANGUAGES)) {
+      for (const parent of definition.inherits ?? []) {
+        assert.ok(LANGUAGES[parent], `${language} inherits from unknown language ${parent}`);
+      }
+    }
+  });
+});
+
+describe('commentSyntaxFor', () => {
+  it('has no comment syntax for unknown languages', () => {
+    assert.deepEqual(commentSyntaxFor('brainfuck'), { line: [], block: [], doc: [], docstrings: false });
+  });
+});
+
+describe('commentOpenerSource', () => {
+  it('matches every C-style opener and block comment continuation lines', () => {
+    const pattern = commentPrefix('typescript');
+    for (const line of ['// TODO', '/// TODO', '/* TODO', '/** TODO', '* TODO', 'TODO']) {
+      assert.match(line, pattern);
+    }
+    assert.doesNotMatch('*/ TODO', pattern);
+  });
+
+  it('uses each language’s own openers', () => {
+    assert.match('# TODO', commentPrefix('python'));
+    assert.match('""" TODO', commentPrefix('python'));
+    assert.doesNotMatch('// TODO', commentPrefix('python'));
+    assert.match('-- TODO', commentPrefix('sql'));
+    assert.match('<!-- TODO', commentPrefix('html'));
+  });
+
+  it('escapes openers that are regex syntax', () => {
+    const opener = new RegExp(`^${commentOpenerSource('css')}$`);
+    assert.match('/**', opener);
+    assert.match('/*', opener);
+    assert.doesNotMatch('//', opener);
+    assert.doesNotMatch('/', opener);
+  });
+
+  it('is null for languages without comments', () => {
+    assert.equal(commentOpenerSource('json'), null);
+    assert.equal(commentOpenerSource('brainfuck'), null);
+  });
+});
@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { MASK_CHAR, maskLine, tokenizeLines } from '../src/lib/lexer';
+import type { SpanKind } from '../src/lib/lexer';
+
+// Each line as [kind, text] pairs, which reads better in assertions than offsets
+function lex(lines: string[], language: string): [SpanKind, string][][] {
+  return tokenizeLines(lines, language).map((spans, i) => spans.map(span => [span.kind, lines[i].slice(span.start, span.end)]));
+}
+
+describe('tokenizeLines', () => {
+  it('splits a line into code, string and comment spans', () => {
+    assert.deepEqual(lex(['const a = "x"; // note'], 'javascript'), [[
+      ['code', 'const a = '],
+      ['string', '"x"'],
+      ['code', '; '],
+      ['comment', '// note']
+    ]]);
+  });
+
+  it('closes a C-style block comment at the first terminator, without nesting', () => {
+    assert.deepEqual(lex(['/* outer /* inner */ b = 2; */'], 'javascript'), [[
+      ['comment', '/* outer /* inner */'],
+      ['code', ' b = 2; */']
+    ]]);
+  });
+
+  it('carries a block comment across lines', () => {
+    assert.deepEqual(lex(['a(); /* start', 'middle', 'end */ b();'], 'typescript'), [
+      [['code', 'a(); '], ['comment', '/* start']],
+      [['comment', 'middle']],
+      [['comment', 'end */'], ['code', ' b();']]
+    ]);
+  });
+
+  it('runs an unterminated block comment to the end of the file', () => {
+    assert.deepEqual(lex(['/* never closed', 'const x = 1;', '"still comment"'], 'javascript'), [
+      [['comment', '/* never closed']],
+      [['comment', 'const x = 1;']],
+      [['comment', '"still comment"']]
+    ]);
+  });
+
+  it('keeps comment openers inside strings as string', () => {
+    assert.deepEqual(lex(['fetch("http://example.com/*"); // real'], 'javascript'), [[
+      ['code', 'fetch('],
+      ['string', '"http://example.com/*"'],
+      ['code', '); '],
+      ['comment', '// real']
+    ]]);
+    assert.deepEqual(lex(["s = '# not a comment'  # comment"], 'python'), [[
+      ['code', 's = '],
+      ['string', "'# not a comment'"],
+      ['code', '  '],
+      ['comment', '# comment']
+    ]]);
+  });
+
+  it('skips escaped quotes inside strings', () => {
+    assert.deepEqual(lex(['x = "a \\" // b"; // c'], 'javascript'), [[
+      ['code', 'x = '],
+      ['string', '"a \\" // b"'],
+      ['code', '; '],
+      ['comment', '// c']
+    ]]);
+  });
+
+  it('ends an unterminated single-line string with its line', () => {
+    assert.deepEqual(lex(['const s = "open', '// comment'], 'javascript'), [
+      [['code', 'const s = '], ['string', '"open']],
+      [['comment', '// comment']]
+    ]);
+  });
+
+  it('carries template literals across lines', () => {
+    assert.deepEqual(lex(['const t = `a', '// inside', 'b`;'], 'javascript'), [
+      [['code', 'const t = '], ['string', '`a']],
+      [['string', '// inside']],
+      [['string', 'b`'], ['code', ';']]
+    ]);
+  });
+
+  it('lexes Python docstrings as comments and other triple-quoted strings as strings', () => {
+    assert.deepEqual(lex(['    """Docstring."""', 'x = """text"""'], 'python'), [
+      [['code', '    '], ['comment', '"""Docstring."""']],
+      [['code', 'x = '], ['string', '"""text"""']]
+    ]);
+  });
+
+  it('opens shell comments only at the start of a word', () => {
+    assert.deepEqual(lex(['echo $# ${#args} # count'], 'bash'), [[
+      ['code', 'echo $# ${#args} '],
+      ['comment', '# count']
+    ]]);
+  });
+
+  it('treats everything as code in languages without comment or string syntax', () => {
+    assert.deepEqual(lex(['// "x"'], 'unknown'), [[['code', '// "x"']]]);
+  });
+});
+
+describe('maskLine', () => {
+  it('masks the other span kinds while keeping every column', () => {
+    const line = 'a = "b"; // c';
+    const [spans] = tokenizeLines([line], 'javascript');
+    const masked = maskLine(line, spans, ['code']);
+    assert.equal(masked.length, line.length);
+    assert.equal(masked, `a = ${MASK_CHAR.repeat(3)}; ${MASK_CHAR.repeat(4)}`);
+  });
+});
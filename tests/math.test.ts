@@ -0,0 +1,17 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { clampProbability, logit, PROBABILITY_FLOOR, sigmoid } from '../src/lib/math';
+
+describe('math', () => {
+  it('inverts logit with sigmoid', () => {
+    assert.equal(sigmoid(0), 0.5);
+    assert.equal(logit(0.5), 0);
+    assert.ok(Math.abs(sigmoid(logit(0.8)) - 0.8) < 1e-12);
+  });
+
+  it('keeps log-odds finite at 0 and 1', () => {
+    assert.deepEqual([clampProbability(0), clampProbability(1)], [PROBABILITY_FLOOR, 1 - PROBABILITY_FLOOR]);
+    assert.ok(Number.isFinite(logit(0)) && Number.isFinite(logit(1)));
+    assert.ok(Math.abs(logit(1) + logit(0)) < 1e-9);
+  });
+});
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createCustomProfile, getAIUsageLevel, resolveProfile, SENSITIVITY_PROFILES, verdictFor } from '../src/lib/profiles';
+import { segmentLines } from '../src/lib/segmentation';
+
+const ORDER = ['strict', 'balanced', 'lenient'] as const;
+
+// Smoothed AI probability of the middle line under each profile, strict first
+function smoothedOutlier(probabilities: number[]): number[] {
+  return ORDER.map(name => segmentLines(probabilities, SENSITIVITY_PROFILES[name].smoothing).posteriors[2]!);
+}
+
+describe('SENSITIVITY_PROFILES', () => {
+  it('pulls a human line into a surrounding AI run less as profiles get more lenient', () => {
+    const [strict, balanced, lenient] = smoothedOutlier([0.9, 0.9, 0.1, 0.9, 0.9]);
+    assert.ok(strict > balanced && balanced > lenient, `${strict} > ${balanced} > ${lenient}`);
+  });
+
+  it('pulls an AI line into a surrounding human run more as profiles get more lenient', () => {
+    const [strict, balanced, lenient] = smoothedOutlier([0.1, 0.1, 0.9, 0.1, 0.1]);
+    assert.ok(strict > balanced && balanced > lenient, `${strict} > ${balanced} > ${lenient}`);
+  });
+
+  it('widens the uncertainty band and narrows the clamp as profiles get more lenient', () => {
+    const [strict, balanced, lenient] = ORDER.map(name => SENSITIVITY_PROFILES[name]);
+    assert.ok(strict.uncertaintyBand < balanced.uncertaintyBand && balanced.uncertaintyBand < lenient.uncertaintyBand);
+    assert.ok(strict.clamp.max > balanced.clamp.max && balanced.clamp.max > lenient.clamp.max);
+    assert.ok(strict.aiWeightScale > balanced.aiWeightScale && balanced.aiWeightScale > lenient.aiWeightScale);
+  });
+
+  it('needs a higher AI share for the same usage level as profiles get more lenient', () => {
+    const levels = ORDER.map(name => getAIUsageLevel(25, SENSITIVITY_PROFILES[name]).id);
+    assert.deepEqual(levels, ['strong', 'high', 'little']);
+  });
+});
+
+describe('resolveProfile and createCustomProfile', () => {
+  it('resolves names and passes profiles through', () => {
+    assert.equal(resolveProfile(), SENSITIVITY_PROFILES.balanced);
+    assert.equal(resolveProfile('strict'), SENSITIVITY_PROFILES.strict);
+    const custom = createCustomProfile({ uncertaintyBand: 0.3 }, 'lenient');
+    assert.equal(resolveProfile(custom), custom);
+    assert.equal(custom.name, 'custom');
+    assert.deepEqual(custom.clamp, SENSITIVITY_PROFILES.lenient.clamp);
+  });
+
+  it('rejects unknown profile names', () => {
+    assert.throws(() => resolveProfile('paranoid' as 'strict'), /Unknown sensitivity profile "paranoid"/);
+  });
+});
+
+describe('verdictFor', () => {
+  it('leaves probabilities inside the band, or without signals, uncertain', () => {
+    assert.equal(verdictFor(0.59, true, 0.1), 'uncertain');
+    assert.equal(verdictFor(0.6, true, 0.1), 'uncertain');
+    assert.equal(verdictFor(0.61, true, 0.1), 'ai');
+    assert.equal(verdictFor(0.2, true, 0.1), 'human');
+    assert.equal(verdictFor(0.99, false, 0.1), 'uncertain');
+  });
+});
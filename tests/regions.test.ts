@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { tokenizeLines } from '../src/lib/lexer';
+import { findBlockMatches } from '../src/lib/regions';
+import type { DetectionPattern } from '../src/lib/rules';
+
+function blockRule(id: string, pattern: RegExp, appliesTo?: DetectionPattern['appliesTo']): DetectionPattern {
+  return { id, pattern, weight: 1, reason: id, aiIndicator: true, scope: 'block', ...(appliesTo ? { appliesTo } : {}) };
+}
+
+function matchedLines(lines: string[], rules: DetectionPattern[], language = 'javascript'): string[][] {
+  return findBlockMatches(lines, tokenizeLines(lines, language), rules).map(matches => matches.map(match => match.rule.id));
+}
+
+describe('findBlockMatches', () => {
+  it('reports a multi-line match on every line it covers', () => {
+    const lines = ['try {', '  run();', '} catch (error) {', '  log(error);', '}'];
+    const rule = blockRule('try-catch', /try \{[\s\S]*?\} catch/g);
+    assert.deepEqual(matchedLines(lines, [rule]), [['try-catch'], ['try-catch'], ['try-catch'], [], []]);
+  });
+
+  it('ignores line-scoped rules', () => {
+    const rule: DetectionPattern = { id: 'line', pattern: /run/g, weight: 1, reason: "line", aiIndicator: true };
+    assert.deepEqual(matchedLines(['run();'], [rule]), [[]]);
+  });
+
+  it('matches only the span kinds a rule applies to', () => {
+    const lines = ['// a', '// b', 'a;', 'b;'];
+    const rule = blockRule('pair', /a[^\n]*\n[^\n]*b/g, ['code']);
+    assert.deepEqual(matchedLines(lines, [rule]), [[], [], ['pair'], ['pair']]);
+  });
+
+  it('lists a rule once per line even when several matches touch it', () => {
+    const rule = blockRule('twice', /x\ny|y x/g);
+    assert.deepEqual(matchedLines(['x', 'y x', 'y'], [rule]), [['twice'], ['twice'], ['twice']]);
+  });
+
+  it('accepts patterns without the global flag and skips empty matches', () => {
+    const rule = blockRule('lazy', /z*/);
+    assert.deepEqual(matchedLines(['a', 'zz', 'b'], [rule]), [[], ['lazy'], []]);
+    assert.equal(rule.pattern.lastIndex, 0);
+  });
+
+  it('records the columns where a match starts and ends', () => {
+    const lines = ['let a = open(', '  b,', '  c);'];
+    const rule = blockRule('call', /open\([\s\S]*?\)/g);
+    const [first, , last] = findBlockMatches(lines, tokenizeLines(lines, 'javascript'), [rule]);
+    assert.equal(first[0], last[0]);
+    assert.deepEqual(
+      { startLine: first[0].startLine, startColumn: first[0].startColumn, endLine: first[0].endLine, endColumn: first[0].endColumn },
+      { startLine: 0, startColumn: 8, endLine: 2, endColumn: 4 }
+    );
+  });
+
+  it('ends a match at the end of a line without spilling onto the next one', () => {
+    const lines = ['x = 1', 'y = 2'];
+    const [first, second] = findBlockMatches(lines, tokenizeLines(lines, 'javascript'), [blockRule('line-end', /1\n/g)]);
+    assert.equal(first[0].endLine, 0);
+    assert.equal(first[0].endColumn, 6);
+    assert.deepEqual(second, []);
+  });
+});
@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict';
+import { it } from 'node:test';
+import { extractLineFeatures } from '../src/lib/aiDetection';
+import type { DetectionPattern } from '../src/lib/rules';
+
+// Snippets a rule must fire on somewhere, and snippets it must not fire on anywhere
+export interface RuleFixture {
+  language: string;
+  fires: string[];
+  ignores: string[];
+}
+
+// Ids of every signal that fired on the snippet, with the built-in rule set
+export function firedRuleIds(code: string, language: string): Set<string> {
+  return new Set(extractLineFeatures(code, language).flatMap(features => Object.keys(features ?? {})));
+}
+
+// One test per rule, plus a check that no rule in the pack goes without fixtures; rules shared by several languages may list one fixture per language
+export function testRulePack(rules: DetectionPattern[], fixtures: Record<string, RuleFixture | RuleFixture[]>): void {
+  it('has fixtures for every rule', () => {
+    assert.deepEqual(Object.keys(fixtures).sort(), rules.map(rule => rule.id).sort());
+  });
+
+  for (const [id, fixture] of Object.entries(fixtures)) {
+    it(id, () => {
+      for (const { language, fires, ignores } of [fixture].flat()) {
+        for (const code of fires) assert.ok(firedRuleIds(code, language).has(id), `should fire on ${language}:\n${code}`);
+        for (const code of ignores) assert.ok(!firedRuleIds(code, language).has(id), `should not fire on ${language}:\n${code}`);
+      }
+    });
+  }
+}
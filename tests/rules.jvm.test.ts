@@ -0,0 +1,101 @@
+import { describe } from 'node:test';
+import { JVM_RULES } from '../src/lib/rules';
+import { testRulePack } from './rulePack';
+import type { RuleFixture } from './rulePack';
+
+const lines = (...source: string[]) => source.join('\n');
+
+const fixture = (language: string) => (fires: string[], ignores: string[]): RuleFixture => ({ language, fires, ignores });
+const java = fixture('java');
+const kotlin = fixture('kotlin');
+const scala = fixture('scala');
+
+const GETTER = lines('public String getName() {', '  return name;', '}');
+
+describe('jvm rule pack', () => {
+  testRulePack(JVM_RULES, {
+    'jvm.doc-tags': [
+      java([lines('/**', ' * Loads a user.', ' * @param id the user id', ' */')], [lines('/**', ' * Loads a user by @paramName.', ' */'), '@Param("id") String id']),
+      kotlin([lines('/**', ' * Loads a user.', ' * @return the user', ' */')], [])
+    ],
+    'jvm.restating-doc': java(
+      [lines('/**', ' * Gets the name.', ' */'), '/** Creates a new user. */'],
+      [lines('/**', ' * Gets cached on first use.', ' */')]
+    ),
+    'java.javadoc-on-accessor': java(
+      [lines('/**', ' * Returns the name.', ' */', GETTER), lines('/** The name. */', '@Override', 'public void setName(String name) {', '  this.name = name;', '}')],
+      [lines('/**', ' * Describes the user.', ' */', 'public String describe() {', '  return name;', '}')]
+    ),
+
+    'java.accessor-scaffolding': java(
+      [GETTER, lines('public void setName(String name) {', '  this.name = name;', '}')],
+      [lines('public String getName() {', '  return name.trim();', '}')]
+    ),
+    'jvm.builder-scaffolding': [
+      java(
+        [lines('public Builder name(String name) {', '  this.name = name;', '  return this;', '}'), 'public static Builder builder() { return new Builder(); }'],
+        [lines('public Builder name(String name) {', '  validate(name);', '  this.name = name;', '  return this;', '}')]
+      ),
+      kotlin(['fun name(value: String) = apply { this.name = value }'], ['fun name(value: String) = copy(name = value)'])
+    ],
+
+    'java.optional-chain': java(
+      ['Optional.ofNullable(user).map(User::getName).orElse("anonymous")', lines('Optional.ofNullable(user)', '    .map(User::getName)', '    .orElseThrow(() -> new NotFound(id))')],
+      ['Optional.ofNullable(user).orElse(DEFAULT)']
+    ),
+    'jvm.exhaustive-match': [
+      java(
+        [lines('int rank = switch (day) {', '  case MONDAY -> 1;', '  default -> 0;', '};')],
+        [lines('switch (day) {', '  case MONDAY:', '    return 1;', '  default:', '    return 0;', '}')]
+      ),
+      kotlin(
+        [lines('when (state) {', '    State.ON -> start()', '    else -> stop()', '}')],
+        [lines('when (state) {', '    State.ON -> start()', '    State.OFF -> stop()', '}')]
+      ),
+      scala(
+        [lines('count match {', '  case 1 => "one"', '  case _ => "many"', '}')],
+        [lines('count match {', '  case 1 => "one"', '  case n => s"$n"', '}')]
+      )
+    ],
+    'jvm.null-check-ladder': [
+      java(
+        [
+          lines('if (name == null) {', '    throw new IllegalArgumentException("name");', '}', 'if (age == null) throw new IllegalArgumentException("age");', 'save(name, age);'),
+          lines('this.name = Objects.requireNonNull(name);', 'this.age = Objects.requireNonNull(age);', '')
+        ],
+        [lines('if (name == null) {', '    throw new IllegalArgumentException("name");', '}', 'save(name, age);')]
+      ),
+      kotlin([lines('require(count > 0)', 'requireNotNull(name)', '')], [lines('require(count > 0)', 'save(name)')])
+    ],
+
+    'java.lombok-stack': java(
+      [lines('@Data', '@Builder', '@NoArgsConstructor', 'public class User {}')],
+      [lines('@Data', '@Builder', 'public class User {}'), lines('@Entity', '@Table(name = "users")', '@Cacheable', 'public class User {}')]
+    ),
+    'jvm.exception-wrapping': java(
+      [lines('try {', '  load();', '} catch (IOException e) {', '  log.error("Failed", e);', '  throw new RuntimeException("Failed to load", e);', '}')],
+      [lines('try {', '  load();', '} catch (IOException e) {', '  throw new RuntimeException("Failed to load");', '}')]
+    ),
+
+    'jvm.print-debugging': [
+      java(['System.out.println(user);', 'e.printStackTrace();'], ['logger.info(user);', '// System.out.println(user);']),
+      scala(['println(user)'], ['logger.info(user)'])
+    ],
+    'jvm.swallowed-exception': java(
+      [lines('try {', '  load();', '} catch (IOException e) {', '}')],
+      [lines('try {', '  load();', '} catch (IOException e) {', '  log(e);', '}')]
+    ),
+    'jvm.wildcard-import': [
+      java(['import java.util.*;'], ['import java.util.List;']),
+      scala(['import scala.collection._'], ['import scala.collection.mutable'])
+    ],
+    'jvm.suppress-warnings': [
+      java(['@SuppressWarnings("unchecked")'], ['// @SuppressWarnings is discouraged here']),
+      kotlin(['@Suppress("UNCHECKED_CAST")'], ['@Serializable'])
+    ],
+    'jvm.commented-out-code': java(
+      ['// System.out.println(user);', '// int total = count + 1;', '/* System.out.println(user); */', lines('/*', ' * return total;', ' */')],
+      ['// Count the users once', '/* Count the users once */', 'int total = count + 1;']
+    )
+  });
+});
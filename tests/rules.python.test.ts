@@ -0,0 +1,90 @@
+import { describe } from 'node:test';
+import { PYTHON_RULES } from '../src/lib/rules';
+import { testRulePack } from './rulePack';
+import type { RuleFixture } from './rulePack';
+
+const lines = (...source: string[]) => source.join('\n');
+
+const python = (fires: string[], ignores: string[]): RuleFixture => ({ language: 'python', fires, ignores });
+
+describe('python rule pack', () => {
+  testRulePack(PYTHON_RULES, {
+    'python.print': python(['print(value)'], ['# print(value)', 'message = "print(value)"']),
+    'python.function-definition': python(['def load(path):'], ['# def load(path):', 'define = load(path)']),
+
+    'python.docstring-sections': python(
+      [lines('def load(path):', '    """Load a file.', '', '    Args:', '        path: Where to read from.', '    """')],
+      [lines('def load(path):', '    """Returns: the parsed file."""'), 'Args: list = []']
+    ),
+    'python.docstring-typed-argument': python(
+      [lines('def load(path):', '    """Load a file.', '', '    Args:', '        path (str): Where to read from.', '    """')],
+      [lines('def load(path):', '    """Load a file.', '', '    Args:', '        path: Where to read from.', '    """')]
+    ),
+    'python.sphinx-fields': python(
+      [lines('def load(path):', '    """Load a file.', '', '    :param path: Where to read from.', '    """')],
+      [lines('def load(path):', '    """Load the file at path: see the README."""'), 'fields = [":param path:"]']
+    ),
+    'python.numpy-docstring-sections': python(
+      [lines('def load(path):', '    """Load a file.', '', '    Parameters', '    ----------', '    path : str', '    """')],
+      [lines('def load(path):', '    """Parameters are read from disk.', '', '    ----------', '    """')]
+    ),
+
+    'python.exhaustive-type-hints': python(
+      ['def load(path: str, retries: int = 3) -> dict:', '    async def save(self, data: bytes) -> None:'],
+      ['def load(path: str, retries) -> dict:', 'def load(path: str, retries: int):', 'def load(path):']
+    ),
+    'python.typing-imports': python(['from typing import Dict, List, Optional'], ['from typing import Any', 'import typing']),
+
+    'python.main-guard-scaffolding': python(
+      [lines('if __name__ == "__main__":', '    main()'), lines("if __name__ == '__main__':", '    sys.exit(main())')],
+      [lines('if __name__ == "__main__":', '    args = parse()', '    main(args)')]
+    ),
+    'python.argparse-boilerplate': python(
+      [lines(
+        'parser = argparse.ArgumentParser(description="Sync files")',
+        'parser.add_argument("source", help="Source directory")',
+        'parser.add_argument("target", help="Target directory")',
+        'parser.add_argument("--dry-run", action="store_true", help="Only print")'
+      )],
+      [lines('parser = argparse.ArgumentParser()', 'parser.add_argument("source")', 'parser.add_argument("target")')]
+    ),
+
+    'python.fstring-logging': python(['logger.info(f"Loaded {count} rows")'], ['logger.info("Loaded %d rows", count)']),
+    'python.fstring-without-placeholder': python(['name = f"hello"'], ['name = f"hello {user}"', 'name = "hello"']),
+
+    'python.raise-fstring': python(['raise ValueError(f"bad value: {value}")'], ['raise ValueError("bad value")']),
+    'python.validation-ladder': python(
+      [lines(
+        'def load(path, retries):',
+        '    if not path:',
+        '        raise ValueError("path is required")',
+        '    if retries < 0:',
+        '        raise ValueError("retries must be positive")',
+        '    return read(path, retries)'
+      )],
+      [
+        lines('def load(path):', '    if not path:', '        raise ValueError("path is required")', '    return read(path)'),
+        lines('if not path:', '    path = DEFAULT', 'if retries < 0:', '    raise ValueError("retries must be positive")')
+      ]
+    ),
+
+    'python.logging-setup': python(
+      ['logging.basicConfig(level=logging.INFO, format="%(asctime)s %(message)s")', lines('handler.setLevel(logging.INFO)', 'handler.setFormatter(formatter)', '')],
+      ['logging.basicConfig(level=logging.INFO)']
+    ),
+
+    'python.debugger': python(['import pdb; pdb.set_trace()', 'breakpoint()'], ['# breakpoint()', 'set_breakpoint()']),
+    'python.bare-except': python(
+      [lines('try:', '    run()', 'except:', '    pass')],
+      [lines('try:', '    run()', 'except ValueError:', '    pass')]
+    ),
+    'python.one-line-suite': python(['if done: return', 'for item in items: total += item'], [lines('if done:', '    return')]),
+    'python.multiple-imports': python(['import os, sys'], ['import os', 'from os import path, sep']),
+    'python.legacy-string-format': python(
+      ['message = "Hello %s" % name', 'message = "Hello {}".format(name)'],
+      ['message = f"Hello {name}"']
+    ),
+    'python.commented-out-code': python(['# print(result)', '# total = compute(items)'], ['# Compute the result once', 'total = compute(items)']),
+    'python.lint-pragma': python(['import os  # noqa: F401', 'value = cast(x)  # type: ignore'], ['# no quality issues here'])
+  });
+});
@@ -0,0 +1,59 @@
+import { describe } from 'node:test';
+import { REACT_RULES } from '../src/lib/rules';
+import { testRulePack } from './rulePack';
+import type { RuleFixture } from './rulePack';
+
+const lines = (...source: string[]) => source.join('\n');
+
+const fixture = (language: string) => (fires: string[], ignores: string[]): RuleFixture => ({ language, fires, ignores });
+const jsx = fixture('jsx');
+const tsx = fixture('tsx');
+
+const BUTTON_PROPS = lines('interface ButtonProps {', '  label: string;', '  onClick: (event: { id: string }) => void;', '}');
+
+describe('react rule pack', () => {
+  testRulePack(REACT_RULES, {
+    'react.props-interface': tsx(
+      [
+        lines(BUTTON_PROPS, '', 'export function Button({ label, onClick }: ButtonProps) {'),
+        lines('type CardProps = {', '  title: string;', '};', 'const Card = ({ title }: CardProps) => <h2>{title}</h2>;'),
+        lines('interface ListProps<T> extends Base {', '  items: T[];', '}', 'export default function List<T>({ items }: ListProps<T>) {'),
+        lines(BUTTON_PROPS, '', '// The primary action', 'const Button: React.FC<ButtonProps> = ({ label }) => <button>{label}</button>;')
+      ],
+      [
+        // The component has to follow its props declaration, not turn up somewhere further down the file
+        lines(BUTTON_PROPS, '', 'const theme = loadTheme();', '', 'export function Button({ label, onClick }: ButtonProps) {'),
+        lines(BUTTON_PROPS, 'interface CardProps {', '  title: string;', '}', 'export function Button({ label }: ButtonProps) {'),
+        lines(BUTTON_PROPS, 'export function IconButton({ label }: ButtonProps) {')
+      ]
+    ),
+
+    'react.memoization': jsx(['const total = useMemo(() => sum(items), [items]);'], ['const total = sum(items);', '// useMemo(() => sum(items))']),
+    'react.trivial-callback': [
+      jsx(['const open = useCallback(() => setOpen(true), []);', 'const toggle = useCallback(() => { setOpen(o => !o); }, []);'], ['const save = useCallback(() => api.save(form), [form]);']),
+      tsx(['const close = useCallback(() => setOpen(false), []);'], [])
+    ],
+    'react.aria-attributes': jsx(['<button aria-label="Close" onClick={onClose}>'], ['<button title="Close" onClick={onClose}>']),
+    'react.tailwind-class-soup': jsx(
+      ['<div className="flex items-center justify-between gap-4 rounded-lg border bg-white p-4 shadow-sm">', "<div className={cn('flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600', className)}>"],
+      ['<div className="flex items-center gap-2">']
+    ),
+    'react.forwarded-props-signature': [
+      jsx(['const Card = React.forwardRef(({ className, ...props }, ref) => ('], ['const Card = ({ title, ...props }) => (']),
+      tsx(['function Badge({ className, variant, ...props }: BadgeProps) {'], ['function Badge({ variant }: BadgeProps) {'])
+    ],
+    'react.display-name': jsx(['Card.displayName = "Card";'], ['const displayName = user.name;']),
+    'react.variant-scaffolding': [
+      jsx(['const buttonVariants = cva("inline-flex items-center", {'], ['const variants = { primary: "bg-blue-600" };']),
+      tsx(['interface ButtonProps extends VariantProps<typeof buttonVariants> {}'], [])
+    ],
+
+    'react.inline-style': jsx(['<div style={{ marginTop: 8 }}>'], ['<div style={styles.box}>', '<div className="mt-2">']),
+    'react.index-key': jsx(['{items.map((item, index) => <Row key={index} item={item} />)}'], ['{items.map(item => <Row key={item.id} item={item} />)}']),
+    'react.exhaustive-deps-disabled': jsx(
+      ['}, []); // eslint-disable-line react-hooks/exhaustive-deps', '// eslint-disable-next-line react-hooks/exhaustive-deps'],
+      ['// eslint-disable-next-line no-console']
+    ),
+    'react.untyped-props': tsx(['function Card(props: any) {', 'const Card: React.FC<any> = () => null;'], ['function Card(props: CardProps) {'])
+  });
+});
@@ -0,0 +1,54 @@
+import { describe } from 'node:test';
+import { SCRIPTING_RULES } from '../src/lib/rules';
+import { testRulePack } from './rulePack';
+import type { RuleFixture } from './rulePack';
+
+const lines = (...source: string[]) => source.join('\n');
+
+const fixture = (language: string) => (fires: string[], ignores: string[]): RuleFixture => ({ language, fires, ignores });
+const bash = fixture('bash');
+const sql = fixture('sql');
+const php = fixture('php');
+const ruby = fixture('ruby');
+
+describe('scripting rule pack', () => {
+  testRulePack(SCRIPTING_RULES, {
+    'shell.strict-mode': bash(['set -euo pipefail', 'set -o errexit', "IFS=$'\\n\\t'"], ['set -e', 'echo "set -euo pipefail"']),
+    'shell.color-variables': bash(
+      [lines("RED='\\033[0;31m'", "GREEN='\\033[0;32m'", "NC='\\033[0m'", '')],
+      [lines("RED='\\033[0;31m'", "NC='\\033[0m'", ''), lines('RED=1', 'GREEN=2', 'BLUE=3', '')]
+    ),
+    'shell.log-helpers': bash(['log_info() {', 'function die {'], ['log_rotate() {', 'info "starting"']),
+    'shell.usage-function': bash(['usage() {', 'function usage {'], ['print_usage_hint() {', 'usage']),
+    'shell.argument-loop': bash(['while getopts "hv" opt; do', 'while [[ $# -gt 0 ]]; do'], ['while read -r line; do']),
+    'shell.trap-cleanup': bash(['trap cleanup EXIT', "trap 'on_error' ERR"], ['trap - EXIT', '# trap cleanup EXIT']),
+    'shell.backtick-substitution': bash(['today=`date +%F`'], ['today=$(date +%F)', '# run `make` first']),
+    'shell.trace-mode': bash(['set -x'], ['set +x', 'set -e']),
+    'shell.unquoted-variable': bash(['rm -rf $BUILD_DIR', 'cd ${WORKDIR}'], ['rm -rf "$BUILD_DIR"', 'cd "$WORKDIR"']),
+
+    'sql.uppercase-keywords': sql(
+      ['SELECT id, name FROM users WHERE active = 1;', 'CREATE TABLE users (id INT PRIMARY KEY);'],
+      ['SELECT id, name from users where active = 1;', 'select id from users;', "-- SELECT id FROM users"]
+    ),
+    'sql.section-comment': sql(['-- ========================', '-- Create the users table', '-- Seed initial data'], ['-- users are soft-deleted', "SELECT '-- Create the users table';"]),
+    'sql.lowercase-keywords': sql(['select id from users;', 'SELECT id from users;'], ['SELECT id FROM users;', '-- select id from users']),
+
+    'php.docblock-tags': php([lines('/**', ' * @param string $name', ' * @return User', ' */')], ['/* Loads the user by name. */', '$param = $return;']),
+    'php.strict-types': php(['declare(strict_types=1);'], ['declare(ticks=1);']),
+    'php.typed-signature': php(
+      ['public function find(int $id, string $name): ?User', 'function total(array $items): float {'],
+      ['public function find($id, string $name): ?User', 'public function find(int $id, string $name)']
+    ),
+    'php.debug-output': php(['var_dump($user);', 'die("here");'], ['dump_config($user);', '// var_dump($user);']),
+    'php.error-suppression': php(['$handle = @fopen($path, "r");'], ['$handle = fopen($path, "r");', '$email = "user@example.com";']),
+
+    'ruby.yard-tags': ruby(['# @param name [String] the user name', '# @return [User]'], ['# Loads the user by name', '# see @params above']),
+    'ruby.guard-clause-ladder': ruby(
+      [lines('raise ArgumentError, "name required" if name.nil?', 'return [] unless active', 'load(name)')],
+      [lines('raise ArgumentError, "name required" if name.nil?', 'load(name)')]
+    ),
+    'ruby.frozen-string-literal': ruby(['# frozen_string_literal: true'], ['# frozen_string_literal: false', 'frozen = true']),
+    'ruby.debugging': ruby(['binding.pry', 'byebug', 'p user', 'puts user.inspect'], ['puts "Saved"', '# binding.pry']),
+    'ruby.rescue-nil': ruby(['value = Integer(text) rescue nil', 'rescue'], ['rescue ArgumentError => e'])
+  });
+});
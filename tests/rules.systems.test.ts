@@ -0,0 +1,100 @@
+import { describe } from 'node:test';
+import { SYSTEMS_RULES } from '../src/lib/rules';
+import { testRulePack } from './rulePack';
+import type { RuleFixture } from './rulePack';
+
+const lines = (...source: string[]) => source.join('\n');
+
+const fixture = (language: string) => (fires: string[], ignores: string[]): RuleFixture => ({ language, fires, ignores });
+const go = fixture('go');
+const rust = fixture('rust');
+const c = fixture('c');
+const cpp = fixture('cpp');
+
+const TABLE_TEST = lines(
+  'func TestParse(t *testing.T) {',
+  '\ttests := []struct {',
+  '\t\tname  string',
+  '\t\tinput string',
+  '\t}{',
+  '\t\t{name: "empty", input: ""},',
+  '\t}',
+  '\tfor _, tt := range tests {',
+  '\t\tt.Run(tt.name, func(t *testing.T) {',
+  '\t\t\tParse(tt.input)',
+  '\t\t})',
+  '\t}',
+  '}'
+);
+
+describe('systems rule pack', () => {
+  testRulePack(SYSTEMS_RULES, {
+    'go.errorf-wrap': go(['return fmt.Errorf("load config: %w", err)'], ['return fmt.Errorf("load config %s", name)']),
+    'go.err-check-wrap': go(
+      [lines('if err != nil {', '\treturn nil, fmt.Errorf("load config: %w", err)', '}')],
+      [lines('if err != nil {', '\treturn nil, err', '}')]
+    ),
+    'go.table-test': go(
+      [TABLE_TEST],
+      [
+        TABLE_TEST.replace('t.Run(tt.name', 't.Run(tt.input'),
+        lines('for _, tt := range tests {', '\tt.Run(tt.name, func(t *testing.T) {})', '}')
+      ]
+    ),
+    'go.bare-err-return': go(
+      [lines('if err != nil {', '\treturn nil, err', '}')],
+      [lines('if err != nil {', '\treturn nil, fmt.Errorf("load config: %w", err)', '}')]
+    ),
+    'go.ignored-error': go(['_ = file.Close()', 'data, _ := os.ReadFile(path)'], ['data, err := os.ReadFile(path)', 'for _, item := range items {']),
+    'go.panic-on-error': go(
+      [lines('if err != nil {', '\tpanic(err)', '}'), lines('if err != nil {', '\tlog.Fatal(err)', '}')],
+      [lines('if err != nil {', '\treturn err', '}')]
+    ),
+
+    'rust.question-mark': rust(['let config = load(path)?;', 'let text = fs::read_to_string(path)?.trim();'], ['let config = load(path);', 'let maybe = value?']),
+    'rust.expect-message': rust(['let file = File::open(path).expect("Failed to open config");'], ['let file = File::open(path).expect("config");']),
+    'rust.long-derive': rust(['#[derive(Debug, Clone, PartialEq, Eq, Hash)]'], ['#[derive(Debug, Clone)]']),
+    'rust.doc-sections': rust([lines('/// Loads the config.', '///', '/// # Errors', '///', '/// Fails when the file is missing.')], ['/// Loads the config; errors when missing.', '// # Errors']),
+    'rust.restating-doc': rust(['/// Creates a new parser.', '/// Returns the name.'], ['/// Returns early when the cache is warm.', '// Creates a new parser.']),
+    'rust.display-boilerplate': rust(
+      [lines('impl fmt::Display for ParseError {', '    fn fmt(&self, f: &mut fmt::Formatter) -> fmt::Result {', '        write!(f, "parse error")', '    }', '}'), 'impl std::error::Error for ParseError {}'],
+      [lines('impl ParseError {', '    fn fmt(&self) -> String {', '        String::new()', '    }', '}')]
+    ),
+    'rust.unwrap': rust(['let value = parse(text).unwrap();'], ['let value = parse(text).unwrap_or_default();', '// parse(text).unwrap()']),
+    'rust.debug-macro': rust(['dbg!(value);', 'todo!()'], ['debug!("value: {}", value);']),
+    'rust.allow-lint': rust(['#[allow(dead_code)]', '#![allow(clippy::too_many_arguments)]'], ['#[allow(non_snake_case)]', '#[derive(Debug)]']),
+
+    'c.guard-and-pragma-once': [
+      c([lines('#pragma once', '', '#ifndef CONFIG_H', '#define CONFIG_H')], ['#pragma once', lines('#ifndef CONFIG_H', '#define CONFIG_H')]),
+      cpp([lines('#pragma once', '#ifndef CONFIG_HPP', '#define CONFIG_HPP')], [])
+    ],
+    'c.include-guard-endif-comment': [
+      c(['#endif /* CONFIG_H */', '#endif // CONFIG_H_'], ['#endif', '#endif /* DEBUG */']),
+      cpp(['#endif // CONFIG_HPP'], [])
+    ],
+    'c.doxygen-tags': [
+      c([lines('/**', ' * @brief Loads the config.', ' * @param[in] path Config file.', ' */')], ['/* Loads the config from path. */', 'int brief = param;']),
+      cpp(['/// \\return The parsed config.'], [])
+    ],
+    'cpp.rule-of-five': cpp(
+      [lines(
+        'class Buffer {',
+        'public:',
+        '    Buffer(const Buffer&) = delete;',
+        '    Buffer& operator=(const Buffer&) = delete;',
+        '    Buffer(Buffer&&) noexcept = default;',
+        '    Buffer& operator=(Buffer&&) noexcept = default;',
+        '    ~Buffer() = default;',
+        '};'
+      )],
+      [lines('class Buffer {', 'public:', '    Buffer(const Buffer&) = delete;', '    Buffer& operator=(const Buffer&) = delete;', '    void reset();', '};')]
+    ),
+    'cpp.raw-new-delete': cpp(['Node* node = new Node(value);', 'delete node;', 'delete[] buffer;'], ['auto node = std::make_unique<Node>(value);']),
+    'cpp.using-namespace-std': cpp(['using namespace std;'], ['using std::string;', 'namespace app {']),
+    'cpp.mixed-std-qualification': cpp(['std::vector<string> names;', 'string name = std::to_string(id);'], ['std::vector<std::string> names;', 'vector<string> names;']),
+    'c.disabled-block': [
+      c(['#if 0'], ['#if DEBUG', '#if 01']),
+      cpp(['#if 0  // old parser'], [])
+    ]
+  });
+});
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BUILTIN_RULES, resolveRules, ruleSetIds } from '../src/lib/rules';
+import type { DetectionPattern } from '../src/lib/rules';
+
+function rule(id: string, pattern: RegExp, extra: Partial<DetectionPattern> = {}): DetectionPattern {
+  return { id, pattern, weight: 1, reason: id, aiIndicator: true, ...extra };
+}
+
+const RULES = [
+  rule('any.todo', /TODO/),
+  rule('python.walrus', /:=/, { languages: ['python'] }),
+  rule('typescript.any', /: any\b/, { languages: ['typescript'] }),
+  rule('any.note', /<comment>\s*Note:/, { weight: 2 })
+];
+
+const ids = (rules: DetectionPattern[]) => rules.map(({ id }) => id);
+
+describe('resolveRules', () => {
+  it('keeps unscoped rules and rules scoped to the language or its ancestors', () => {
+    assert.deepEqual(ids(resolveRules('python', { rules: RULES })), ['any.todo', 'python.walrus', 'any.note']);
+    assert.deepEqual(ids(resolveRules('tsx', { rules: RULES })), ['any.todo', 'typescript.any', 'any.note']);
+  });
+
+  it('appends extra rules to the built-ins', () => {
+    const resolved = resolveRules('python', { extraRules: [rule('house.print', /print\(/)] });
+    assert.equal(resolved.length, resolveRules('python').length + 1);
+    assert.equal(resolved.at(-1)!.id, 'house.print');
+  });
+
+  it('rejects duplicate ids, including extra rules that reuse a built-in id', () => {
+    assert.throws(() => resolveRules('python', { rules: [...RULES, rule('any.todo', /FIXME/)] }), /Duplicate detection rule id: any\.todo/);
+    assert.throws(() => resolveRules('python', { extraRules: [rule(BUILTIN_RULES[0].id, /x/)] }), /Duplicate detection rule id/);
+  });
+
+  it('rejects overrides for unknown ids, even ones that exist in another rule set', () => {
+    assert.throws(
+      () => resolveRules('python', { rules: RULES, ruleOverrides: { 'any.todo': { weight: 2 }, 'missing.rule': { enabled: false } } }),
+      /unknown rule ids: missing\.rule/
+    );
+    assert.throws(() => resolveRules('python', { rules: RULES, ruleOverrides: { [BUILTIN_RULES[0].id]: { weight: 1 } } }), /unknown rule ids/);
+  });
+
+  it('accepts overrides for rules that do not apply to the language', () => {
+    const resolved = resolveRules('python', { rules: RULES, ruleOverrides: { 'typescript.any': { enabled: false } } });
+    assert.deepEqual(ids(resolved), ['any.todo', 'python.walrus', 'any.note']);
+  });
+
+  it('drops rules disabled by an override', () => {
+    const resolved = resolveRules('python', { rules: RULES, ruleOverrides: { 'python.walrus': { enabled: false }, 'any.todo': { enabled: true } } });
+    assert.deepEqual(ids(resolved), ['any.todo', 'any.note']);
+  });
+
+  it('replaces weights without touching the source rules', () => {
+    const resolved = resolveRules('python', { rules: RULES, ruleOverrides: { 'any.todo': { weight: 0.25 } } });
+    assert.equal(resolved.find(({ id }) => id === 'any.todo')!.weight, 0.25);
+    assert.equal(resolved.find(({ id }) => id === 'python.walrus')!.weight, 1);
+    assert.equal(RULES[0].weight, 1);
+  });
+
+  it("expands <comment> into the language's comment openers and keeps the flags", () => {
+    const caseless = rule('any.caseless', /<comment>\s*note:/i);
+    const [python, note] = resolveRules('python', { rules: [RULES[3], caseless] });
+    assert.ok(python.pattern.test('x = 1  # Note: fine'));
+    assert.ok(!python.pattern.test('x = 1  // Note: fine'));
+    assert.ok(note.pattern.test('# NOTE: fine'));
+    assert.equal(note.pattern.flags, 'i');
+
+    const typescript = resolveRules('typescript', { rules: [RULES[3]] })[0];
+    assert.ok(typescript.pattern.test('const x = 1; // Note: fine'));
+    assert.ok(typescript.pattern.test('/* Note: fine */'));
+    assert.ok(!typescript.pattern.test('x = 1  # Note: fine'));
+    assert.equal(RULES[3].pattern.source, '<comment>\\s*Note:');
+  });
+
+  it('drops comment rules for languages without comment syntax', () => {
+    assert.deepEqual(ids(resolveRules('json', { rules: RULES })), ['any.todo']);
+    const commentRules = new Set(BUILTIN_RULES.filter(({ pattern }) => pattern.source.includes('<comment>')).map(({ id }) => id));
+    assert.ok(commentRules.size > 0);
+    assert.ok(ids(resolveRules('json')).every(id => !commentRules.has(id)));
+  });
+});
+
+describe('ruleSetIds', () => {
+  it('lists base and extra rule ids before language filtering', () => {
+    assert.deepEqual([...ruleSetIds({ rules: RULES, extraRules: [rule('house.print', /print\(/)] })], [...ids(RULES), 'house.print']);
+    assert.equal(ruleSetIds().size, BUILTIN_RULES.length);
+  });
+});
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { segmentLines } from '../src/lib/segmentation';
+
+// P(AI) at every position by summing the joint probability of all 2^n label paths
+function bruteForcePosteriors(probabilities: number[], humanToAICost: number, aiToHumanCost: number, initialAI = 0.5): number[] {
+  const toAI = Math.exp(-humanToAICost);
+  const toHuman = Math.exp(-aiToHumanCost);
+  const transition = [[1 - toAI, toAI], [toHuman, 1 - toHuman]];
+  const aiMass = probabilities.map(() => 0);
+  let total = 0;
+
+  for (let path = 0; path < 2 ** probabilities.length; path++) {
+    const states = probabilities.map((_, i) => (path >> i) & 1);
+    let joint = states[0] === 1 ? initialAI : 1 - initialAI;
+    states.forEach((state, i) => {
+      if (i > 0) joint *= transition[states[i - 1]][state];
+      joint *= state === 1 ? probabilities[i] : 1 - probabilities[i];
+    });
+    total += joint;
+    states.forEach((state, i) => {
+      if (state === 1) aiMass[i] += joint;
+    });
+  }
+
+  return aiMass.map(mass => mass / total);
+}
+
+describe('segmentLines', () => {
+  it('splits a clear AI run followed by a clear human run', () => {
+    const { segments } = segmentLines([0.9, 0.85, 0.9, 0.1, 0.2, 0.1]);
+    assert.deepEqual(segments.map(({ label, startLine, endLine, lineCount }) => ({ label, startLine, endLine, lineCount })), [
+      { label: 'ai', startLine: 1, endLine: 3, lineCount: 3 },
+      { label: 'human', startLine: 4, endLine: 6, lineCount: 3 }
+    ]);
+  });
+
+  it('absorbs a single outlier into the surrounding run', () => {
+    const { segments, posteriors } = segmentLines([0.9, 0.9, 0.3, 0.9, 0.9]);
+    assert.deepEqual(segments.map(segment => [segment.label, segment.startLine, segment.endLine]), [['ai', 1, 5]]);
+    assert.ok(posteriors[2]! > 0.5);
+  });
+
+  it('keeps the outlier when switching authorship is cheap', () => {
+    const { segments } = segmentLines([0.9, 0.9, 0.1, 0.9, 0.9], { humanToAICost: 1, aiToHumanCost: 1 });
+    assert.deepEqual(segments.map(segment => segment.label), ['ai', 'human', 'ai']);
+  });
+
+  it('skips null lines while keeping line numbers', () => {
+    const { segments, posteriors } = segmentLines([null, 0.9, null, 0.9, null]);
+    assert.deepEqual(segments.map(segment => [segment.label, segment.startLine, segment.endLine, segment.lineCount]), [['ai', 2, 4, 2]]);
+    assert.equal(posteriors[0], null);
+    assert.equal(posteriors[2], null);
+    assert.equal(posteriors[4], null);
+  });
+
+  it('returns nothing for input without evidence', () => {
+    assert.deepEqual(segmentLines([null, null]), { segments: [], posteriors: [null, null] });
+  });
+
+  it('matches forward-backward posteriors computed by enumerating every path', () => {
+    const probabilities = [0.8, 0.35, 0.6, 0.1, 0.7, 0.55];
+    const expected = bruteForcePosteriors(probabilities, 1.5, 2.5, 0.3);
+    const { posteriors } = segmentLines(probabilities, { humanToAICost: 1.5, aiToHumanCost: 2.5, initialAIProbability: 0.3 });
+    posteriors.forEach((posterior, i) => {
+      assert.ok(Math.abs(posterior! - expected[i]) < 1e-9, `line ${i + 1}: ${posterior} vs ${expected[i]}`);
+    });
+  });
+
+  it('reports segment confidence as the mean posterior of its label', () => {
+    const { segments, posteriors } = segmentLines([0.1, 0.2, 0.15]);
+    assert.equal(segments.length, 1);
+    const mean = posteriors.reduce((sum, posterior) => sum + (1 - posterior!), 0) / posteriors.length;
+    assert.ok(Math.abs(segments[0].confidence - mean) < 1e-12);
+  });
+});
@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { tokenizeLines } from '../src/lib/lexer';
+import { extractStylometry, STYLOMETRY_FEATURES, stylometryToCsv, stylometryToJsonl } from '../src/lib/stylometry';
+import type { StylometryRecord } from '../src/lib/stylometry';
+
+function stylometry(language: string, ...lines: string[]) {
+  return extractStylometry(lines, tokenizeLines(lines, language));
+}
+
+function assertClose(actual: number, expected: number): void {
+  assert.ok(Math.abs(actual - expected) < 1e-3, `${actual} vs ${expected}`);
+}
+
+const SAMPLE = [
+  '// Load the user',
+  'const userName = getUser();',
+  '',
+  'if (userName) {',
+  "  print_name(userName, 'max_count');",
+  '}'
+];
+
+describe('extractStylometry', () => {
+  const features = stylometry('javascript', ...SAMPLE);
+
+  it('counts identifiers from code only, without keywords', () => {
+    // userName ×3, getUser, print_name; `max_count` is a string and `const`/`if` are keywords
+    assert.equal(features.nonBlankLines, 5);
+    assert.equal(features.identifierCount, 5);
+    assert.equal(features.uniqueIdentifiers, 3);
+    assertClose(features.meanIdentifierLength, 41 / 5);
+    assertClose(features.identifierEntropy, -(0.6 * Math.log2(0.6) + 2 * 0.2 * Math.log2(0.2)));
+  });
+
+  it('reports the dominant naming convention among multi-word identifiers', () => {
+    assert.equal(features.dominantNamingConvention, 'camelCase');
+    assertClose(features.namingConsistency, 2 / 3);
+  });
+
+  it('measures comments, nesting, line lengths and paragraphs', () => {
+    assertClose(features.commentDensity, 1 / 5);
+    assert.equal(features.maxNestingDepth, 1);
+    assertClose(features.meanNestingDepth, 1 / 5);
+    assertClose(features.meanLineLength, 19);
+    assertClose(features.lineLengthVariance, 140.4);
+    assertClose(features.blankLineRatio, 1 / 6);
+    assertClose(features.meanParagraphLength, 2.5);
+    assertClose(features.paragraphLengthVariance, 0.25);
+  });
+
+  it('measures nesting in the smallest indent step, counting tabs as four spaces', () => {
+    const nested = stylometry('python', 'def f():', '    if x:', '        return 1', '\t\treturn 2');
+    assert.equal(nested.maxNestingDepth, 2);
+    assertClose(nested.meanNestingDepth, 5 / 4);
+  });
+
+  it('falls back to neutral values for blank input', () => {
+    const blank = stylometry('javascript', '', '  ');
+    assert.equal(blank.nonBlankLines, 0);
+    assert.equal(blank.identifierEntropy, 0);
+    assert.equal(blank.dominantNamingConvention, null);
+    assert.equal(blank.namingConsistency, 1);
+    assert.equal(blank.maxNestingDepth, 0);
+    assert.equal(blank.blankLineRatio, 1);
+    assert.equal(blank.meanParagraphLength, 0);
+  });
+});
+
+describe('stylometry export', () => {
+  const features = stylometry('javascript', ...SAMPLE);
+  const records: StylometryRecord[] = [
+    { path: 'src/a,b.ts', language: 'typescript', label: 'say "hi"', features },
+    { path: 'b.py', language: 'python', features: { ...features, dominantNamingConvention: null } }
+  ];
+
+  it('writes one CSV row per record with quoted fields and empty nulls', () => {
+    const [header, first, second] = stylometryToCsv(records).split('\n');
+    assert.equal(header, ['path', 'language', 'label', ...STYLOMETRY_FEATURES].join(','));
+    assert.ok(first.startsWith('"src/a,b.ts",typescript,"say ""hi""",5,5,3,'));
+    assert.ok(second.startsWith('b.py,python,,5,'));
+    assert.equal(second.split(',')[3 + STYLOMETRY_FEATURES.indexOf('dominantNamingConvention')], '');
+  });
+
+  it('writes one flat JSON object per line', () => {
+    const rows = stylometryToJsonl(records).split('\n').map(row => JSON.parse(row));
+    assert.deepEqual(rows[0], { path: 'src/a,b.ts', language: 'typescript', label: 'say "hi"', ...features });
+    assert.equal(rows[1].label, null);
+    assert.equal(rows[1].dominantNamingConvention, null);
+  });
+});